@@ -5,7 +5,7 @@
  */
 
 import { fetchCandles, fetchMultiTimeframeData } from '../api/binance.ts';
-import { calculateRSI, calculateMACD } from '../indicators/technical.ts';
+import { MACD, RSI, computeSeries } from '../indicators/engine.ts';
 import { saveAnalysisResult } from '../utils/storage.ts';
 import { logInfo, logSuccess, logWarning } from '../utils/helpers.ts';
 
@@ -35,22 +35,25 @@ export async function runAnalysis(
     }
 
     // 计算技术指标
-    const rsi = calculateRSI(candles);
-    const macd = calculateMACD(candles);
+    const rsi = computeSeries(new RSI(14), candles);
+    const macd = computeSeries(new MACD(12, 26, 9), candles);
 
     // 检查超卖信号
     const isOversold = rsi[rsi.length - 1] < 30;
 
     // 检查 MACD 底背离
-    const hasDivergence = checkMACD_Divergence(candles, macd);
+    const hasDivergence = checkMACD_Divergence(
+      candles,
+      macd.map((value) => value.histogram)
+    );
 
     // 保存分析结果
     results[timeframe] = {
       lastClose: candles[candles.length - 1].close,
       rsi: rsi[rsi.length - 1],
-      macd: macd.MACD[macd.MACD.length - 1],
-      signal: macd.signal[macd.signal.length - 1],
-      histogram: macd.histogram[macd.histogram.length - 1],
+      macd: macd[macd.length - 1].macd,
+      signal: macd[macd.length - 1].signal,
+      histogram: macd[macd.length - 1].histogram,
       isOversold,
       hasDivergence,
     };
@@ -81,17 +84,17 @@ export async function runAnalysis(
  * 检查 MACD 底背离
  *
  * @param candles K 线数据
- * @param macd MACD 数据
+ * @param histogram MACD 柱状图序列
  * @returns 是否有底背离
  */
-function checkMACD_Divergence(candles: any[], macd: any): boolean {
-  if (candles.length < 30 || macd.histogram.length < 30) {
+function checkMACD_Divergence(candles: any[], histogram: number[]): boolean {
+  if (candles.length < 30 || histogram.length < 30) {
     return false;
   }
 
   // 获取最近的数据
   const recent = candles.slice(-30);
-  const recentHistogram = macd.histogram.slice(-30);
+  const recentHistogram = histogram.slice(-30);
 
   // 寻找近期低点
   let priceMinIndex = 0;
@@ -4,54 +4,62 @@
  * 负责与币安交易所 API 交互，获取市场数据
  */
 
-import { GainerInfo, Candle } from '../models/types.ts';
-import { saveCandles } from '../utils/storage.ts';
+import {
+  GainerInfo,
+  Candle,
+  CandleGap,
+  CandleRange,
+  GainersWindow,
+  SymbolMetadata,
+  UniverseFilter,
+} from '../models/types.ts';
+import { loadCandles, mergeCandles, saveCandles } from '../utils/storage.ts';
+import { MarketDataSource, RawKline, defaultDataSource } from './source.ts';
+import { validateKlines, validateTickers } from './validation.ts';
+import { isSystemWideError } from './errors.ts';
+import {
+  DEFAULT_UNIVERSE_FILTER,
+  fetchExchangeMetadata,
+  filterUniverse,
+  isInUniverse,
+} from './exchange.ts';
 import {
   formatPrice,
+  intervalToMs,
   logInfo,
   logWarning,
-  logError,
 } from '../utils/helpers.ts';
 
-// 币安 API 基础 URL
-const BINANCE_API_BASE = 'https://fapi.binance.com';
+// 币安 K 线接口单次请求的最大数量
+const MAX_KLINES_PER_REQUEST = 1500;
+
+// 多周期分析默认使用的时间周期
+export const MULTI_TIMEFRAMES = ['15m', '1h', '4h', '1d'];
+
+// 重建历史涨幅榜支持的涨幅统计窗口
+export const GAINERS_WINDOWS: GainersWindow[] = ['1h', '4h', '24h'];
 
 /**
  * 获取币安合约市场涨幅榜
  *
  * @param limit 返回的币种数量，默认为 50
+ * @param source 行情数据源
+ * @param universe 交易对范围过滤规则，在截取前 limit 名之前应用
  * @returns 涨幅榜币种信息
  */
-export async function fetchGainersList(limit = 50): Promise<GainerInfo[]> {
+export async function fetchGainersList(
+  limit = 50,
+  source: MarketDataSource = defaultDataSource,
+  universe: UniverseFilter = DEFAULT_UNIVERSE_FILTER
+): Promise<GainerInfo[]> {
   try {
-    // 获取所有合约交易对 24 小时 ticker 数据
-    const response = await fetch(`${BINANCE_API_BASE}/fapi/v1/ticker/24hr`);
+    // 获取所有合约交易对 24 小时 ticker 数据和交易对元数据
+    const [tickers, metadata] = await Promise.all([
+      fetchTickers(source),
+      fetchExchangeMetadata(source),
+    ]);
 
-    if (!response.ok) {
-      throw new Error(
-        `API 请求失败: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
-
-    // 转换为 GainerInfo 对象并按涨幅排序
-    const gainersList: GainerInfo[] = data
-      .map((item: any) => ({
-        symbol: item.symbol,
-        priceChange: parseFloat(item.priceChange),
-        priceChangePercent: parseFloat(item.priceChangePercent),
-        lastPrice: parseFloat(item.lastPrice),
-        volume: parseFloat(item.volume),
-        quoteVolume: parseFloat(item.quoteVolume),
-      }))
-      .sort(
-        (a: GainerInfo, b: GainerInfo) =>
-          b.priceChangePercent - a.priceChangePercent
-      )
-      .slice(0, limit);
-
-    return gainersList;
+    return rankGainers(tickers, metadata, universe, limit);
   } catch (error) {
     console.error('获取涨幅榜失败:', error);
     throw error;
@@ -59,210 +67,533 @@ export async function fetchGainersList(limit = 50): Promise<GainerInfo[]> {
 }
 
 /**
- * 获取 K 线数据
+ * 获取所有合约交易对的 24 小时 ticker
+ *
+ * @param source 行情数据源
+ * @returns 全部交易对的行情，未经过滤和排序
+ */
+export async function fetchTickers(
+  source: MarketDataSource = defaultDataSource
+): Promise<GainerInfo[]> {
+  const data = validateTickers(await source.fetchTicker24hr());
+
+  return data.map((item) => ({
+    symbol: item.symbol,
+    priceChange: parseFloat(item.priceChange),
+    priceChangePercent: parseFloat(item.priceChangePercent),
+    lastPrice: parseFloat(item.lastPrice),
+    volume: parseFloat(item.volume),
+    quoteVolume: parseFloat(item.quoteVolume),
+  }));
+}
+
+/**
+ * 由全市场 ticker 计算涨幅榜
+ *
+ * @param tickers 全部交易对的行情
+ * @param metadata 交易对元数据
+ * @param universe 交易对范围过滤规则，在截取前 limit 名之前应用
+ * @param limit 返回的币种数量
+ * @returns 按涨幅降序排列的涨幅榜币种
+ */
+export function rankGainers(
+  tickers: GainerInfo[],
+  metadata: Map<string, SymbolMetadata>,
+  universe: UniverseFilter,
+  limit: number
+): GainerInfo[] {
+  return filterUniverse(tickers, metadata, universe)
+    .sort((a, b) => b.priceChangePercent - a.priceChangePercent)
+    .slice(0, limit);
+}
+
+/**
+ * 获取最近的 K 线数据
+ *
+ * 使用本地缓存时只从交易所获取缓存之后的部分，缓存加上新 K 线仍不足 limit 根时向前补齐，
+ * 已收盘的 K 线会写入缓存
  *
  * @param symbol 交易对名称
  * @param interval K 线时间间隔
  * @param limit 返回的 K 线数量
- * @param saveToFile 是否保存到本地文件
+ * @param useCache 是否使用本地 K 线缓存
+ * @param source 行情数据源
  * @returns K 线数据数组
  */
 export async function fetchCandles(
   symbol: string,
   interval = '1h',
   limit = 100,
-  saveToFile = true
+  useCache = true,
+  source: MarketDataSource = defaultDataSource
 ): Promise<Candle[]> {
   try {
-    const response = await fetch(
-      `${BINANCE_API_BASE}/fapi/v1/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`
-    );
+    if (!useCache) {
+      const data = await source.fetchKlines({ symbol, interval, limit });
+      return validateKlines(data, symbol).map(parseKline);
+    }
 
-    if (!response.ok) {
-      throw new Error(
-        `API 请求失败: ${response.status} ${response.statusText}`
+    const intervalMs = intervalToMs(interval);
+    const cached = await loadCandles(symbol, interval, source.name);
+    const lastCached = cached[cached.length - 1];
+
+    // 没有缓存时直接获取最近 limit 根，否则补齐缓存之后的全部 K 线以保持缓存连续
+    const fresh = lastCached
+      ? await downloadCandleRange(
+          symbol,
+          interval,
+          lastCached.openTime + intervalMs,
+          Date.now(),
+          source
+        )
+      : validateKlines(
+          await source.fetchKlines({ symbol, interval, limit }),
+          symbol
+        ).map(parseKline);
+
+    // 缓存只有较短的一段时 (如重建涨幅榜写入的 24 根小时 K 线) 向前补齐到 limit 根
+    const missing = limit - mergeCandles(cached, fresh).length;
+    if (lastCached && missing > 0) {
+      const firstOpenTime = cached[0].openTime;
+      fresh.push(
+        ...(await downloadCandleRange(
+          symbol,
+          interval,
+          firstOpenTime - missing * intervalMs,
+          firstOpenTime - intervalMs,
+          source
+        ))
       );
     }
 
-    const data = await response.json();
-
-    // 转换为 Candle 对象
-    const candles: Candle[] = data.map((item: any) => ({
-      open: parseFloat(item[1]),
-      high: parseFloat(item[2]),
-      low: parseFloat(item[3]),
-      close: parseFloat(item[4]),
-      volume: parseFloat(item[5]),
-      closeTime: item[6],
-    }));
-
-    // 保存到本地文件
-    if (saveToFile && candles.length > 0) {
-      await saveCandles(symbol, interval, candles).catch((error) => {
-        console.warn(`保存 ${symbol} K 线数据失败:`, error);
-        // 即使保存失败，仍然继续返回数据
-      });
-    }
+    await cacheClosedCandles(symbol, interval, fresh, source);
 
-    return candles;
+    return mergeCandles(cached, fresh).slice(-limit);
   } catch (error) {
     console.error(`获取 ${symbol} ${interval} K 线数据失败:`, error);
     throw error;
   }
 }
 
+/**
+ * 将 K 线原始数据转换为 Candle 对象
+ *
+ * @param item K 线原始数据
+ * @returns K 线数据
+ */
+export function parseKline(item: RawKline): Candle {
+  return {
+    openTime: item[0],
+    open: parseFloat(item[1]),
+    high: parseFloat(item[2]),
+    low: parseFloat(item[3]),
+    close: parseFloat(item[4]),
+    volume: parseFloat(item[5]),
+    closeTime: item[6],
+    quoteVolume: parseFloat(item[7]),
+    trades: item[8],
+    takerBuyVolume: parseFloat(item[9]),
+    takerBuyQuoteVolume: parseFloat(item[10]),
+  };
+}
+
+/**
+ * 获取指定时间范围内的全部 K 线数据
+ *
+ * 优先读取本地缓存，只从交易所获取缓存之前或之后缺少的部分，并检测缺失的 K 线
+ *
+ * @param symbol 交易对名称
+ * @param interval K 线时间间隔
+ * @param startTime 起始时间 (开盘时间，毫秒)
+ * @param endTime 结束时间 (开盘时间，毫秒)
+ * @param source 行情数据源
+ * @returns K 线数据及缺口信息
+ */
+export async function fetchCandleRange(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number,
+  source: MarketDataSource = defaultDataSource
+): Promise<CandleRange> {
+  const intervalMs = intervalToMs(interval);
+  const cached = await loadCandles(symbol, interval, source.name);
+  const fresh: Candle[] = [];
+
+  if (cached.length === 0) {
+    fresh.push(
+      ...(await downloadCandleRange(
+        symbol,
+        interval,
+        startTime,
+        endTime,
+        source
+      ))
+    );
+  } else {
+    // 缓存始终是连续的一段，向前或向后补齐时都与缓存衔接
+    const firstOpenTime = cached[0].openTime;
+    const lastOpenTime = cached[cached.length - 1].openTime;
+
+    if (startTime < firstOpenTime) {
+      fresh.push(
+        ...(await downloadCandleRange(
+          symbol,
+          interval,
+          startTime,
+          firstOpenTime - intervalMs,
+          source
+        ))
+      );
+    }
+
+    if (endTime > lastOpenTime) {
+      fresh.push(
+        ...(await downloadCandleRange(
+          symbol,
+          interval,
+          lastOpenTime + intervalMs,
+          endTime,
+          source
+        ))
+      );
+    }
+  }
+
+  await cacheClosedCandles(symbol, interval, fresh, source);
+
+  const candles = mergeCandles(cached, fresh).filter(
+    (c) => c.openTime >= startTime && c.openTime <= endTime
+  );
+  const gaps = findCandleGaps(candles, intervalMs, startTime, endTime);
+
+  // 范围开头的缺口通常是交易对尚未上线，不视为数据缺失
+  const missingGaps = gaps.filter((gap) => gap.kind !== 'leading');
+  if (missingGaps.length > 0) {
+    const missing = missingGaps.reduce((sum, gap) => sum + gap.missing, 0);
+    logWarning(
+      `${symbol} ${interval} K 线存在 ${missingGaps.length} 处缺口，共缺失 ${missing} 根`
+    );
+  }
+
+  return { candles, gaps };
+}
+
+/**
+ * 从交易所分页下载指定时间范围内的 K 线
+ *
+ * @param symbol 交易对名称
+ * @param interval K 线时间间隔
+ * @param startTime 起始时间 (开盘时间，毫秒)
+ * @param endTime 结束时间 (开盘时间，毫秒)
+ * @param source 行情数据源
+ * @returns 按收盘时间去重并升序排列的 K 线
+ */
+async function downloadCandleRange(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number,
+  source: MarketDataSource
+): Promise<Candle[]> {
+  const intervalMs = intervalToMs(interval);
+  const pages: Candle[][] = [];
+
+  let cursor = startTime;
+  while (cursor <= endTime) {
+    const data = await source.fetchKlines({
+      symbol,
+      interval,
+      startTime: cursor,
+      endTime,
+      limit: MAX_KLINES_PER_REQUEST,
+    });
+
+    if (validateKlines(data, symbol).length === 0) break;
+    pages.push(data.map(parseKline));
+
+    // 下一页从最后一根 K 线之后开始
+    const nextCursor = data[data.length - 1][0] + intervalMs;
+    if (data.length < MAX_KLINES_PER_REQUEST || nextCursor <= cursor) break;
+    cursor = nextCursor;
+  }
+
+  return mergeCandles(...pages);
+}
+
+/**
+ * 将已收盘的 K 线追加到本地缓存
+ *
+ * 未收盘的 K 线仍会变化，不写入缓存；写入失败时只记录警告
+ *
+ * @param symbol 交易对名称
+ * @param interval K 线时间间隔
+ * @param candles K 线数据
+ * @param source 行情数据源，用作缓存命名空间
+ */
+async function cacheClosedCandles(
+  symbol: string,
+  interval: string,
+  candles: Candle[],
+  source: MarketDataSource
+): Promise<void> {
+  const now = Date.now();
+  const closed = candles.filter((c) => c.closeTime < now);
+  if (closed.length === 0) return;
+
+  await saveCandles(symbol, interval, closed, source.name).catch((error) => {
+    logWarning(`保存 ${symbol} ${interval} K 线缓存失败: ${error}`);
+  });
+}
+
+/**
+ * 获取截至指定时间的最近 N 根已收盘 K 线
+ *
+ * @param symbol 交易对名称
+ * @param interval K 线时间间隔
+ * @param count K 线数量
+ * @param endTime 截止时间戳，只返回在此之前收盘的 K 线
+ * @param source 行情数据源
+ * @returns K 线数据数组
+ */
+export async function fetchCandlesEndingAt(
+  symbol: string,
+  interval: string,
+  count: number,
+  endTime: number,
+  source: MarketDataSource = defaultDataSource
+): Promise<Candle[]> {
+  const intervalMs = intervalToMs(interval);
+  // 最后一根已收盘 K 线的开盘时间
+  const lastOpenTime =
+    Math.floor((endTime + 1) / intervalMs) * intervalMs - intervalMs;
+  const startTime = lastOpenTime - (count - 1) * intervalMs;
+
+  const { candles } = await fetchCandleRange(
+    symbol,
+    interval,
+    startTime,
+    lastOpenTime,
+    source
+  );
+
+  return candles.filter((c) => c.closeTime <= endTime).slice(-count);
+}
+
+/**
+ * 检测 K 线序列在请求范围内的缺口
+ *
+ * 除相邻 K 线之间的缺口外，也报告范围开头和末尾缺失的 K 线；尚未开盘的 K 线不算缺失
+ *
+ * @param candles 按时间升序排列的 K 线
+ * @param intervalMs K 线间隔毫秒数
+ * @param startTime 请求范围的起始时间 (开盘时间，毫秒)
+ * @param endTime 请求范围的结束时间 (开盘时间，毫秒)
+ * @returns 缺口列表
+ */
+export function findCandleGaps(
+  candles: Candle[],
+  intervalMs: number,
+  startTime: number,
+  endTime: number
+): CandleGap[] {
+  const gaps: CandleGap[] = [];
+  const addGap = (from: number, missing: number, kind: CandleGap['kind']) => {
+    if (missing > 0) {
+      gaps.push({ from, to: from + missing * intervalMs, missing, kind });
+    }
+  };
+
+  // 范围末尾只检查到当前正在形成的 K 线
+  const lastOpenTime = Math.min(endTime, Date.now());
+
+  if (candles.length === 0) {
+    if (lastOpenTime >= startTime) {
+      const missing = Math.floor((lastOpenTime - startTime) / intervalMs) + 1;
+      addGap(startTime, missing, 'leading');
+    }
+    return gaps;
+  }
+
+  const first = candles[0];
+  const leading = Math.floor((first.openTime - startTime) / intervalMs);
+  addGap(first.openTime - leading * intervalMs, leading, 'leading');
+
+  for (let i = 1; i < candles.length; i++) {
+    const expected = candles[i - 1].openTime + intervalMs;
+    addGap(
+      expected,
+      Math.round((candles[i].openTime - expected) / intervalMs),
+      'internal'
+    );
+  }
+
+  const last = candles[candles.length - 1];
+  addGap(
+    last.openTime + intervalMs,
+    Math.floor((lastOpenTime - last.openTime) / intervalMs),
+    'trailing'
+  );
+
+  return gaps;
+}
+
 /**
  * 获取多个时间周期的 K 线数据
  *
+ * 某个周期获取失败时跳过该周期；网络故障、限流和维护错误直接抛出
+ *
  * @param symbol 交易对名称
- * @param saveToFile 是否保存到本地文件
+ * @param useCache 是否使用本地 K 线缓存
+ * @param source 行情数据源
+ * @param timeframes 时间周期列表
+ * @param endTime 截止时间戳，指定时只返回在此之前收盘的 K 线 (用于回测)
  * @returns 不同时间周期的 K 线数据
  */
 export async function fetchMultiTimeframeData(
   symbol: string,
-  saveToFile = true
-) {
-  const timeframes = ['15m', '1h', '4h', '1d'];
+  useCache = true,
+  source: MarketDataSource = defaultDataSource,
+  timeframes = MULTI_TIMEFRAMES,
+  endTime?: number
+): Promise<Record<string, Candle[]>> {
   const results: Record<string, Candle[]> = {};
 
   // 并行获取所有时间周期的数据
   const promises = timeframes.map((tf) =>
-    fetchCandles(symbol, tf, 100, saveToFile)
+    (endTime === undefined
+      ? fetchCandles(symbol, tf, 100, useCache, source)
+      : fetchCandlesEndingAt(symbol, tf, 100, endTime, source)
+    ).catch((error) => {
+      if (isSystemWideError(error)) throw error;
+      logWarning(`获取 ${symbol} ${tf} K 线失败，跳过该周期: ${error}`);
+      return undefined;
+    })
   );
   const dataArray = await Promise.all(promises);
 
   // 组织结果
   timeframes.forEach((tf, index) => {
-    results[tf] = dataArray[index];
+    const candles = dataArray[index];
+    if (candles) {
+      results[tf] = candles;
+    }
   });
 
   return results;
 }
 
 /**
- * 获取指定日期的历史涨幅榜数据
+ * 重建历史某一时刻的涨幅榜
+ *
+ * 使用小时 K 线计算每个交易对截至该时刻的滚动窗口涨幅，与实时 24 小时 ticker 的计算方式一致：
+ * 涨幅 = 最后一根已收盘 K 线的收盘价 / 窗口内第一根 K 线的开盘价 - 1；
+ * 时间点会向下取整到整点，只使用已收盘的 K 线。任何请求失败都会直接抛出错误
  *
- * @param date 日期 (YYYY-MM-DD 格式)
+ * @param timestamp 重建的时间点
  * @param limit 获取数量
+ * @param window 涨幅统计窗口
+ * @param source 行情数据源
+ * @param universe 交易对范围过滤规则
  * @returns 涨幅榜币种列表
  */
 export async function fetchHistoricalGainers(
-  date: string,
-  limit = 50
+  timestamp: number,
+  limit = 50,
+  window: GainersWindow = '24h',
+  source: MarketDataSource = defaultDataSource,
+  universe: UniverseFilter = DEFAULT_UNIVERSE_FILTER
 ): Promise<GainerInfo[]> {
-  try {
-    logInfo(`获取 ${date} 的历史涨幅榜数据...`);
+  const hourMs = intervalToMs('1h');
+  const at = Math.floor(timestamp / hourMs) * hourMs;
+  const windowHours = intervalToMs(window) / hourMs;
+  const label = new Date(at).toISOString();
 
-    // 将日期转换为时间戳
-    const targetDate = new Date(date);
-    const targetTimestamp = targetDate.getTime();
+  logInfo(`重建 ${label} 的 ${window} 涨幅榜...`);
 
-    // 获取前一天的日期
-    const prevDate = new Date(targetDate);
-    prevDate.setDate(prevDate.getDate() - 1);
-
-    // 获取所有可用的合约交易对
-    const response = await fetch(`${BINANCE_API_BASE}/fapi/v1/exchangeInfo`);
-    if (!response.ok) {
-      throw new Error(`获取交易对信息失败: ${response.status}`);
-    }
-
-    const exchangeInfo = await response.json();
-    const symbols = exchangeInfo.symbols
-      .filter((s: any) => s.status === 'TRADING')
-      .map((s: any) => s.symbol);
+  // 获取目标时间符合过滤规则的合约交易对，包括之后下架或交割的合约；当时没有 K 线的交易对在计算涨幅时排除
+  const metadata = await fetchExchangeMetadata(source);
+  const symbols = Array.from(metadata.keys()).filter((symbol) =>
+    isInUniverse(symbol, metadata, universe, at)
+  );
 
-    logInfo(`找到 ${symbols.length} 个交易对，计算 ${date} 的涨幅...`);
+  logInfo(`找到 ${symbols.length} 个交易对，计算 ${label} 的涨幅...`);
 
-    // 获取每个交易对在目标日期的日 K 线数据
-    const gainersData: GainerInfo[] = [];
+  const gainersData: GainerInfo[] = [];
 
-    // 使用 Promise.all 并行处理多个请求
-    const chunkSize = 10; // 每批处理的交易对数量
+  // 使用 Promise.all 并行处理多个请求，请求频率由调度器按权重控制
+  const chunkSize = 10; // 每批处理的交易对数量
 
-    for (let i = 0; i < symbols.length; i += chunkSize) {
-      const chunk = symbols.slice(i, i + chunkSize);
+  for (let i = 0; i < symbols.length; i += chunkSize) {
+    const chunk = symbols.slice(i, i + chunkSize);
 
-      const promises = chunk.map(async (symbol: string) => {
+    const results = await Promise.all(
+      chunk.map(async (symbol: string) => {
+        let candles: Candle[];
         try {
-          // 获取目标日期的日线数据
-          // 币安 API 需要开始时间和结束时间的时间戳（毫秒）
-          const startTime = targetTimestamp;
-          const endTime = targetTimestamp + 24 * 60 * 60 * 1000; // 加一天
-
-          const url = `${BINANCE_API_BASE}/fapi/v1/klines?symbol=${symbol}&interval=1d&startTime=${startTime}&endTime=${endTime}&limit=1`;
-          const response = await fetch(url);
-
-          if (!response.ok) {
-            throw new Error(`API 请求失败: ${response.status}`);
-          }
-
-          const data = await response.json();
-
-          if (data.length === 0) {
-            return null; // 该日期没有数据
-          }
-
-          // 获取前一天的收盘价
-          const prevDayUrl = `${BINANCE_API_BASE}/fapi/v1/klines?symbol=${symbol}&interval=1d&endTime=${startTime}&limit=1`;
-          const prevDayResponse = await fetch(prevDayUrl);
-
-          if (!prevDayResponse.ok) {
-            throw new Error(`API 请求失败: ${prevDayResponse.status}`);
-          }
-
-          const prevDayData = await prevDayResponse.json();
-
-          if (prevDayData.length === 0) {
-            return null; // 前一天没有数据
-          }
-
-          // 当日数据
-          const currentDayCandle = data[0];
-          // 前一天数据
-          const prevDayCandle = prevDayData[0];
-
-          // 计算涨跌幅
-          const currentClose = parseFloat(currentDayCandle[4]); // 收盘价
-          const prevClose = parseFloat(prevDayCandle[4]); // 前一天收盘价
-          const priceChange = currentClose - prevClose;
-          const priceChangePercent = (priceChange / prevClose) * 100;
-
-          return {
+          ({ candles } = await fetchCandleRange(
             symbol,
-            lastPrice: currentClose,
-            priceChange,
-            priceChangePercent,
-            volume: parseFloat(currentDayCandle[5]), // 成交量
-            quoteVolume: parseFloat(currentDayCandle[7]), // 成交额
-          };
-        } catch (e) {
-          logWarning(`获取 ${symbol} 的历史数据失败: ${e}`);
-          return null;
+            '1h',
+            at - windowHours * hourMs,
+            at - hourMs,
+            source
+          ));
+        } catch (error) {
+          throw new Error(`重建 ${label} 的涨幅榜失败，${symbol}: ${error}`);
         }
-      });
 
-      const results = await Promise.all(promises);
-      gainersData.push(
-        ...results.filter((item): item is GainerInfo => item !== null)
-      );
+        return computeWindowChange(symbol, candles, at, windowHours * hourMs);
+      })
+    );
 
-      // 添加一个短暂延迟以避免 API 请求限制
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    }
+    gainersData.push(
+      ...results.filter((item): item is GainerInfo => item !== null)
+    );
+  }
 
-    // 按涨幅排序并返回前 limit 个
-    const sortedGainers = gainersData
-      .sort((a, b) => b.priceChangePercent - a.priceChangePercent)
-      .slice(0, limit);
+  // 按成交额过滤后按涨幅排序并返回前 limit 个
+  const sortedGainers = filterUniverse(gainersData, metadata, universe, at)
+    .sort((a, b) => b.priceChangePercent - a.priceChangePercent)
+    .slice(0, limit);
 
-    logInfo(`成功获取 ${date} 的历史涨幅榜，共 ${sortedGainers.length} 个币种`);
-    return sortedGainers;
-  } catch (error) {
-    logError(`获取历史涨幅榜数据失败: ${error}`);
-    logWarning('使用模拟数据替代');
+  logInfo(`成功重建 ${label} 的涨幅榜，共 ${sortedGainers.length} 个币种`);
+  return sortedGainers;
+}
 
-    // 如果无法获取历史数据，使用当前数据
-    return await fetchGainersList(limit);
+/**
+ * 根据窗口内的小时 K 线计算涨幅
+ *
+ * 窗口开始之后才上线的交易对只有部分窗口的 K 线，以上线后的第一根 K 线为基准会得到失真的涨幅，不参与排名
+ *
+ * @param symbol 交易对名称
+ * @param candles 窗口内按时间升序排列的 K 线
+ * @param at 窗口结束时间
+ * @param windowMs 窗口长度毫秒数
+ * @returns 涨幅信息，该时刻没有交易 (未上线或已下架) 或窗口不完整时返回 null
+ */
+function computeWindowChange(
+  symbol: string,
+  candles: Candle[],
+  at: number,
+  windowMs: number
+): GainerInfo | null {
+  const lastCandle = candles[candles.length - 1];
+  if (!lastCandle || lastCandle.closeTime !== at - 1) {
+    return null;
   }
+  if (candles[0].openTime !== at - windowMs) {
+    return null;
+  }
+
+  const openPrice = candles[0].open;
+  const priceChange = lastCandle.close - openPrice;
+
+  return {
+    symbol,
+    lastPrice: lastCandle.close,
+    priceChange,
+    priceChangePercent: (priceChange / openPrice) * 100,
+    volume: candles.reduce((sum, c) => sum + c.volume, 0),
+    quoteVolume: candles.reduce((sum, c) => sum + c.quoteVolume, 0),
+  };
 }
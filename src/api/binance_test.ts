@@ -0,0 +1,68 @@
+/**
+ * 币安 API 接口测试
+ */
+
+import { assertEquals } from '@std/assert';
+import { Candle } from '../models/types.ts';
+import { findCandleGaps } from './binance.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * 构造指定开盘时间 (小时序号) 的小时 K 线
+ */
+function candlesAt(hours: number[]): Candle[] {
+  return hours.map((hour) => ({
+    openTime: hour * HOUR_MS,
+    open: 1,
+    high: 1,
+    low: 1,
+    close: 1,
+    volume: 1,
+    closeTime: (hour + 1) * HOUR_MS - 1,
+    quoteVolume: 1,
+    trades: 1,
+    takerBuyVolume: 1,
+    takerBuyQuoteVolume: 1,
+  }));
+}
+
+Deno.test('报告请求范围开头、中间和末尾的 K 线缺口', () => {
+  const gaps = findCandleGaps(
+    candlesAt([3, 4, 7, 8]),
+    HOUR_MS,
+    0,
+    10 * HOUR_MS
+  );
+
+  assertEquals(gaps, [
+    { from: 0, to: 3 * HOUR_MS, missing: 3, kind: 'leading' },
+    { from: 5 * HOUR_MS, to: 7 * HOUR_MS, missing: 2, kind: 'internal' },
+    { from: 9 * HOUR_MS, to: 11 * HOUR_MS, missing: 2, kind: 'trailing' },
+  ]);
+});
+
+Deno.test('完整的范围和尚未开盘的 K 线不算缺口', () => {
+  assertEquals(
+    findCandleGaps(candlesAt([0, 1, 2]), HOUR_MS, 0, 2 * HOUR_MS),
+    []
+  );
+
+  // 结束时间在未来时只检查到当前正在形成的 K 线
+  const currentHour = Math.floor(Date.now() / HOUR_MS);
+  assertEquals(
+    findCandleGaps(
+      candlesAt([currentHour - 1, currentHour]),
+      HOUR_MS,
+      (currentHour - 1) * HOUR_MS,
+      (currentHour + 5) * HOUR_MS
+    ),
+    []
+  );
+});
+
+Deno.test('范围内没有 K 线时整个范围为开头缺口', () => {
+  assertEquals(findCandleGaps([], HOUR_MS, 0, 2 * HOUR_MS), [
+    { from: 0, to: 3 * HOUR_MS, missing: 3, kind: 'leading' },
+  ]);
+});
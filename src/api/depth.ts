@@ -0,0 +1,204 @@
+/**
+ * 订单簿深度接口
+ *
+ * 获取订单簿快照，并根据增量推送在本地维护实时订单簿
+ */
+
+import { OrderBook, OrderBookLevel } from '../models/types.ts';
+import { logInfo, logWarning } from '../utils/helpers.ts';
+import { MarketDataSource, RawDepth, defaultDataSource } from './source.ts';
+import { DepthUpdate } from './stream.ts';
+
+// 分析使用的订单簿档数
+export const DEFAULT_DEPTH_LIMIT = 500;
+
+// 本地订单簿初始化时获取的快照档数
+const LOCAL_BOOK_SNAPSHOT_LIMIT = 1000;
+
+// 本地订单簿同步失败后重试的最短间隔
+const RESYNC_INTERVAL_MS = 10 * 1000;
+
+// 同步完成前最多缓存的推送数量
+const MAX_PENDING_UPDATES = 1000;
+
+/**
+ * 获取订单簿快照
+ *
+ * @param symbol 交易对名称
+ * @param limit 每侧档数
+ * @param source 行情数据源
+ * @returns 订单簿快照
+ */
+export async function fetchOrderBook(
+  symbol: string,
+  limit = DEFAULT_DEPTH_LIMIT,
+  source: MarketDataSource = defaultDataSource
+): Promise<OrderBook> {
+  return parseDepth(symbol, await source.fetchDepth(symbol, limit));
+}
+
+/**
+ * 转换订单簿原始数据
+ *
+ * @param symbol 交易对名称
+ * @param raw 订单簿原始数据
+ * @returns 订单簿快照
+ */
+export function parseDepth(symbol: string, raw: RawDepth): OrderBook {
+  const parseLevels = (levels: Array<[string, string]>): OrderBookLevel[] =>
+    levels.map(([price, quantity]) => ({
+      price: parseFloat(price),
+      quantity: parseFloat(quantity),
+    }));
+
+  return {
+    symbol,
+    lastUpdateId: raw.lastUpdateId,
+    timestamp: raw.T ?? raw.E ?? Date.now(),
+    bids: parseLevels(raw.bids),
+    asks: parseLevels(raw.asks),
+  };
+}
+
+/**
+ * 本地订单簿
+ *
+ * 按币安的同步流程维护：先缓存增量推送，获取快照后丢弃快照之前的推送，
+ * 此后每条推送的 pu 必须等于上一条推送的 u，否则重新获取快照
+ */
+export class LocalOrderBook {
+  private readonly bids = new Map<number, number>();
+  private readonly asks = new Map<number, number>();
+  private lastUpdateId = 0;
+  private timestamp = 0;
+  private synced = false;
+  private syncing = false;
+  private lastSyncAttempt = 0;
+  // 快照获取完成前收到的推送
+  private pending: DepthUpdate[] = [];
+
+  /**
+   * @param symbol 交易对名称
+   * @param source 行情数据源，用于获取初始快照
+   */
+  constructor(
+    readonly symbol: string,
+    private readonly source: MarketDataSource = defaultDataSource
+  ) {}
+
+  /**
+   * 处理一条增量推送
+   *
+   * @param update 增量推送
+   */
+  apply(update: DepthUpdate): void {
+    if (!this.synced) {
+      this.pending.push(update);
+      this.pending.splice(0, this.pending.length - MAX_PENDING_UPDATES);
+      if (
+        !this.syncing &&
+        Date.now() - this.lastSyncAttempt >= RESYNC_INTERVAL_MS
+      ) {
+        this.sync();
+      }
+      return;
+    }
+
+    if (update.previousUpdateId !== this.lastUpdateId) {
+      logWarning(`${this.symbol} 订单簿推送不连续，重新同步`);
+      this.synced = false;
+      this.pending = [update];
+      if (!this.syncing) this.sync();
+      return;
+    }
+
+    this.applyLevels(update);
+  }
+
+  /**
+   * 获取当前订单簿
+   *
+   * @param limit 每侧档数
+   * @returns 订单簿快照，尚未同步完成时为 undefined
+   */
+  snapshot(limit = DEFAULT_DEPTH_LIMIT): OrderBook | undefined {
+    if (!this.synced) return undefined;
+
+    const toLevels = (levels: Map<number, number>, descending: boolean) =>
+      Array.from(levels, ([price, quantity]) => ({ price, quantity }))
+        .sort((a, b) => (descending ? b.price - a.price : a.price - b.price))
+        .slice(0, limit);
+
+    return {
+      symbol: this.symbol,
+      lastUpdateId: this.lastUpdateId,
+      timestamp: this.timestamp,
+      bids: toLevels(this.bids, true),
+      asks: toLevels(this.asks, false),
+    };
+  }
+
+  /**
+   * 获取快照并应用缓存的推送
+   */
+  private async sync(): Promise<void> {
+    this.syncing = true;
+    this.lastSyncAttempt = Date.now();
+
+    try {
+      const book = await fetchOrderBook(
+        this.symbol,
+        LOCAL_BOOK_SNAPSHOT_LIMIT,
+        this.source
+      );
+
+      // 丢弃快照之前的推送，第一条推送必须覆盖快照的更新 ID
+      const updates = this.pending.filter(
+        (u) => u.finalUpdateId >= book.lastUpdateId
+      );
+      if (updates.length > 0 && updates[0].firstUpdateId > book.lastUpdateId) {
+        logWarning(`${this.symbol} 订单簿快照早于缓存的推送，稍后重新同步`);
+        return;
+      }
+
+      this.bids.clear();
+      this.asks.clear();
+      book.bids.forEach((l) => this.bids.set(l.price, l.quantity));
+      book.asks.forEach((l) => this.asks.set(l.price, l.quantity));
+      this.lastUpdateId = book.lastUpdateId;
+      this.timestamp = book.timestamp;
+      this.pending = [];
+      this.synced = true;
+
+      // 第一条推送与快照重叠，不检查 pu，之后的推送按连续性检查
+      const [first, ...rest] = updates;
+      if (first) this.applyLevels(first);
+      rest.forEach((u) => this.apply(u));
+      logInfo(`${this.symbol} 本地订单簿已同步`);
+    } catch (error) {
+      logWarning(`同步 ${this.symbol} 订单簿失败: ${error}`);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * 将推送中的价位变化写入订单簿
+   */
+  private applyLevels(update: DepthUpdate): void {
+    const write = (levels: Map<number, number>, changes: OrderBookLevel[]) => {
+      for (const { price, quantity } of changes) {
+        if (quantity === 0) {
+          levels.delete(price);
+        } else {
+          levels.set(price, quantity);
+        }
+      }
+    };
+
+    write(this.bids, update.bids);
+    write(this.asks, update.asks);
+    this.lastUpdateId = update.finalUpdateId;
+    this.timestamp = update.eventTime;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * 订单簿深度接口测试
+ *
+ * 使用 testdata 中的订单簿快照夹具和增量推送记录，检查夹具数据源和本地订单簿的同步流程
+ */
+
+import { assertEquals, assertRejects } from '@std/assert';
+import { OrderBook, OrderBookLevel } from '../models/types.ts';
+import { LocalOrderBook, fetchOrderBook } from './depth.ts';
+import { ResponseParseError } from './errors.ts';
+import { FixtureDataSource } from './fixture.ts';
+import { RawDepth } from './source.ts';
+import { DepthUpdate, parseDepthUpdate } from './stream.ts';
+
+const TESTDATA_DIR = new URL('./testdata', import.meta.url).pathname;
+
+/**
+ * 记录订单簿快照请求次数的夹具数据源
+ */
+class CountingFixtureSource extends FixtureDataSource {
+  depthFetches = 0;
+
+  override async fetchDepth(symbol: string, limit?: number): Promise<RawDepth> {
+    const depth = await super.fetchDepth(symbol, limit);
+    this.depthFetches++;
+    return depth;
+  }
+}
+
+/**
+ * 读取增量推送记录 (组合流消息)
+ */
+async function loadDepthStream(): Promise<DepthUpdate[]> {
+  const messages = JSON.parse(
+    await Deno.readTextFile(`${TESTDATA_DIR}/depth_stream.json`)
+  );
+  return messages.map(
+    (message: { data: Parameters<typeof parseDepthUpdate>[0] }) =>
+      parseDepthUpdate(message.data)
+  );
+}
+
+/**
+ * 轮询等待条件成立
+ */
+async function waitFor(
+  condition: () => boolean,
+  timeoutMs = 2000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('等待超时');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * 将价位转换为 [价格, 数量]，便于比较
+ */
+function levels(book: OrderBook): {
+  bids: number[][];
+  asks: number[][];
+} {
+  const toPairs = (side: OrderBookLevel[]) =>
+    side.map((l) => [l.price, l.quantity]);
+  return { bids: toPairs(book.bids), asks: toPairs(book.asks) };
+}
+
+Deno.test('夹具数据源依次返回订单簿快照并按档数截取', async () => {
+  const source = new FixtureDataSource(TESTDATA_DIR);
+
+  const first = await fetchOrderBook('ABCUSDT', 2, source);
+  assertEquals(first.lastUpdateId, 100);
+  assertEquals(first.timestamp, 1000);
+  assertEquals(levels(first), {
+    bids: [
+      [10, 1],
+      [9.9, 2],
+    ],
+    asks: [
+      [10.1, 1],
+      [10.2, 2],
+    ],
+  });
+
+  // 数组中的快照依次返回，用完后重复最后一个
+  const second = await fetchOrderBook('ABCUSDT', undefined, source);
+  const third = await fetchOrderBook('ABCUSDT', undefined, source);
+  assertEquals(second.lastUpdateId, 300);
+  assertEquals(third.lastUpdateId, 300);
+
+  // 单个快照的文件每次都返回同一个快照
+  assertEquals((await fetchOrderBook('LATEUSDT', 5, source)).lastUpdateId, 100);
+  assertEquals((await fetchOrderBook('LATEUSDT', 5, source)).lastUpdateId, 100);
+
+  await assertRejects(
+    () => fetchOrderBook('EMPTYUSDT', 5, source),
+    ResponseParseError
+  );
+});
+
+Deno.test('本地订单簿丢弃快照之前的推送并按 pu 连续应用', async () => {
+  const source = new CountingFixtureSource(TESTDATA_DIR);
+  const book = new LocalOrderBook('ABCUSDT', source);
+  const [stale, overlapping, next] = await loadDepthStream();
+
+  // 同步完成前缓存推送，不提供订单簿
+  book.apply(stale);
+  book.apply(overlapping);
+  book.apply(next);
+  assertEquals(book.snapshot(), undefined);
+
+  await waitFor(() => book.snapshot() !== undefined);
+  const snapshot = book.snapshot()!;
+
+  // 早于快照的推送被丢弃，与快照重叠的第一条推送不检查 pu
+  assertEquals(source.depthFetches, 1);
+  assertEquals(snapshot.lastUpdateId, 110);
+  assertEquals(snapshot.timestamp, 1600);
+  assertEquals(levels(snapshot), {
+    bids: [
+      [10, 1.5],
+      [9.9, 2],
+      [9.8, 3],
+    ],
+    asks: [
+      [10.15, 4],
+      [10.2, 2],
+      [10.3, 3],
+    ],
+  });
+
+  assertEquals(book.snapshot(2)!.asks.length, 2);
+});
+
+Deno.test('本地订单簿推送不连续时重新获取快照', async () => {
+  const source = new CountingFixtureSource(TESTDATA_DIR);
+  const book = new LocalOrderBook('ABCUSDT', source);
+  const [stale, overlapping, next, gap, afterResync, continued] =
+    await loadDepthStream();
+
+  [stale, overlapping, next].forEach((u) => book.apply(u));
+  await waitFor(() => book.snapshot() !== undefined);
+
+  // pu 与上一条推送的 u 不一致，重新同步期间不提供订单簿
+  book.apply(gap);
+  assertEquals(book.snapshot(), undefined);
+  book.apply(afterResync);
+
+  await waitFor(() => book.snapshot() !== undefined);
+  assertEquals(source.depthFetches, 2);
+
+  // 新快照之前的推送 (包括不连续的那条) 被丢弃，覆盖新快照的推送被应用
+  book.apply(continued);
+  const snapshot = book.snapshot()!;
+  assertEquals(snapshot.lastUpdateId, 310);
+  assertEquals(snapshot.timestamp, 5600);
+  assertEquals(levels(snapshot), {
+    bids: [
+      [10, 5],
+      [9.95, 2],
+    ],
+    asks: [
+      [10.1, 5],
+      [10.2, 7],
+    ],
+  });
+});
+
+Deno.test('本地订单簿快照早于缓存的推送时保持未同步', async () => {
+  const source = new CountingFixtureSource(TESTDATA_DIR);
+  const book = new LocalOrderBook('LATEUSDT', source);
+
+  // 快照 lastUpdateId 为 100，第一条推送从 150 开始，中间的更新缺失
+  book.apply({
+    symbol: 'LATEUSDT',
+    eventTime: 2000,
+    firstUpdateId: 150,
+    finalUpdateId: 160,
+    previousUpdateId: 149,
+    bids: [{ price: 5, quantity: 2 }],
+    asks: [],
+  });
+
+  await waitFor(() => source.depthFetches === 1);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assertEquals(book.snapshot(), undefined);
+
+  // 重试间隔内的推送只缓存，不再请求快照
+  book.apply({
+    symbol: 'LATEUSDT',
+    eventTime: 2500,
+    firstUpdateId: 161,
+    finalUpdateId: 170,
+    previousUpdateId: 160,
+    bids: [],
+    asks: [],
+  });
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assertEquals(source.depthFetches, 1);
+  assertEquals(book.snapshot(), undefined);
+});
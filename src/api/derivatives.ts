@@ -0,0 +1,233 @@
+/**
+ * 衍生品数据接口
+ *
+ * 获取资金费率、持仓量、大户多空比和主动买卖量等合约持仓数据
+ */
+
+import {
+  DerivativesData,
+  FundingRate,
+  LongShortRatioPoint,
+  OpenInterestPoint,
+  TakerVolumePoint,
+} from '../models/types.ts';
+import {
+  MarketDataSource,
+  RawLongShortRatio,
+  defaultDataSource,
+} from './source.ts';
+import { logWarning } from '../utils/helpers.ts';
+
+// 持仓量、多空比和主动买卖量接口支持的统计周期
+const OPEN_INTEREST_PERIODS = [
+  '5m',
+  '15m',
+  '30m',
+  '1h',
+  '2h',
+  '4h',
+  '6h',
+  '12h',
+  '1d',
+];
+
+// /futures/data 下的持仓量、多空比和主动买卖量接口只提供最近 30 天的数据
+const FUTURES_DATA_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// 是否已提示过分析时间超出 /futures/data 的数据范围
+let retentionWarned = false;
+
+/**
+ * 获取历史资金费率
+ *
+ * @param symbol 交易对名称
+ * @param limit 返回数量
+ * @param endTime 截止时间戳，不指定则获取最新数据
+ * @param source 行情数据源
+ * @returns 按时间升序排列的资金费率
+ */
+export async function fetchFundingRateHistory(
+  symbol: string,
+  limit = 30,
+  endTime?: number,
+  source: MarketDataSource = defaultDataSource
+): Promise<FundingRate[]> {
+  const data = await source.fetchFundingRateHistory({ symbol, limit, endTime });
+
+  return data.map((item) => ({
+    fundingRate: parseFloat(item.fundingRate),
+    fundingTime: item.fundingTime,
+  }));
+}
+
+/**
+ * 获取持仓量历史
+ *
+ * @param symbol 交易对名称
+ * @param period 统计周期
+ * @param limit 返回数量
+ * @param endTime 截止时间戳，不指定则获取最新数据
+ * @param source 行情数据源
+ * @returns 按时间升序排列的持仓量
+ */
+export async function fetchOpenInterestHistory(
+  symbol: string,
+  period = '1h',
+  limit = 30,
+  endTime?: number,
+  source: MarketDataSource = defaultDataSource
+): Promise<OpenInterestPoint[]> {
+  const data = await source.fetchOpenInterestHistory({
+    symbol,
+    period,
+    limit,
+    endTime,
+  });
+
+  return data.map((item) => ({
+    timestamp: item.timestamp,
+    openInterest: parseFloat(item.sumOpenInterest),
+    openInterestValue: parseFloat(item.sumOpenInterestValue),
+  }));
+}
+
+/**
+ * 获取大户多空比历史
+ *
+ * @param symbol 交易对名称
+ * @param type 统计口径：account 按账户数，position 按持仓量
+ * @param period 统计周期
+ * @param limit 返回数量
+ * @param endTime 截止时间戳，不指定则获取最新数据
+ * @param source 行情数据源
+ * @returns 按时间升序排列的多空比
+ */
+export async function fetchTopLongShortRatio(
+  symbol: string,
+  type: 'account' | 'position',
+  period = '1h',
+  limit = 30,
+  endTime?: number,
+  source: MarketDataSource = defaultDataSource
+): Promise<LongShortRatioPoint[]> {
+  const query = { symbol, period, limit, endTime };
+  const data: RawLongShortRatio[] =
+    type === 'account'
+      ? await source.fetchTopLongShortAccountRatio(query)
+      : await source.fetchTopLongShortPositionRatio(query);
+
+  return data.map((item) => ({
+    timestamp: item.timestamp,
+    longShortRatio: parseFloat(item.longShortRatio),
+    longRatio: parseFloat(item.longAccount),
+    shortRatio: parseFloat(item.shortAccount),
+  }));
+}
+
+/**
+ * 获取主动买卖量历史
+ *
+ * @param symbol 交易对名称
+ * @param period 统计周期
+ * @param limit 返回数量
+ * @param endTime 截止时间戳，不指定则获取最新数据
+ * @param source 行情数据源
+ * @returns 按时间升序排列的主动买卖量
+ */
+export async function fetchTakerVolume(
+  symbol: string,
+  period = '1h',
+  limit = 30,
+  endTime?: number,
+  source: MarketDataSource = defaultDataSource
+): Promise<TakerVolumePoint[]> {
+  const data = await source.fetchTakerVolume({
+    symbol,
+    period,
+    limit,
+    endTime,
+  });
+
+  return data.map((item) => ({
+    timestamp: item.timestamp,
+    buySellRatio: parseFloat(item.buySellRatio),
+    buyVolume: parseFloat(item.buyVol),
+    sellVolume: parseFloat(item.sellVol),
+  }));
+}
+
+/**
+ * 获取分析所需的衍生品持仓数据
+ *
+ * 实时分析时使用当前资金费率和持仓量；指定截止时间 (回测) 时取该时间点之前的最后一条历史记录。
+ * 截止时间早于 /futures/data 的数据范围时拿不到完整数据，返回 undefined，与获取失败时一样只使用技术指标分析
+ *
+ * @param symbol 交易对名称
+ * @param interval K 线时间间隔，用作持仓量历史的统计周期
+ * @param endTime 分析时间点，不指定则获取最新数据
+ * @param source 行情数据源
+ * @returns 衍生品持仓数据，超出历史数据范围时返回 undefined
+ */
+export async function fetchDerivativesData(
+  symbol: string,
+  interval = '1h',
+  endTime?: number,
+  source: MarketDataSource = defaultDataSource
+): Promise<DerivativesData | undefined> {
+  if (
+    endTime !== undefined &&
+    endTime < Date.now() - FUTURES_DATA_RETENTION_MS
+  ) {
+    if (!retentionWarned) {
+      logWarning(
+        '分析时间早于 30 天前，币安不提供该时间的持仓量、多空比和主动买卖量，衍生品检测器不参与分析'
+      );
+      retentionWarned = true;
+    }
+    return undefined;
+  }
+
+  const period = OPEN_INTEREST_PERIODS.includes(interval) ? interval : '1h';
+
+  const [
+    fundingHistory,
+    openInterestHistory,
+    topAccountRatio,
+    topPositionRatio,
+    takerVolume,
+  ] = await Promise.all([
+    fetchFundingRateHistory(symbol, 30, endTime, source),
+    fetchOpenInterestHistory(symbol, period, 30, endTime, source),
+    fetchTopLongShortRatio(symbol, 'account', period, 30, endTime, source),
+    fetchTopLongShortRatio(symbol, 'position', period, 30, endTime, source),
+    fetchTakerVolume(symbol, period, 30, endTime, source),
+  ]);
+
+  if (endTime !== undefined) {
+    return {
+      fundingRate: fundingHistory[fundingHistory.length - 1]?.fundingRate ?? 0,
+      fundingHistory,
+      openInterest:
+        openInterestHistory[openInterestHistory.length - 1]?.openInterest ?? 0,
+      openInterestHistory,
+      topAccountRatio,
+      topPositionRatio,
+      takerVolume,
+    };
+  }
+
+  const [premiumIndex, openInterest] = await Promise.all([
+    source.fetchPremiumIndex(symbol),
+    source.fetchOpenInterest(symbol),
+  ]);
+
+  return {
+    fundingRate: parseFloat(premiumIndex.lastFundingRate),
+    fundingHistory,
+    openInterest: parseFloat(openInterest.openInterest),
+    openInterestHistory,
+    topAccountRatio,
+    topPositionRatio,
+    takerVolume,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * API 错误类型
+ *
+ * 区分网络故障、限流、无效交易对、交易所维护和响应解析失败，便于调用方分别处理
+ */
+
+/**
+ * API 请求错误
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number, // HTTP 状态码，未收到响应或非 HTTP 错误时为 0
+    readonly retryable: boolean, // 是否可以立即重试
+    readonly code?: number // 币安错误码，如 -1121
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+/**
+ * 网络错误：请求未能到达交易所或未收到响应
+ */
+export class NetworkError extends ApiRequestError {
+  constructor(message: string) {
+    super(message, 0, true);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * 限流错误：429 表示请求过于频繁，418 表示 IP 已被封禁
+ */
+export class RateLimitError extends ApiRequestError {
+  constructor(
+    message: string,
+    status: number,
+    readonly retryAfterMs: number // 服务端要求的等待时间
+  ) {
+    // 418 表示已被封禁，继续重试只会延长封禁时间
+    super(message, status, status === 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * 无效交易对错误：交易对不存在或已下架
+ */
+export class InvalidSymbolError extends ApiRequestError {
+  constructor(message: string, status: number, code?: number) {
+    super(message, status, false, code);
+    this.name = 'InvalidSymbolError';
+  }
+}
+
+/**
+ * 交易所维护错误：短时间内重试没有意义
+ */
+export class MaintenanceError extends ApiRequestError {
+  constructor(message: string, status: number, code?: number) {
+    super(message, status, false, code);
+    this.name = 'MaintenanceError';
+  }
+}
+
+/**
+ * 响应解析错误：响应不是合法 JSON 或数据格式不符合预期
+ */
+export class ResponseParseError extends ApiRequestError {
+  constructor(message: string) {
+    super(message, 0, false);
+    this.name = 'ResponseParseError';
+  }
+}
+
+/**
+ * 判断错误是否可重试
+ *
+ * @param error 捕获的错误
+ * @returns 是否可重试
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ApiRequestError && error.retryable;
+}
+
+/**
+ * 判断错误是否影响所有请求 (网络故障、限流或交易所维护)
+ *
+ * 这类错误出现时继续请求其他交易对同样会失败，应中止当前批次
+ *
+ * @param error 捕获的错误
+ * @returns 是否影响所有请求
+ */
+export function isSystemWideError(error: unknown): boolean {
+  return (
+    error instanceof NetworkError ||
+    error instanceof RateLimitError ||
+    error instanceof MaintenanceError
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * 交易所元数据
+ *
+ * 缓存 /fapi/v1/exchangeInfo 中的交易对信息，并根据过滤规则确定监控范围
+ */
+
+import { GainerInfo, SymbolMetadata, UniverseFilter } from '../models/types.ts';
+import {
+  MarketDataSource,
+  RawSymbolInfo,
+  defaultDataSource,
+} from './source.ts';
+import { validateExchangeInfo } from './validation.ts';
+import { logInfo } from '../utils/helpers.ts';
+
+// 元数据缓存有效期
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+// 默认过滤规则：只跟踪 USDT 永续合约
+export const DEFAULT_UNIVERSE_FILTER: UniverseFilter = {
+  quoteAsset: 'USDT',
+  perpetualOnly: true,
+  minListingDays: 0,
+  minQuoteVolume: 0,
+  exclude: [],
+};
+
+// 各数据源的元数据缓存
+const metadataCache = new WeakMap<
+  MarketDataSource,
+  { fetchedAt: number; symbols: Map<string, SymbolMetadata> }
+>();
+
+/**
+ * 获取交易对元数据
+ *
+ * 结果按数据源缓存，过期后重新获取
+ *
+ * @param source 行情数据源
+ * @param forceRefresh 是否忽略缓存
+ * @returns 以交易对名称为键的元数据
+ */
+export async function fetchExchangeMetadata(
+  source: MarketDataSource = defaultDataSource,
+  forceRefresh = false
+): Promise<Map<string, SymbolMetadata>> {
+  const cached = metadataCache.get(source);
+  if (
+    cached &&
+    !forceRefresh &&
+    Date.now() - cached.fetchedAt < METADATA_TTL_MS
+  ) {
+    return cached.symbols;
+  }
+
+  const exchangeInfo = validateExchangeInfo(await source.fetchExchangeInfo());
+  const symbols = new Map<string, SymbolMetadata>();
+
+  for (const item of exchangeInfo.symbols) {
+    symbols.set(item.symbol, parseSymbolInfo(item));
+  }
+
+  metadataCache.set(source, { fetchedAt: Date.now(), symbols });
+  logInfo(`已加载 ${symbols.size} 个交易对的元数据`);
+
+  return symbols;
+}
+
+/**
+ * 判断交易对是否符合过滤规则
+ *
+ * 实时判断要求交易对当前处于交易状态；判断历史时间点时不看当前状态，
+ * 按上线时间和交割 (下架) 时间判断当时是否在交易，避免之后下架或交割的合约从历史榜单中消失。
+ * 当时是否有 K 线由调用方根据 K 线数据判断
+ *
+ * @param symbol 交易对名称
+ * @param metadata 交易对元数据
+ * @param filter 过滤规则
+ * @param at 历史时间点，不传时按当前状态判断
+ * @returns 是否符合
+ */
+export function isInUniverse(
+  symbol: string,
+  metadata: Map<string, SymbolMetadata>,
+  filter: UniverseFilter,
+  at?: number
+): boolean {
+  const info = metadata.get(symbol);
+
+  // 元数据中不存在的交易对无法确认状态，一律排除
+  if (!info) return false;
+  if (at === undefined) {
+    if (info.status !== 'TRADING') return false;
+  } else if (info.deliveryDate !== undefined && at >= info.deliveryDate) {
+    return false;
+  }
+  if (filter.exclude.includes(symbol)) return false;
+  if (filter.quoteAsset && info.quoteAsset !== filter.quoteAsset) return false;
+  if (filter.perpetualOnly && info.contractType !== 'PERPETUAL') return false;
+
+  // 上线之前的时间点上线天数为负，同样排除
+  const listingDays =
+    ((at ?? Date.now()) - info.onboardDate) / (24 * 60 * 60 * 1000);
+  return listingDays >= filter.minListingDays && listingDays >= 0;
+}
+
+/**
+ * 按过滤规则筛选涨幅榜币种
+ *
+ * @param gainers 涨幅榜币种
+ * @param metadata 交易对元数据
+ * @param filter 过滤规则
+ * @param at 历史时间点，不传时按当前状态判断
+ * @returns 符合规则的币种
+ */
+export function filterUniverse(
+  gainers: GainerInfo[],
+  metadata: Map<string, SymbolMetadata>,
+  filter: UniverseFilter,
+  at?: number
+): GainerInfo[] {
+  return gainers.filter(
+    (gainer) =>
+      gainer.quoteVolume >= filter.minQuoteVolume &&
+      isInUniverse(gainer.symbol, metadata, filter, at)
+  );
+}
+
+/**
+ * 将交易对原始信息转换为元数据
+ *
+ * @param item 交易对原始信息
+ * @returns 交易对元数据
+ */
+function parseSymbolInfo(item: RawSymbolInfo): SymbolMetadata {
+  const findFilter = (type: string) =>
+    item.filters?.find((f) => f.filterType === type);
+
+  return {
+    symbol: item.symbol,
+    status: item.status,
+    contractType: item.contractType,
+    baseAsset: item.baseAsset,
+    quoteAsset: item.quoteAsset,
+    onboardDate: item.onboardDate ?? 0,
+    deliveryDate: item.deliveryDate,
+    tickSize: parseFloat(String(findFilter('PRICE_FILTER')?.tickSize ?? 0)),
+    stepSize: parseFloat(String(findFilter('LOT_SIZE')?.stepSize ?? 0)),
+  };
+}
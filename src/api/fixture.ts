@@ -0,0 +1,246 @@
+/**
+ * 离线夹具数据源
+ *
+ * 从本地录制的 JSON 文件提供行情数据，用于在无网络环境下运行监控和回测
+ *
+ * 目录结构：
+ *   <dir>/ticker_24hr.json                 /fapi/v1/ticker/24hr 响应
+ *   <dir>/exchangeInfo.json                /fapi/v1/exchangeInfo 响应
+ *   <dir>/klines/<SYMBOL>_<interval>.json  /fapi/v1/klines 响应 (按时间升序，可任意长度)
+ *   <dir>/premiumIndex/<SYMBOL>.json       /fapi/v1/premiumIndex 响应
+ *   <dir>/fundingRate/<SYMBOL>.json        /fapi/v1/fundingRate 响应 (按时间升序)
+ *   <dir>/openInterest/<SYMBOL>.json       /fapi/v1/openInterest 响应
+ *   <dir>/openInterestHist/<SYMBOL>_<period>.json  /futures/data/openInterestHist 响应 (按时间升序)
+ *   <dir>/topLongShortAccountRatio/<SYMBOL>_<period>.json   大户账户多空比 (按时间升序)
+ *   <dir>/topLongShortPositionRatio/<SYMBOL>_<period>.json  大户持仓多空比 (按时间升序)
+ *   <dir>/takerlongshortRatio/<SYMBOL>_<period>.json        主动买卖量 (按时间升序)
+ *   <dir>/depth/<SYMBOL>.json              /fapi/v1/depth 响应，或多个响应组成的数组
+ *                                          (每次请求依次返回下一个，之后一直返回最后一个，用于模拟流动性变化)
+ */
+
+import { exists } from '@std/fs';
+import { InvalidSymbolError, ResponseParseError } from './errors.ts';
+import {
+  KlineQuery,
+  MarketDataSource,
+  RawExchangeInfo,
+  RawFundingRate,
+  RawKline,
+  RawLongShortRatio,
+  RawOpenInterest,
+  RawOpenInterestHist,
+  RawPremiumIndex,
+  RawTakerVolume,
+  RawDepth,
+  RawTicker24hr,
+  SeriesQuery,
+} from './source.ts';
+
+// 币安 K 线接口的默认返回数量
+const DEFAULT_KLINE_LIMIT = 500;
+
+// 币安资金费率和持仓量历史接口的默认返回数量
+const DEFAULT_FUNDING_LIMIT = 100;
+const DEFAULT_OPEN_INTEREST_LIMIT = 30;
+
+// 币安订单簿接口的默认档数
+const DEFAULT_DEPTH_LIMIT = 500;
+
+/**
+ * 基于本地 JSON 文件的数据源
+ */
+export class FixtureDataSource implements MarketDataSource {
+  readonly name: string;
+
+  // 已读取的文件缓存，避免重复解析
+  private readonly cache = new Map<string, unknown>();
+
+  // 各交易对订单簿快照的请求次数
+  private readonly depthRequests = new Map<string, number>();
+
+  constructor(private readonly dir: string) {
+    this.name = `fixture:${dir}`;
+  }
+
+  fetchTicker24hr(): Promise<RawTicker24hr[]> {
+    return this.readJson('ticker_24hr.json');
+  }
+
+  async fetchKlines(query: KlineQuery): Promise<RawKline[]> {
+    const klines = await this.readJson<RawKline[]>(
+      `klines/${query.symbol}_${query.interval}.json`,
+      query.symbol
+    );
+
+    // 与币安一致：按开盘时间过滤
+    return sliceSeries(klines, (k) => k[0], query, DEFAULT_KLINE_LIMIT);
+  }
+
+  fetchExchangeInfo(): Promise<RawExchangeInfo> {
+    return this.readJson('exchangeInfo.json');
+  }
+
+  fetchPremiumIndex(symbol: string): Promise<RawPremiumIndex> {
+    return this.readJson(`premiumIndex/${symbol}.json`, symbol);
+  }
+
+  async fetchFundingRateHistory(query: SeriesQuery): Promise<RawFundingRate[]> {
+    const rates = await this.readJson<RawFundingRate[]>(
+      `fundingRate/${query.symbol}.json`,
+      query.symbol
+    );
+    return sliceSeries(
+      rates,
+      (r) => r.fundingTime,
+      query,
+      DEFAULT_FUNDING_LIMIT
+    );
+  }
+
+  fetchOpenInterest(symbol: string): Promise<RawOpenInterest> {
+    return this.readJson(`openInterest/${symbol}.json`, symbol);
+  }
+
+  async fetchOpenInterestHistory(
+    query: SeriesQuery
+  ): Promise<RawOpenInterestHist[]> {
+    const history = await this.readJson<RawOpenInterestHist[]>(
+      `openInterestHist/${query.symbol}_${query.period}.json`,
+      query.symbol
+    );
+    return sliceSeries(
+      history,
+      (h) => h.timestamp,
+      query,
+      DEFAULT_OPEN_INTEREST_LIMIT
+    );
+  }
+
+  fetchTopLongShortAccountRatio(
+    query: SeriesQuery
+  ): Promise<RawLongShortRatio[]> {
+    return this.readPeriodSeries('topLongShortAccountRatio', query);
+  }
+
+  fetchTopLongShortPositionRatio(
+    query: SeriesQuery
+  ): Promise<RawLongShortRatio[]> {
+    return this.readPeriodSeries('topLongShortPositionRatio', query);
+  }
+
+  fetchTakerVolume(query: SeriesQuery): Promise<RawTakerVolume[]> {
+    return this.readPeriodSeries('takerlongshortRatio', query);
+  }
+
+  async fetchDepth(symbol: string, limit?: number): Promise<RawDepth> {
+    const data = await this.readJson<RawDepth | RawDepth[]>(
+      `depth/${symbol}.json`,
+      symbol
+    );
+    const snapshots = Array.isArray(data) ? data : [data];
+    if (snapshots.length === 0) {
+      throw new ResponseParseError(
+        `夹具文件 depth/${symbol}.json 中没有订单簿快照`
+      );
+    }
+    const requests = this.depthRequests.get(symbol) ?? 0;
+    this.depthRequests.set(symbol, requests + 1);
+
+    // 与币安一致：每侧最多返回 limit 档
+    const depth = snapshots[Math.min(requests, snapshots.length - 1)];
+    return {
+      ...depth,
+      bids: depth.bids.slice(0, limit ?? DEFAULT_DEPTH_LIMIT),
+      asks: depth.asks.slice(0, limit ?? DEFAULT_DEPTH_LIMIT),
+    };
+  }
+
+  /**
+   * 读取按统计周期存储的 /futures/data 时间序列
+   *
+   * @param dir 数据子目录
+   * @param query 查询参数
+   * @returns 截取后的数据
+   */
+  private async readPeriodSeries<T extends { timestamp: number }>(
+    dir: string,
+    query: SeriesQuery
+  ): Promise<T[]> {
+    const items = await this.readJson<T[]>(
+      `${dir}/${query.symbol}_${query.period}.json`,
+      query.symbol
+    );
+    return sliceSeries(
+      items,
+      (item) => item.timestamp,
+      query,
+      DEFAULT_OPEN_INTEREST_LIMIT
+    );
+  }
+
+  /**
+   * 读取夹具目录下的 JSON 文件
+   *
+   * 按交易对存储的文件不存在时与币安一致地视为无效交易对，其余文件不存在时视为响应解析失败
+   *
+   * @param file 相对于夹具目录的文件路径
+   * @param symbol 文件所属的交易对，全市场数据不传
+   * @returns 解析后的 JSON 数据
+   */
+  private async readJson<T>(file: string, symbol?: string): Promise<T> {
+    if (this.cache.has(file)) {
+      return this.cache.get(file) as T;
+    }
+
+    const path = `${this.dir}/${file}`;
+    if (!(await exists(path))) {
+      if (symbol !== undefined) {
+        // 与币安无效交易对的响应一致：HTTP 400，错误码 -1121
+        throw new InvalidSymbolError(
+          `夹具中没有 ${symbol} 的数据: ${path}`,
+          400,
+          -1121
+        );
+      }
+      throw new ResponseParseError(`夹具文件不存在: ${path}`);
+    }
+
+    let data;
+    try {
+      data = JSON.parse(await Deno.readTextFile(path));
+    } catch (error) {
+      throw new ResponseParseError(`夹具文件格式错误: ${path}: ${error}`);
+    }
+    this.cache.set(file, data);
+    return data;
+  }
+}
+
+/**
+ * 按时间范围和数量截取时间序列
+ *
+ * 与币安接口行为一致：指定起始时间时从前往后取，否则取最近的 limit 条
+ *
+ * @param items 按时间升序排列的数据
+ * @param timeOf 获取数据项的时间戳
+ * @param query 查询参数
+ * @param defaultLimit 默认返回数量
+ * @returns 截取后的数据
+ */
+function sliceSeries<T>(
+  items: T[],
+  timeOf: (item: T) => number,
+  query: { limit?: number; startTime?: number; endTime?: number },
+  defaultLimit: number
+): T[] {
+  const limit = query.limit ?? defaultLimit;
+  const filtered = items.filter(
+    (item) =>
+      (query.startTime === undefined || timeOf(item) >= query.startTime) &&
+      (query.endTime === undefined || timeOf(item) <= query.endTime)
+  );
+
+  return query.startTime !== undefined
+    ? filtered.slice(0, limit)
+    : filtered.slice(-limit);
+}
@@ -0,0 +1,78 @@
+/**
+ * 离线夹具数据源测试
+ *
+ * 使用 testdata 中的 ticker、交易规则和 K 线夹具，检查与币安接口一致的截取行为和缺失文件的错误类型
+ */
+
+import { assertEquals, assertRejects } from '@std/assert';
+import { fetchGainersList } from './binance.ts';
+import { InvalidSymbolError, ResponseParseError } from './errors.ts';
+import { FixtureDataSource } from './fixture.ts';
+
+const TESTDATA_DIR = new URL('./testdata', import.meta.url).pathname;
+const HOUR_MS = 60 * 60 * 1000;
+
+Deno.test('夹具 ticker 和交易规则按监控范围生成涨幅榜', async () => {
+  const source = new FixtureDataSource(TESTDATA_DIR);
+
+  // 结算中的交易对和非 USDT 交易对被排除，其余按涨幅降序
+  const gainers = await fetchGainersList(5, source);
+  assertEquals(
+    gainers.map((g) => [g.symbol, g.priceChangePercent]),
+    [
+      ['ABCUSDT', 15.5],
+      ['DEFUSDT', 8],
+      ['GHIUSDT', -3],
+    ]
+  );
+
+  assertEquals(
+    (await fetchGainersList(1, source)).map((g) => g.symbol),
+    ['ABCUSDT']
+  );
+});
+
+Deno.test('夹具 K 线按起止时间和数量截取', async () => {
+  const source = new FixtureDataSource(TESTDATA_DIR);
+  const openTimes = async (query: {
+    limit?: number;
+    startTime?: number;
+    endTime?: number;
+  }) =>
+    (
+      await source.fetchKlines({ symbol: 'ABCUSDT', interval: '1h', ...query })
+    ).map((k) => k[0] / HOUR_MS);
+
+  // 不指定起始时间时取最近的 limit 根
+  assertEquals(await openTimes({}), [0, 1, 2, 3, 4, 5]);
+  assertEquals(await openTimes({ limit: 2 }), [4, 5]);
+  assertEquals(await openTimes({ limit: 2, endTime: 3 * HOUR_MS }), [2, 3]);
+
+  // 指定起始时间时从起始时间向后取
+  assertEquals(await openTimes({ limit: 2, startTime: HOUR_MS }), [1, 2]);
+  assertEquals(
+    await openTimes({ startTime: 2 * HOUR_MS + 1, endTime: 4 * HOUR_MS }),
+    [3, 4]
+  );
+  assertEquals(await openTimes({ startTime: 6 * HOUR_MS }), []);
+});
+
+Deno.test('夹具文件缺失时按数据类型抛出对应错误', async () => {
+  const source = new FixtureDataSource(`${TESTDATA_DIR}/depth`);
+
+  // 按交易对存储的数据与币安无效交易对的响应一致
+  const error = await assertRejects(
+    () => source.fetchKlines({ symbol: 'NONEUSDT', interval: '1h' }),
+    InvalidSymbolError
+  );
+  assertEquals(error.status, 400);
+  assertEquals(error.code, -1121);
+  await assertRejects(
+    () => source.fetchPremiumIndex('NONEUSDT'),
+    InvalidSymbolError
+  );
+
+  // 全市场数据缺失说明夹具目录不完整
+  await assertRejects(() => source.fetchTicker24hr(), ResponseParseError);
+  await assertRejects(() => source.fetchExchangeInfo(), ResponseParseError);
+});
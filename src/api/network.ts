@@ -0,0 +1,178 @@
+/**
+ * 网络配置
+ *
+ * 管理 REST/WebSocket 基础 URL、测试网预设、代理、自定义请求头和超时时间，
+ * 默认从环境变量读取，命令行参数可覆盖
+ *
+ * 环境变量：
+ *   BINANCE_NETWORK       网络预设: mainnet 或 testnet
+ *   BINANCE_REST_BASE     REST API 基础 URL，覆盖预设
+ *   BINANCE_STREAM_BASE   WebSocket 基础 URL，覆盖预设
+ *   BINANCE_PROXY         HTTP(S) 代理地址
+ *   BINANCE_HEADERS       自定义请求头，JSON 对象格式
+ *   REQUEST_TIMEOUT_MS    请求超时毫秒数
+ *   TELEGRAM_API_BASE     Telegram Bot API 基础 URL
+ */
+
+import { NetworkConfig } from '../models/types.ts';
+import { env } from '../utils/helpers.ts';
+
+// 币安合约主网地址
+export const BINANCE_API_BASE = 'https://fapi.binance.com';
+export const BINANCE_STREAM_BASE = 'wss://fstream.binance.com';
+
+// 币安合约测试网地址
+export const BINANCE_TESTNET_API_BASE = 'https://testnet.binancefuture.com';
+export const BINANCE_TESTNET_STREAM_BASE = 'wss://fstream.binancefuture.com';
+
+// Telegram Bot API 地址
+export const TELEGRAM_API_BASE = 'https://api.telegram.org';
+
+// 默认请求超时时间
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// 网络预设
+export const NETWORK_PRESETS: Record<
+  string,
+  { restBase: string; streamBase: string }
+> = {
+  mainnet: { restBase: BINANCE_API_BASE, streamBase: BINANCE_STREAM_BASE },
+  testnet: {
+    restBase: BINANCE_TESTNET_API_BASE,
+    streamBase: BINANCE_TESTNET_STREAM_BASE,
+  },
+};
+
+/**
+ * 网络配置覆盖项
+ */
+export type NetworkOverrides = Partial<NetworkConfig> & {
+  network?: string; // 网络预设名称
+};
+
+// 当前生效的网络配置
+let activeConfig: NetworkConfig | undefined;
+
+// 按代理地址缓存的 HTTP 客户端
+const httpClients = new Map<string, Deno.HttpClient>();
+
+/**
+ * 加载网络配置
+ *
+ * 优先级：覆盖项 > 环境变量 > 网络预设
+ *
+ * @param overrides 覆盖项，通常来自命令行参数
+ * @returns 网络配置
+ */
+export function loadNetworkConfig(
+  overrides: NetworkOverrides = {}
+): NetworkConfig {
+  const network = overrides.network ?? env('BINANCE_NETWORK', 'mainnet');
+  const preset = NETWORK_PRESETS[network];
+  if (!preset) {
+    throw new Error(
+      `未知的网络预设: ${network}，可选: ${Object.keys(NETWORK_PRESETS).join(
+        ', '
+      )}`
+    );
+  }
+
+  const timeoutMs =
+    overrides.timeoutMs ??
+    parseInt(env('REQUEST_TIMEOUT_MS', String(DEFAULT_REQUEST_TIMEOUT_MS)));
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`无效的请求超时时间: ${timeoutMs}`);
+  }
+
+  return {
+    restBase: overrides.restBase ?? env('BINANCE_REST_BASE', preset.restBase),
+    streamBase:
+      overrides.streamBase ?? env('BINANCE_STREAM_BASE', preset.streamBase),
+    proxy: overrides.proxy ?? (env('BINANCE_PROXY', '') || undefined),
+    headers: {
+      ...parseHeadersEnv(env('BINANCE_HEADERS', '')),
+      ...overrides.headers,
+    },
+    timeoutMs,
+    telegramApiBase:
+      overrides.telegramApiBase ?? env('TELEGRAM_API_BASE', TELEGRAM_API_BASE),
+  };
+}
+
+/**
+ * 获取当前生效的网络配置
+ *
+ * 未调用 setNetworkConfig 时使用环境变量中的配置
+ *
+ * @returns 网络配置
+ */
+export function getNetworkConfig(): NetworkConfig {
+  if (!activeConfig) {
+    activeConfig = loadNetworkConfig();
+  }
+  return activeConfig;
+}
+
+/**
+ * 设置当前生效的网络配置
+ *
+ * @param config 网络配置
+ */
+export function setNetworkConfig(config: NetworkConfig): void {
+  activeConfig = config;
+}
+
+/**
+ * 根据网络配置构建 fetch 参数
+ *
+ * 附加超时信号，配置了代理时使用对应的 HTTP 客户端
+ *
+ * @param config 网络配置
+ * @param init 其他 fetch 参数
+ * @returns fetch 参数
+ */
+export function createRequestInit(
+  config: NetworkConfig,
+  init: RequestInit = {}
+): RequestInit {
+  const requestInit: RequestInit & { client?: Deno.HttpClient } = {
+    ...init,
+    signal: AbortSignal.timeout(config.timeoutMs),
+  };
+
+  if (config.proxy) {
+    let client = httpClients.get(config.proxy);
+    if (!client) {
+      client = Deno.createHttpClient({ proxy: { url: config.proxy } });
+      httpClients.set(config.proxy, client);
+    }
+    requestInit.client = client;
+  }
+
+  return requestInit;
+}
+
+/**
+ * 解析 JSON 格式的请求头环境变量
+ *
+ * @param value 环境变量值
+ * @returns 请求头
+ */
+function parseHeadersEnv(value: string): Record<string, string> {
+  if (!value) return {};
+
+  let headers;
+  try {
+    headers = JSON.parse(value);
+  } catch {
+    throw new Error(`BINANCE_HEADERS 不是有效的 JSON: ${value}`);
+  }
+
+  if (typeof headers !== 'object' || headers === null) {
+    throw new Error('BINANCE_HEADERS 必须是 JSON 对象');
+  }
+
+  return Object.fromEntries(
+    Object.entries(headers).map(([key, val]) => [key, String(val)])
+  );
+}
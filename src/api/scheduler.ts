@@ -0,0 +1,368 @@
+/**
+ * 请求调度器
+ *
+ * 按币安的请求权重限制调度 REST 请求，避免触发 429 限流和 418 封禁
+ */
+
+import { delay, logWarning } from '../utils/helpers.ts';
+import {
+  ApiRequestError,
+  InvalidSymbolError,
+  MaintenanceError,
+  NetworkError,
+  RateLimitError,
+} from './errors.ts';
+
+// 币安合约默认的每分钟权重上限
+const DEFAULT_WEIGHT_LIMIT = 2400;
+
+// 权重窗口长度 (币安按自然分钟重置)
+const WEIGHT_WINDOW_MS = 60 * 1000;
+
+// 实际使用的权重比例，为其他客户端和统计误差预留余量
+const WEIGHT_SAFETY_RATIO = 0.8;
+
+// 币安错误码：无效交易对
+const INVALID_SYMBOL_CODE = -1121;
+
+// 单独限制请求次数的接口的窗口长度
+const REQUEST_BUDGET_WINDOW_MS = 5 * 60 * 1000;
+
+// /futures/data 下的每个统计接口每 5 分钟允许的请求次数
+const FUTURES_DATA_REQUEST_LIMIT = 1000;
+
+// 资金费率历史与 /fapi/v1/fundingInfo 共享的每 5 分钟请求次数
+const FUNDING_RATE_REQUEST_LIMIT = 500;
+
+/**
+ * 接口单独的请求次数限额
+ */
+export interface RequestBudget {
+  key: string; // 共享限额的接口组
+  limit: number; // 窗口内允许的请求次数
+  windowMs: number; // 窗口长度
+}
+
+/**
+ * 计算接口的请求权重
+ *
+ * 参考币安合约 API 文档中各接口的权重说明
+ *
+ * @param path 接口路径
+ * @param params 查询参数
+ * @returns 请求权重
+ */
+export function getRequestWeight(
+  path: string,
+  params: Record<string, string | number | undefined> = {}
+): number {
+  switch (path) {
+    case '/fapi/v1/ticker/24hr':
+      return params.symbol ? 1 : 40;
+    case '/fapi/v1/klines': {
+      const limit = Number(params.limit ?? 500);
+      if (limit < 100) return 1;
+      if (limit < 500) return 2;
+      if (limit <= 1000) return 5;
+      return 10;
+    }
+    case '/fapi/v1/depth': {
+      const limit = Number(params.limit ?? 500);
+      if (limit <= 50) return 2;
+      if (limit <= 100) return 5;
+      if (limit <= 500) return 10;
+      return 20;
+    }
+    case '/fapi/v1/fundingRate':
+    case '/fapi/v1/fundingInfo':
+      // 不计入权重，由单独的请求次数限额控制
+      return 0;
+    default:
+      return path.startsWith('/futures/data/') ? 0 : 1;
+  }
+}
+
+/**
+ * 获取接口单独的请求次数限额
+ *
+ * /futures/data 下的统计接口和资金费率接口不计入每分钟权重，而是按 IP 单独限制每 5 分钟的请求次数
+ *
+ * @param path 接口路径
+ * @returns 请求次数限额，没有单独限额的接口返回 undefined
+ */
+export function getRequestBudget(path: string): RequestBudget | undefined {
+  if (path.startsWith('/futures/data/')) {
+    return {
+      key: path,
+      limit: FUTURES_DATA_REQUEST_LIMIT,
+      windowMs: REQUEST_BUDGET_WINDOW_MS,
+    };
+  }
+  if (path === '/fapi/v1/fundingRate' || path === '/fapi/v1/fundingInfo') {
+    return {
+      key: 'fundingRate',
+      limit: FUNDING_RATE_REQUEST_LIMIT,
+      windowMs: REQUEST_BUDGET_WINDOW_MS,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * 单个接口的请求统计
+ */
+export interface EndpointStats {
+  requests: number; // 请求次数
+  weight: number; // 累计权重
+}
+
+/**
+ * 请求调度器
+ *
+ * 在本地记录当前分钟已用权重，并根据响应头 X-MBX-USED-WEIGHT-1M 校准；
+ * 有单独请求次数限额的接口另外按各自的窗口计数；
+ * 收到 429/418 时暂停所有请求直到 Retry-After 指定的时间
+ */
+export class RequestScheduler {
+  private windowStart = 0;
+  private usedWeight = 0;
+  private blockedUntil = 0;
+  private readonly stats = new Map<string, EndpointStats>();
+  private readonly budgetUsage = new Map<
+    string,
+    { windowStart: number; requests: number }
+  >();
+
+  constructor(private readonly weightLimit = DEFAULT_WEIGHT_LIMIT) {}
+
+  /**
+   * 执行请求
+   *
+   * @param url 请求地址
+   * @param weight 请求权重
+   * @param init fetch 参数
+   * @returns 成功的响应
+   */
+  async request(
+    url: URL,
+    weight: number,
+    init?: RequestInit
+  ): Promise<Response> {
+    const budget = getRequestBudget(url.pathname);
+    if (budget) {
+      await this.acquireBudget(budget);
+    }
+    await this.acquire(weight);
+    this.record(url.pathname, weight);
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new NetworkError(`网络请求失败: ${error}`);
+    }
+
+    this.syncUsedWeight(response.headers);
+
+    if (response.status === 429 || response.status === 418) {
+      const retryAfterMs =
+        parseRetryAfter(response.headers) ?? this.msUntilNextWindow();
+      this.blockedUntil = Math.max(
+        this.blockedUntil,
+        Date.now() + retryAfterMs
+      );
+      await response.body?.cancel();
+
+      logWarning(
+        `触发币安${response.status === 418 ? ' IP 封禁' : '限流'} (${
+          response.status
+        })，暂停请求 ${Math.ceil(retryAfterMs / 1000)} 秒`
+      );
+
+      throw new RateLimitError(
+        `API 请求被限流: ${response.status} ${response.statusText}`,
+        response.status,
+        retryAfterMs
+      );
+    }
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    return response;
+  }
+
+  /**
+   * 获取各接口的请求统计
+   */
+  getStats(): Map<string, EndpointStats> {
+    return new Map(this.stats);
+  }
+
+  /**
+   * 获取当前分钟已用权重
+   */
+  getUsedWeight(): number {
+    this.rollWindow(Date.now());
+    return this.usedWeight;
+  }
+
+  /**
+   * 等待直到有足够的权重额度，并预占该额度
+   *
+   * @param weight 请求权重
+   */
+  private async acquire(weight: number): Promise<void> {
+    const budget = this.weightLimit * WEIGHT_SAFETY_RATIO;
+
+    while (true) {
+      const now = Date.now();
+
+      if (now < this.blockedUntil) {
+        await delay(this.blockedUntil - now);
+        continue;
+      }
+
+      this.rollWindow(now);
+
+      if (this.usedWeight + weight <= budget) {
+        this.usedWeight += weight;
+        return;
+      }
+
+      await delay(this.msUntilNextWindow());
+    }
+  }
+
+  /**
+   * 等待直到接口组的请求次数限额有余量，并预占一次请求
+   *
+   * @param budget 请求次数限额
+   */
+  private async acquireBudget(budget: RequestBudget): Promise<void> {
+    const limit = Math.floor(budget.limit * WEIGHT_SAFETY_RATIO);
+
+    while (true) {
+      const now = Date.now();
+      const windowStart = Math.floor(now / budget.windowMs) * budget.windowMs;
+      const usage = this.budgetUsage.get(budget.key);
+
+      if (!usage || usage.windowStart !== windowStart) {
+        this.budgetUsage.set(budget.key, { windowStart, requests: 1 });
+        return;
+      }
+      if (usage.requests < limit) {
+        usage.requests++;
+        return;
+      }
+
+      await delay(windowStart + budget.windowMs - now);
+    }
+  }
+
+  /**
+   * 进入新的分钟窗口时重置已用权重
+   */
+  private rollWindow(now: number): void {
+    const windowStart = Math.floor(now / WEIGHT_WINDOW_MS) * WEIGHT_WINDOW_MS;
+    if (windowStart !== this.windowStart) {
+      this.windowStart = windowStart;
+      this.usedWeight = 0;
+    }
+  }
+
+  /**
+   * 距离下一个权重窗口的毫秒数
+   */
+  private msUntilNextWindow(): number {
+    const now = Date.now();
+    return Math.floor(now / WEIGHT_WINDOW_MS + 1) * WEIGHT_WINDOW_MS - now;
+  }
+
+  /**
+   * 根据响应头校准已用权重
+   */
+  private syncUsedWeight(headers: Headers): void {
+    const header = headers.get('x-mbx-used-weight-1m');
+    if (header === null) return;
+
+    const used = parseInt(header);
+    if (!isNaN(used)) {
+      this.rollWindow(Date.now());
+      this.usedWeight = Math.max(this.usedWeight, used);
+    }
+  }
+
+  /**
+   * 记录接口请求统计
+   */
+  private record(endpoint: string, weight: number): void {
+    const stats = this.stats.get(endpoint) ?? { requests: 0, weight: 0 };
+    stats.requests++;
+    stats.weight += weight;
+    this.stats.set(endpoint, stats);
+  }
+}
+
+/**
+ * 解析 Retry-After 响应头
+ *
+ * @param headers 响应头
+ * @returns 等待毫秒数，无法解析时返回 undefined
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const value = headers.get('retry-after');
+  if (value === null) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  // 也可能是 HTTP 日期格式
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 根据失败响应创建对应类型的错误
+ *
+ * 币安的错误响应体格式为 {"code": -1121, "msg": "Invalid symbol."}
+ *
+ * @param response 失败的响应
+ * @returns API 错误
+ */
+async function toApiError(response: Response): Promise<ApiRequestError> {
+  let code: number | undefined;
+  let msg = response.statusText;
+
+  try {
+    const body = await response.json();
+    if (typeof body?.code === 'number') code = body.code;
+    if (typeof body?.msg === 'string') msg = body.msg;
+  } catch {
+    // 响应体不是 JSON 时使用状态文本
+  }
+
+  const message = `API 请求失败: ${response.status} ${msg}${
+    code !== undefined ? ` (${code})` : ''
+  }`;
+
+  if (code === INVALID_SYMBOL_CODE) {
+    return new InvalidSymbolError(message, response.status, code);
+  }
+  if (response.status === 503 && /maintenance|维护/i.test(msg)) {
+    return new MaintenanceError(message, response.status, code);
+  }
+
+  return new ApiRequestError(
+    message,
+    response.status,
+    response.status >= 500,
+    code
+  );
+}
+
+// 共享的默认调度器
+export const defaultScheduler = new RequestScheduler();
@@ -0,0 +1,397 @@
+/**
+ * 行情数据源
+ *
+ * 定义监控、分析和回测共同依赖的行情数据源接口，以及基于币安 REST API 的实时实现
+ */
+
+import { withRetry } from '../utils/helpers.ts';
+import {
+  RequestScheduler,
+  defaultScheduler,
+  getRequestWeight,
+} from './scheduler.ts';
+import { ResponseParseError, isRetryableError } from './errors.ts';
+import {
+  BINANCE_API_BASE,
+  createRequestInit,
+  getNetworkConfig,
+} from './network.ts';
+import { NetworkConfig } from '../models/types.ts';
+
+// 可重试错误的最大尝试次数
+const MAX_ATTEMPTS = 3;
+
+/**
+ * 24 小时 ticker 原始数据 (/fapi/v1/ticker/24hr)
+ */
+export interface RawTicker24hr {
+  symbol: string;
+  priceChange: string;
+  priceChangePercent: string;
+  lastPrice: string;
+  volume: string;
+  quoteVolume: string;
+  openTime?: number;
+  closeTime?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * K 线原始数据 (/fapi/v1/klines)
+ *
+ * [开盘时间, 开盘价, 最高价, 最低价, 收盘价, 成交量, 收盘时间, 成交额, 成交笔数, 主动买入成交量, 主动买入成交额, 忽略]
+ */
+export type RawKline = [
+  number,
+  string,
+  string,
+  string,
+  string,
+  string,
+  number,
+  string,
+  number,
+  string,
+  string,
+  string
+];
+
+/**
+ * 交易对原始信息 (/fapi/v1/exchangeInfo 中的 symbols 项)
+ */
+export interface RawSymbolInfo {
+  symbol: string;
+  status: string;
+  contractType: string;
+  baseAsset: string;
+  quoteAsset: string;
+  onboardDate: number;
+  deliveryDate?: number;
+  filters: Array<{ filterType: string; [key: string]: unknown }>;
+  [key: string]: unknown;
+}
+
+/**
+ * 交易规则原始数据 (/fapi/v1/exchangeInfo)
+ */
+export interface RawExchangeInfo {
+  serverTime?: number;
+  symbols: RawSymbolInfo[];
+  [key: string]: unknown;
+}
+
+/**
+ * 标记价格和资金费率原始数据 (/fapi/v1/premiumIndex)
+ */
+export interface RawPremiumIndex {
+  symbol: string;
+  markPrice: string;
+  indexPrice: string;
+  lastFundingRate: string;
+  nextFundingTime: number;
+  time: number;
+  [key: string]: unknown;
+}
+
+/**
+ * 历史资金费率原始数据 (/fapi/v1/fundingRate)
+ */
+export interface RawFundingRate {
+  symbol: string;
+  fundingRate: string;
+  fundingTime: number;
+  markPrice?: string;
+}
+
+/**
+ * 当前持仓量原始数据 (/fapi/v1/openInterest)
+ */
+export interface RawOpenInterest {
+  symbol: string;
+  openInterest: string;
+  time: number;
+}
+
+/**
+ * 持仓量历史原始数据 (/futures/data/openInterestHist)
+ */
+export interface RawOpenInterestHist {
+  symbol: string;
+  sumOpenInterest: string;
+  sumOpenInterestValue: string;
+  timestamp: number;
+}
+
+/**
+ * 大户多空比原始数据 (/futures/data/topLongShortAccountRatio、topLongShortPositionRatio)
+ */
+export interface RawLongShortRatio {
+  symbol: string;
+  longShortRatio: string;
+  longAccount: string;
+  shortAccount: string;
+  timestamp: number;
+}
+
+/**
+ * 主动买卖量原始数据 (/futures/data/takerlongshortRatio)
+ */
+export interface RawTakerVolume {
+  buySellRatio: string;
+  buyVol: string;
+  sellVol: string;
+  timestamp: number;
+}
+
+/**
+ * 订单簿深度原始数据 (/fapi/v1/depth)
+ *
+ * bids 和 asks 的每一项为 [价格, 数量]
+ */
+export interface RawDepth {
+  lastUpdateId: number;
+  E?: number; // 消息推送时间
+  T?: number; // 撮合引擎时间
+  bids: Array<[string, string]>;
+  asks: Array<[string, string]>;
+}
+
+/**
+ * ticker 推送原始数据 (!ticker@arr 数组中的一项)
+ */
+export interface RawStreamTicker {
+  s: string; // 交易对名称
+  p: string; // 24 小时价格变化
+  P: string; // 24 小时价格变化百分比
+  c: string; // 最新价格
+  v: string; // 24 小时成交量
+  q: string; // 24 小时成交额
+}
+
+/**
+ * K 线推送原始数据 (<symbol>@kline_<interval> 中的 k)
+ */
+export interface RawStreamKline {
+  s: string; // 交易对名称
+  i: string; // K 线时间间隔
+  t: number; // 开盘时间
+  T: number; // 收盘时间
+  o: string; // 开盘价
+  h: string; // 最高价
+  l: string; // 最低价
+  c: string; // 收盘价
+  v: string; // 成交量
+  q: string; // 成交额
+  n: number; // 成交笔数
+  V: string; // 主动买入成交量
+  Q: string; // 主动买入成交额
+  x: boolean; // 是否已收盘
+}
+
+/**
+ * K 线查询参数
+ */
+export interface KlineQuery {
+  symbol: string; // 交易对名称
+  interval: string; // K 线时间间隔
+  limit?: number; // 返回数量
+  startTime?: number; // 起始时间 (开盘时间，毫秒)
+  endTime?: number; // 结束时间 (开盘时间，毫秒)
+}
+
+/**
+ * 时间序列查询参数 (资金费率、持仓量等统计数据)
+ */
+export interface SeriesQuery {
+  symbol: string; // 交易对名称
+  period?: string; // 统计周期，仅 /futures/data 接口需要
+  limit?: number; // 返回数量
+  startTime?: number; // 起始时间 (毫秒)
+  endTime?: number; // 结束时间 (毫秒)
+}
+
+/**
+ * 行情数据源接口
+ *
+ * 返回与币安 API 响应结构一致的原始数据，由 API 层统一转换为内部模型
+ */
+export interface MarketDataSource {
+  readonly name: string; // 数据源名称，用于日志
+  fetchTicker24hr(): Promise<RawTicker24hr[]>;
+  fetchKlines(query: KlineQuery): Promise<RawKline[]>;
+  fetchExchangeInfo(): Promise<RawExchangeInfo>;
+  fetchPremiumIndex(symbol: string): Promise<RawPremiumIndex>;
+  fetchFundingRateHistory(query: SeriesQuery): Promise<RawFundingRate[]>;
+  fetchOpenInterest(symbol: string): Promise<RawOpenInterest>;
+  fetchOpenInterestHistory(query: SeriesQuery): Promise<RawOpenInterestHist[]>;
+  fetchTopLongShortAccountRatio(
+    query: SeriesQuery
+  ): Promise<RawLongShortRatio[]>;
+  fetchTopLongShortPositionRatio(
+    query: SeriesQuery
+  ): Promise<RawLongShortRatio[]>;
+  fetchTakerVolume(query: SeriesQuery): Promise<RawTakerVolume[]>;
+  fetchDepth(symbol: string, limit?: number): Promise<RawDepth>;
+}
+
+/**
+ * 币安实时数据源
+ *
+ * 通过共享的请求调度器访问币安合约 REST API
+ */
+export class BinanceDataSource implements MarketDataSource {
+  /**
+   * @param network 网络配置，不指定时使用当前生效的全局网络配置
+   * @param scheduler 请求调度器
+   */
+  constructor(
+    private readonly network?: NetworkConfig,
+    private readonly scheduler: RequestScheduler = defaultScheduler
+  ) {}
+
+  /**
+   * 数据源名称，非主网地址 (测试网、镜像、模拟服务) 带上主机名以区分本地缓存
+   */
+  get name(): string {
+    const restBase = this.config.restBase;
+    return restBase === BINANCE_API_BASE
+      ? 'binance'
+      : `binance:${new URL(restBase).host}`;
+  }
+
+  /**
+   * 当前使用的网络配置
+   */
+  private get config(): NetworkConfig {
+    return this.network ?? getNetworkConfig();
+  }
+
+  fetchTicker24hr(): Promise<RawTicker24hr[]> {
+    return this.get('/fapi/v1/ticker/24hr');
+  }
+
+  fetchKlines(query: KlineQuery): Promise<RawKline[]> {
+    return this.get('/fapi/v1/klines', {
+      symbol: query.symbol,
+      interval: query.interval,
+      limit: query.limit,
+      startTime: query.startTime,
+      endTime: query.endTime,
+    });
+  }
+
+  fetchExchangeInfo(): Promise<RawExchangeInfo> {
+    return this.get('/fapi/v1/exchangeInfo');
+  }
+
+  fetchPremiumIndex(symbol: string): Promise<RawPremiumIndex> {
+    return this.get('/fapi/v1/premiumIndex', { symbol });
+  }
+
+  fetchFundingRateHistory(query: SeriesQuery): Promise<RawFundingRate[]> {
+    return this.get('/fapi/v1/fundingRate', {
+      symbol: query.symbol,
+      limit: query.limit,
+      startTime: query.startTime,
+      endTime: query.endTime,
+    });
+  }
+
+  fetchOpenInterest(symbol: string): Promise<RawOpenInterest> {
+    return this.get('/fapi/v1/openInterest', { symbol });
+  }
+
+  fetchOpenInterestHistory(query: SeriesQuery): Promise<RawOpenInterestHist[]> {
+    return this.get('/futures/data/openInterestHist', seriesParams(query));
+  }
+
+  fetchTopLongShortAccountRatio(
+    query: SeriesQuery
+  ): Promise<RawLongShortRatio[]> {
+    return this.get(
+      '/futures/data/topLongShortAccountRatio',
+      seriesParams(query)
+    );
+  }
+
+  fetchTopLongShortPositionRatio(
+    query: SeriesQuery
+  ): Promise<RawLongShortRatio[]> {
+    return this.get(
+      '/futures/data/topLongShortPositionRatio',
+      seriesParams(query)
+    );
+  }
+
+  fetchTakerVolume(query: SeriesQuery): Promise<RawTakerVolume[]> {
+    return this.get('/futures/data/takerlongshortRatio', seriesParams(query));
+  }
+
+  fetchDepth(symbol: string, limit?: number): Promise<RawDepth> {
+    return this.get('/fapi/v1/depth', { symbol, limit });
+  }
+
+  /**
+   * 发送 GET 请求
+   *
+   * 限流、网络错误和服务端错误会自动重试，其他错误直接抛出
+   *
+   * @param path 接口路径
+   * @param params 查询参数，值为 undefined 的参数会被忽略
+   * @returns 解析后的 JSON 数据
+   */
+  private async get<T>(
+    path: string,
+    params: Record<string, string | number | undefined> = {}
+  ): Promise<T> {
+    const config = this.config;
+
+    // 保留基础 URL 中的路径前缀，便于使用镜像或反向代理
+    const url = new URL(config.restBase.replace(/\/+$/, '') + path);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const weight = getRequestWeight(path, params);
+    const response = await withRetry(
+      () =>
+        this.scheduler.request(
+          url,
+          weight,
+          createRequestInit(config, { headers: config.headers })
+        ),
+      MAX_ATTEMPTS,
+      1000,
+      isRetryableError
+    );
+
+    try {
+      return await response.json();
+    } catch (error) {
+      throw new ResponseParseError(`无法解析 ${path} 的响应: ${error}`);
+    }
+  }
+}
+
+/**
+ * 将时间序列查询转换为 /futures/data 接口的查询参数
+ *
+ * @param query 时间序列查询参数
+ * @returns 查询参数
+ */
+function seriesParams(
+  query: SeriesQuery
+): Record<string, string | number | undefined> {
+  return {
+    symbol: query.symbol,
+    period: query.period,
+    limit: query.limit,
+    startTime: query.startTime,
+    endTime: query.endTime,
+  };
+}
+
+// 默认数据源
+export const defaultDataSource: MarketDataSource = new BinanceDataSource();
@@ -0,0 +1,427 @@
+/**
+ * 币安合约 WebSocket 行情流
+ *
+ * 订阅全市场 ticker、K 线和订单簿增量推送，负责断线重连、24 小时连接轮换和重新订阅
+ */
+
+import { Candle, GainerInfo, OrderBookLevel } from '../models/types.ts';
+import { logInfo, logWarning } from '../utils/helpers.ts';
+import { getNetworkConfig } from './network.ts';
+import { RawStreamKline, RawStreamTicker } from './source.ts';
+import { validateStreamKline, validateStreamTicker } from './validation.ts';
+
+// 全市场 24 小时 ticker 数组流
+export const TICKER_ARRAY_STREAM = '!ticker@arr';
+
+// 币安会在连接 24 小时后断开，提前主动轮换连接
+const CONNECTION_LIFETIME_MS = 23 * 60 * 60 * 1000 + 50 * 60 * 1000;
+
+// 超过该时间未收到任何消息视为连接失效
+const STALE_TIMEOUT_MS = 60 * 1000;
+
+// 重连退避的最大等待时间
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+/**
+ * K 线推送
+ */
+export interface StreamKline {
+  symbol: string; // 交易对名称
+  interval: string; // K 线时间间隔
+  candle: Candle; // K 线数据
+  isClosed: boolean; // 该 K 线是否已收盘
+}
+
+/**
+ * 订单簿增量推送
+ *
+ * 价位的数量为更新后的挂单总量，数量为 0 表示该价位已无挂单
+ */
+export interface DepthUpdate {
+  symbol: string; // 交易对名称
+  eventTime: number; // 推送时间
+  firstUpdateId: number; // 本次推送的第一个更新 ID (U)
+  finalUpdateId: number; // 本次推送的最后一个更新 ID (u)
+  previousUpdateId: number; // 上一次推送的最后一个更新 ID (pu)
+  bids: OrderBookLevel[]; // 有变化的买单价位
+  asks: OrderBookLevel[]; // 有变化的卖单价位
+}
+
+/**
+ * 行情流事件回调
+ */
+export interface StreamHandlers {
+  onTickers?: (tickers: GainerInfo[]) => void; // ticker 推送 (仅包含有变化的交易对)
+  onKline?: (kline: StreamKline) => void; // K 线推送
+  onDepth?: (update: DepthUpdate) => void; // 订单簿增量推送
+  onOpen?: () => void; // 连接建立 (包括重连)
+}
+
+/**
+ * 获取 K 线流名称
+ *
+ * @param symbol 交易对名称
+ * @param interval K 线时间间隔
+ * @returns 流名称，如 btcusdt@kline_1h
+ */
+export function klineStreamName(symbol: string, interval: string): string {
+  return `${symbol.toLowerCase()}@kline_${interval}`;
+}
+
+/**
+ * 获取订单簿增量流名称
+ *
+ * @param symbol 交易对名称
+ * @returns 流名称，如 btcusdt@depth@500ms
+ */
+export function depthStreamName(symbol: string): string {
+  return `${symbol.toLowerCase()}@depth@500ms`;
+}
+
+/**
+ * 转换订单簿增量推送的原始数据
+ *
+ * @param data depthUpdate 事件数据
+ * @returns 订单簿增量推送
+ */
+export function parseDepthUpdate(data: {
+  s: string;
+  E: number;
+  U: number;
+  u: number;
+  pu: number;
+  b: Array<[string, string]>;
+  a: Array<[string, string]>;
+}): DepthUpdate {
+  const parseLevels = (levels: Array<[string, string]>) =>
+    levels.map(([price, quantity]) => ({
+      price: parseFloat(price),
+      quantity: parseFloat(quantity),
+    }));
+
+  return {
+    symbol: data.s,
+    eventTime: data.E,
+    firstUpdateId: data.U,
+    finalUpdateId: data.u,
+    previousUpdateId: data.pu,
+    bids: parseLevels(data.b),
+    asks: parseLevels(data.a),
+  };
+}
+
+/**
+ * 转换 ticker 推送的原始数据
+ *
+ * @param item 校验后的 ticker 推送
+ * @returns 涨幅榜币种信息
+ */
+function parseStreamTicker(item: RawStreamTicker): GainerInfo {
+  return {
+    symbol: item.s,
+    priceChange: parseFloat(item.p),
+    priceChangePercent: parseFloat(item.P),
+    lastPrice: parseFloat(item.c),
+    volume: parseFloat(item.v),
+    quoteVolume: parseFloat(item.q),
+  };
+}
+
+/**
+ * 转换 K 线推送的原始数据
+ *
+ * @param k 校验后的 K 线推送
+ * @returns K 线推送
+ */
+function parseStreamKline(k: RawStreamKline): StreamKline {
+  return {
+    symbol: k.s,
+    interval: k.i,
+    candle: {
+      openTime: k.t,
+      open: parseFloat(k.o),
+      high: parseFloat(k.h),
+      low: parseFloat(k.l),
+      close: parseFloat(k.c),
+      volume: parseFloat(k.v),
+      closeTime: k.T,
+      quoteVolume: parseFloat(k.q),
+      trades: Number(k.n),
+      takerBuyVolume: parseFloat(k.V),
+      takerBuyQuoteVolume: parseFloat(k.Q),
+    },
+    isClosed: k.x,
+  };
+}
+
+/**
+ * 币安合约行情流客户端
+ *
+ * 使用组合流地址 /stream 建立连接，并通过 SUBSCRIBE 消息管理订阅；
+ * 每次连接建立后都会重新订阅全部流
+ */
+export class MarketStream {
+  private socket?: WebSocket;
+  private retiringSocket?: WebSocket; // 轮换期间等待新连接建立后关闭的旧连接
+  private readonly streams = new Set<string>();
+  private closed = false;
+  private reconnectAttempts = 0;
+  private requestId = 0;
+  private lastMessageTime = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private rolloverTimer?: ReturnType<typeof setTimeout>;
+  private watchdogTimer?: ReturnType<typeof setInterval>;
+
+  /**
+   * @param handlers 事件回调
+   * @param baseUrl WebSocket 基础 URL
+   * @param connectionLifetimeMs 连接建立后主动轮换的时间
+   */
+  constructor(
+    private readonly handlers: StreamHandlers,
+    private readonly baseUrl = getNetworkConfig().streamBase,
+    private readonly connectionLifetimeMs = CONNECTION_LIFETIME_MS
+  ) {}
+
+  /**
+   * 建立连接
+   */
+  connect(): void {
+    this.closed = false;
+    this.open();
+  }
+
+  /**
+   * 关闭连接，不再重连
+   */
+  close(): void {
+    this.closed = true;
+    this.clearTimers();
+    this.closeRetiringSocket();
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  /**
+   * 订阅行情流
+   *
+   * @param streams 流名称列表
+   */
+  subscribe(streams: string[]): void {
+    const added = streams.filter((s) => !this.streams.has(s));
+    if (added.length === 0) return;
+
+    added.forEach((s) => this.streams.add(s));
+    this.send('SUBSCRIBE', added);
+  }
+
+  /**
+   * 取消订阅行情流
+   *
+   * @param streams 流名称列表
+   */
+  unsubscribe(streams: string[]): void {
+    const removed = streams.filter((s) => this.streams.has(s));
+    if (removed.length === 0) return;
+
+    removed.forEach((s) => this.streams.delete(s));
+    this.send('UNSUBSCRIBE', removed);
+  }
+
+  /**
+   * 打开新的 WebSocket 连接
+   *
+   * 轮换连接时旧连接在新连接建立后才关闭，新连接建立失败时一并关闭旧连接并重连
+   */
+  private open(): void {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(`${this.baseUrl}/stream`);
+    } catch (error) {
+      // 地址无效等情况下构造函数会直接抛出，同样按退避重连
+      logWarning(`无法建立行情流连接: ${error}`);
+      this.socket = undefined;
+      this.closeRetiringSocket();
+      if (!this.closed) {
+        this.scheduleReconnect();
+      }
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.closeRetiringSocket();
+      logInfo(`行情流已连接: ${this.baseUrl}`);
+      this.reconnectAttempts = 0;
+      this.lastMessageTime = Date.now();
+
+      // 重新订阅全部流
+      this.send('SUBSCRIBE', Array.from(this.streams));
+
+      this.rolloverTimer = setTimeout(() => {
+        logInfo('行情流连接即将到期，主动轮换连接');
+        this.rollover();
+      }, this.connectionLifetimeMs);
+
+      this.watchdogTimer = setInterval(() => {
+        if (Date.now() - this.lastMessageTime > STALE_TIMEOUT_MS) {
+          logWarning('行情流长时间无数据，重新连接');
+          this.reconnect();
+        }
+      }, STALE_TIMEOUT_MS / 2);
+
+      this.handlers.onOpen?.();
+    };
+
+    socket.onmessage = (event) => {
+      this.lastMessageTime = Date.now();
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = (event) => {
+      const message = event instanceof ErrorEvent ? event.message : event.type;
+      logWarning(`行情流错误: ${message}`);
+    };
+
+    socket.onclose = () => {
+      // 忽略已被替换的旧连接
+      if (this.socket !== socket) return;
+
+      this.clearTimers();
+      this.socket = undefined;
+      this.closeRetiringSocket();
+
+      if (!this.closed) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  /**
+   * 轮换连接：先建立新连接，新连接建立后再关闭旧连接，轮换期间旧连接继续接收推送
+   */
+  private rollover(): void {
+    this.closeRetiringSocket();
+    this.retiringSocket = this.socket;
+    this.clearTimers();
+
+    if (!this.closed) {
+      this.open();
+    }
+  }
+
+  /**
+   * 关闭轮换期间保留的旧连接
+   */
+  private closeRetiringSocket(): void {
+    this.retiringSocket?.close();
+    this.retiringSocket = undefined;
+  }
+
+  /**
+   * 立即关闭当前连接并重新连接
+   */
+  private reconnect(): void {
+    const socket = this.socket;
+    this.clearTimers();
+    this.socket = undefined;
+    socket?.close();
+
+    if (!this.closed) {
+      this.open();
+    }
+  }
+
+  /**
+   * 按指数退避安排重连
+   */
+  private scheduleReconnect(): void {
+    const delayMs = Math.min(
+      MAX_RECONNECT_DELAY_MS,
+      1000 * 2 ** this.reconnectAttempts
+    );
+    this.reconnectAttempts++;
+
+    logWarning(`行情流已断开，${Math.ceil(delayMs / 1000)} 秒后重连`);
+    this.reconnectTimer = setTimeout(() => this.open(), delayMs);
+  }
+
+  /**
+   * 发送订阅管理消息
+   *
+   * @param method SUBSCRIBE 或 UNSUBSCRIBE
+   * @param params 流名称列表
+   */
+  private send(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]): void {
+    if (params.length === 0) return;
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+
+    this.socket.send(JSON.stringify({ method, params, id: ++this.requestId }));
+  }
+
+  /**
+   * 处理推送消息
+   *
+   * @param raw 原始消息
+   */
+  private handleMessage(raw: unknown): void {
+    if (typeof raw !== 'string') return;
+
+    let message;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      logWarning(`无法解析行情流消息: ${raw.slice(0, 100)}`);
+      return;
+    }
+
+    // 订阅请求的响应
+    if (message.id !== undefined && message.stream === undefined) {
+      if (message.error) {
+        logWarning(`行情流订阅失败: ${JSON.stringify(message.error)}`);
+      }
+      return;
+    }
+
+    const { stream, data } = message;
+
+    if (stream === TICKER_ARRAY_STREAM && Array.isArray(data)) {
+      // 丢弃格式异常的交易对，其余交易对照常处理
+      const tickers: GainerInfo[] = [];
+      const errors: unknown[] = [];
+      for (const item of data) {
+        try {
+          tickers.push(parseStreamTicker(validateStreamTicker(item)));
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+      if (errors.length > 0) {
+        logWarning(
+          `丢弃 ${errors.length} 条格式异常的 ticker 推送: ${errors[0]}`
+        );
+      }
+      this.handlers.onTickers?.(tickers);
+    } else if (data?.e === 'kline') {
+      let kline: StreamKline;
+      try {
+        kline = parseStreamKline(validateStreamKline(data.k));
+      } catch (error) {
+        logWarning(`丢弃格式异常的 K 线推送: ${error}`);
+        return;
+      }
+      this.handlers.onKline?.(kline);
+    } else if (data?.e === 'depthUpdate') {
+      this.handlers.onDepth?.(parseDepthUpdate(data));
+    }
+  }
+
+  /**
+   * 清理所有定时器
+   */
+  private clearTimers(): void {
+    clearTimeout(this.reconnectTimer);
+    clearTimeout(this.rolloverTimer);
+    clearInterval(this.watchdogTimer);
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * 行情流测试
+ *
+ * 在本地启动 WebSocket 模拟服务，检查订阅管理、断线重连后的重新订阅和连接轮换
+ */
+
+import { assert, assertEquals } from '@std/assert';
+import { GainerInfo } from '../models/types.ts';
+import {
+  MarketStream,
+  StreamKline,
+  TICKER_ARRAY_STREAM,
+  depthStreamName,
+  klineStreamName,
+} from './stream.ts';
+
+/**
+ * 模拟服务上的一条连接
+ */
+interface StubConnection {
+  socket: WebSocket;
+  messages: Array<{ method: string; params: string[]; id: number }>;
+  openConnections: number; // 建立时仍打开的其他连接数
+}
+
+/**
+ * 启动本地 WebSocket 模拟服务，记录每条连接收到的订阅管理消息
+ */
+function startStubServer() {
+  const connections: StubConnection[] = [];
+  const server = Deno.serve(
+    { hostname: '127.0.0.1', port: 0, onListen: () => {} },
+    (request) => {
+      const { socket, response } = Deno.upgradeWebSocket(request);
+      const connection: StubConnection = {
+        socket,
+        messages: [],
+        openConnections: connections.filter(
+          (c) => c.socket.readyState === WebSocket.OPEN
+        ).length,
+      };
+      socket.onmessage = (event) => {
+        connection.messages.push(JSON.parse(event.data));
+      };
+      connections.push(connection);
+      return response;
+    }
+  );
+
+  return {
+    url: `ws://127.0.0.1:${server.addr.port}`,
+    connections,
+    // 等待所有连接关闭后停止服务
+    async close() {
+      await waitFor(() =>
+        connections.every((c) => c.socket.readyState === WebSocket.CLOSED)
+      );
+      await server.shutdown();
+    },
+  };
+}
+
+/**
+ * 轮询等待条件成立
+ */
+async function waitFor(
+  condition: () => boolean,
+  timeoutMs = 5000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('等待超时');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * 连接收到的全部 SUBSCRIBE 消息中的流名称
+ */
+function subscribedStreams(connection: StubConnection): string[] {
+  return connection.messages
+    .filter((m) => m.method === 'SUBSCRIBE')
+    .flatMap((m) => m.params)
+    .sort();
+}
+
+Deno.test('解析 ticker 和 K 线推送并丢弃格式异常的数据', async () => {
+  const server = startStubServer();
+  const tickers: GainerInfo[] = [];
+  const klines: StreamKline[] = [];
+  const stream = new MarketStream(
+    {
+      onTickers: (batch) => tickers.push(...batch),
+      onKline: (kline) => klines.push(kline),
+    },
+    server.url
+  );
+
+  stream.subscribe([TICKER_ARRAY_STREAM]);
+  stream.connect();
+  await waitFor(() => server.connections[0]?.messages.length === 1);
+
+  const { socket } = server.connections[0];
+  socket.send(
+    JSON.stringify({
+      stream: TICKER_ARRAY_STREAM,
+      data: [
+        { s: 'ABCUSDT', p: '0.12', P: '15.5', c: '0.9', v: '1000', q: '900' },
+        { s: 'BADUSDT', p: '0.1', P: '5', c: '', v: '1000', q: '900' },
+      ],
+    })
+  );
+  // 价格字段无法解析的 K 线推送被丢弃
+  socket.send(
+    JSON.stringify({
+      stream: 'badusdt@kline_1h',
+      data: { e: 'kline', k: { s: 'BADUSDT', i: '1h', t: 0, T: 3599999 } },
+    })
+  );
+  socket.send(
+    JSON.stringify({
+      stream: 'abcusdt@kline_1h',
+      data: {
+        e: 'kline',
+        k: {
+          s: 'ABCUSDT',
+          i: '1h',
+          t: 0,
+          T: 3599999,
+          o: '0.8',
+          h: '0.95',
+          l: '0.78',
+          c: '0.9',
+          v: '1000',
+          q: '880',
+          n: 42,
+          V: '600',
+          Q: '530',
+          x: true,
+        },
+      },
+    })
+  );
+  await waitFor(() => tickers.length === 1 && klines.length === 1);
+
+  assertEquals(tickers[0], {
+    symbol: 'ABCUSDT',
+    priceChange: 0.12,
+    priceChangePercent: 15.5,
+    lastPrice: 0.9,
+    volume: 1000,
+    quoteVolume: 900,
+  });
+  assertEquals(klines[0].symbol, 'ABCUSDT');
+  assertEquals(klines[0].isClosed, true);
+  assertEquals(klines[0].candle.close, 0.9);
+  assertEquals(klines[0].candle.closeTime, 3599999);
+
+  stream.close();
+  await server.close();
+});
+
+Deno.test('断线后重新连接并重新订阅当前全部流', async () => {
+  const server = startStubServer();
+  let opens = 0;
+  const stream = new MarketStream({ onOpen: () => opens++ }, server.url);
+  const kline = klineStreamName('BTCUSDT', '1h');
+  const depth = depthStreamName('ETHUSDT');
+
+  // 连接前的订阅在连接建立后发送
+  stream.subscribe([TICKER_ARRAY_STREAM, kline]);
+  stream.connect();
+  await waitFor(() => server.connections[0]?.messages.length === 1);
+  assertEquals(subscribedStreams(server.connections[0]), [
+    TICKER_ARRAY_STREAM,
+    kline,
+  ]);
+
+  // 连接期间的订阅变更立即发送
+  stream.subscribe([depth]);
+  stream.unsubscribe([kline]);
+  await waitFor(() => server.connections[0].messages.length === 3);
+  assertEquals(
+    server.connections[0].messages.slice(1).map((m) => [m.method, m.params]),
+    [
+      ['SUBSCRIBE', [depth]],
+      ['UNSUBSCRIBE', [kline]],
+    ]
+  );
+
+  // 服务端断开后按退避重连，新连接上重新订阅当前的全部流
+  server.connections[0].socket.close();
+  await waitFor(() => server.connections[1]?.messages.length === 1);
+  assertEquals(subscribedStreams(server.connections[1]), [
+    TICKER_ARRAY_STREAM,
+    depth,
+  ]);
+  assertEquals(opens, 2);
+
+  stream.close();
+  await server.close();
+  assertEquals(server.connections.length, 2);
+});
+
+Deno.test('连接到期前主动轮换连接并重新订阅', async () => {
+  const server = startStubServer();
+  const stream = new MarketStream({}, server.url, 300);
+
+  stream.subscribe([TICKER_ARRAY_STREAM]);
+  const start = Date.now();
+  stream.connect();
+  await waitFor(() => server.connections[1]?.messages.length === 1);
+  const elapsed = Date.now() - start;
+  stream.close();
+
+  // 新连接立即建立，不经过至少 1 秒的重连退避；旧连接在新连接建立后才由客户端关闭
+  assert(elapsed < 1000, `轮换耗时 ${elapsed}ms`);
+  assertEquals(server.connections[1].openConnections, 1);
+  await waitFor(
+    () => server.connections[0].socket.readyState === WebSocket.CLOSED
+  );
+  assertEquals(subscribedStreams(server.connections[1]), [TICKER_ARRAY_STREAM]);
+
+  await server.close();
+});
+
+Deno.test('无法创建连接时按退避重连而不抛出', () => {
+  const stream = new MarketStream({}, 'not a url');
+
+  stream.subscribe([TICKER_ARRAY_STREAM]);
+  stream.connect();
+  stream.close();
+});
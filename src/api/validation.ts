@@ -0,0 +1,256 @@
+/**
+ * 响应数据校验
+ *
+ * 在原始响应转换为 GainerInfo、Candle 等模型之前校验字段类型，
+ * 避免错误响应或格式异常的数据以 NaN 的形式进入分析流程
+ */
+
+import { ResponseParseError } from './errors.ts';
+import {
+  RawExchangeInfo,
+  RawKline,
+  RawStreamKline,
+  RawStreamTicker,
+  RawTicker24hr,
+} from './source.ts';
+
+// ticker 中必须为数值的字段
+const TICKER_NUMERIC_FIELDS = [
+  'priceChange',
+  'priceChangePercent',
+  'lastPrice',
+  'volume',
+  'quoteVolume',
+];
+
+// K 线数组中必须为数值的字段位置及名称
+const KLINE_NUMERIC_FIELDS: Array<[number, string]> = [
+  [1, 'open'],
+  [2, 'high'],
+  [3, 'low'],
+  [4, 'close'],
+  [5, 'volume'],
+  [7, 'quoteVolume'],
+  [8, 'trades'],
+  [9, 'takerBuyVolume'],
+  [10, 'takerBuyQuoteVolume'],
+];
+
+// ticker 推送中必须为数值的字段，与 REST ticker 的字段一一对应
+const STREAM_TICKER_NUMERIC_FIELDS = ['p', 'P', 'c', 'v', 'q'];
+
+// K 线推送中必须为数值的字段
+const STREAM_KLINE_NUMERIC_FIELDS = [
+  'o',
+  'h',
+  'l',
+  'c',
+  'v',
+  'q',
+  'n',
+  'V',
+  'Q',
+];
+
+/**
+ * 校验 24 小时 ticker 数据
+ *
+ * @param data 原始响应
+ * @returns 校验后的 ticker 数据
+ */
+export function validateTickers(data: unknown): RawTicker24hr[] {
+  const items = expectArray(data, 'ticker');
+
+  items.forEach((item, index) => {
+    const context = `ticker 第 ${index + 1} 条`;
+    const record = expectObject(item, context);
+    expectString(record.symbol, `${context} symbol`);
+
+    for (const field of TICKER_NUMERIC_FIELDS) {
+      expectNumeric(record[field], `${context} (${record.symbol}) ${field}`);
+    }
+  });
+
+  return items as RawTicker24hr[];
+}
+
+/**
+ * 校验 K 线数据
+ *
+ * @param data 原始响应
+ * @param symbol 交易对名称，用于错误信息
+ * @returns 校验后的 K 线数据
+ */
+export function validateKlines(data: unknown, symbol: string): RawKline[] {
+  const items = expectArray(data, `${symbol} K 线`);
+
+  items.forEach((item, index) => {
+    const context = `${symbol} K 线第 ${index + 1} 条`;
+
+    if (!Array.isArray(item) || item.length < 11) {
+      fail(`${context} 不是有效的 K 线数组`);
+    }
+
+    expectTimestamp(item[0], `${context} openTime`);
+    expectTimestamp(item[6], `${context} closeTime`);
+
+    for (const [position, field] of KLINE_NUMERIC_FIELDS) {
+      expectNumeric(item[position], `${context} ${field}`);
+    }
+
+    if (Number(item[2]) < Number(item[3])) {
+      fail(`${context} high 低于 low`);
+    }
+  });
+
+  return items as RawKline[];
+}
+
+/**
+ * 校验 ticker 推送中的单个交易对
+ *
+ * @param data 原始推送数据
+ * @returns 校验后的 ticker 推送
+ */
+export function validateStreamTicker(data: unknown): RawStreamTicker {
+  const record = expectObject(data, 'ticker 推送');
+  expectString(record.s, 'ticker 推送 s');
+
+  for (const field of STREAM_TICKER_NUMERIC_FIELDS) {
+    expectNumeric(record[field], `ticker 推送 (${record.s}) ${field}`);
+  }
+
+  return record as unknown as RawStreamTicker;
+}
+
+/**
+ * 校验 K 线推送
+ *
+ * @param data 原始推送数据 (kline 事件中的 k)
+ * @returns 校验后的 K 线推送
+ */
+export function validateStreamKline(data: unknown): RawStreamKline {
+  const record = expectObject(data, 'K 线推送');
+  expectString(record.s, 'K 线推送 s');
+  expectString(record.i, `K 线推送 (${record.s}) i`);
+
+  const context = `K 线推送 (${record.s} ${record.i})`;
+  expectTimestamp(record.t, `${context} t`);
+  expectTimestamp(record.T, `${context} T`);
+
+  for (const field of STREAM_KLINE_NUMERIC_FIELDS) {
+    expectNumeric(record[field], `${context} ${field}`);
+  }
+
+  if (typeof record.x !== 'boolean') {
+    fail(`${context} x 应为布尔值，实际为 ${describe(record.x)}`);
+  }
+  if (Number(record.h) < Number(record.l)) {
+    fail(`${context} high 低于 low`);
+  }
+
+  return record as unknown as RawStreamKline;
+}
+
+/**
+ * 校验交易所信息
+ *
+ * @param data 原始响应
+ * @returns 校验后的交易所信息
+ */
+export function validateExchangeInfo(data: unknown): RawExchangeInfo {
+  const info = expectObject(data, 'exchangeInfo');
+  const symbols = expectArray(info.symbols, 'exchangeInfo symbols');
+
+  symbols.forEach((item, index) => {
+    const context = `exchangeInfo 第 ${index + 1} 个交易对`;
+    const record = expectObject(item, context);
+
+    for (const field of ['symbol', 'status', 'contractType', 'quoteAsset']) {
+      expectString(record[field], `${context} ${field}`);
+    }
+
+    for (const field of ['onboardDate', 'deliveryDate']) {
+      if (record[field] !== undefined) {
+        expectTimestamp(record[field], `${context} ${field}`);
+      }
+    }
+    if (record.filters !== undefined) {
+      expectArray(record.filters, `${context} filters`);
+    }
+  });
+
+  return info as unknown as RawExchangeInfo;
+}
+
+/**
+ * 抛出解析错误
+ *
+ * @param message 错误描述
+ */
+function fail(message: string): never {
+  throw new ResponseParseError(`响应数据格式错误: ${message}`);
+}
+
+/**
+ * 校验值为数组
+ */
+function expectArray(value: unknown, context: string): unknown[] {
+  if (!Array.isArray(value)) {
+    fail(`${context} 应为数组，实际为 ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * 校验值为对象
+ */
+function expectObject(
+  value: unknown,
+  context: string
+): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(`${context} 应为对象，实际为 ${describe(value)}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * 校验值为字符串
+ */
+function expectString(value: unknown, context: string): void {
+  if (typeof value !== 'string') {
+    fail(`${context} 应为字符串，实际为 ${describe(value)}`);
+  }
+}
+
+/**
+ * 校验值为数字或可解析为有限数字的字符串
+ */
+function expectNumeric(value: unknown, context: string): void {
+  const valid =
+    (typeof value === 'number' ||
+      (typeof value === 'string' && value !== '')) &&
+    Number.isFinite(Number(value));
+
+  if (!valid) {
+    fail(`${context} 不是有效数字: ${describe(value)}`);
+  }
+}
+
+/**
+ * 校验值为毫秒时间戳
+ */
+function expectTimestamp(value: unknown, context: string): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    fail(`${context} 不是有效时间戳: ${describe(value)}`);
+  }
+}
+
+/**
+ * 生成用于错误信息的值描述
+ */
+function describe(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}...` : text;
+}
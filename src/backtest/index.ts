@@ -4,19 +4,56 @@
  * 模拟系统在历史某个时间点的完整工作流程
  */
 
-import { fetchCandles, fetchHistoricalGainers } from '../api/binance.ts';
+import {
+  fetchCandleRange,
+  fetchCandlesEndingAt,
+  fetchHistoricalGainers,
+} from '../api/binance.ts';
+import { MarketDataSource, defaultDataSource } from '../api/source.ts';
+import { DEFAULT_UNIVERSE_FILTER } from '../api/exchange.ts';
 import { analyzeSymbols } from '../indicators/analyzer.ts';
+import {
+  DEFAULT_DROP_PERCENT,
+  DEFAULT_HORIZON_HOURS,
+  formatReliability,
+  getCalibrationModel,
+  labelOutcome,
+  reliabilityStats,
+} from '../indicators/calibration.ts';
+import { formatPriceLevels } from '../indicators/levels.ts';
+import { formatExtension } from '../indicators/extension.ts';
+import {
+  buildMarketContext,
+  formatMarketContext,
+  setMarketContext,
+} from '../indicators/market.ts';
+import { getSignalRules } from '../indicators/rules.ts';
+import {
+  createTrackedSymbol,
+  dropFromHigh,
+  evaluateAnalysis,
+  expireInactive,
+  isActive,
+  recordPrice,
+} from '../tracking/lifecycle.ts';
 import { saveBacktestResult, loadBacktestResult } from '../utils/storage.ts';
 import { logInfo, logSuccess, logWarning, logError } from '../utils/helpers.ts';
-import { GainerInfo, AnalysisResult, TrackedSymbol } from '../models/types.ts';
+import {
+  GainerInfo,
+  AnalysisResult,
+  LifecycleState,
+  TrackedSymbol,
+  UniverseFilter,
+  GainersWindow,
+} from '../models/types.ts';
 import { format } from '@std/datetime';
 
-// 从 binance.ts 导入 API 基础 URL
-const BINANCE_API_BASE = 'https://fapi.binance.com';
-
 // 跟踪的币种列表（回测期间的状态保持）
 const trackedSymbols = new Map<string, TrackedSymbol>();
 
+// 回测期间的全部分析结果及分析时间，用于统计概率的可靠性
+const predictions: Array<{ time: number; result: AnalysisResult }> = [];
+
 /**
  * 运行回测
  *
@@ -25,11 +62,17 @@ const trackedSymbols = new Map<string, TrackedSymbol>();
  * @param startDate 回测起始日期 (YYYY-MM-DD)
  * @param endDate 回测结束日期 (YYYY-MM-DD)，可选，默认为起始日期后的 7 天
  * @param interval K 线时间间隔
+ * @param source 行情数据源
+ * @param universe 交易对范围过滤规则
+ * @param gainersWindow 重建涨幅榜使用的涨幅统计窗口
  */
 export async function runBacktest(
   startDate?: string,
   endDate?: string,
-  interval = '1h'
+  interval = '1h',
+  source: MarketDataSource = defaultDataSource,
+  universe: UniverseFilter = DEFAULT_UNIVERSE_FILTER,
+  gainersWindow: GainersWindow = '24h'
 ): Promise<void> {
   // 如果未指定起始日期，默认使用 30 天前的日期
   if (!startDate) {
@@ -52,6 +95,8 @@ export async function runBacktest(
   try {
     // 清空跟踪的币种列表
     trackedSymbols.clear();
+    predictions.length = 0;
+    setMarketContext(undefined);
 
     // 按日期范围迭代每一天
     const currentDate = new Date(startDate);
@@ -60,18 +105,23 @@ export async function runBacktest(
     while (currentDate <= endDateObj) {
       const dateStr = format(currentDate, 'yyyy-MM-dd');
 
-      // 获取当天的涨幅榜数据
-      const gainers = await fetchHistoricalGainers(dateStr, 20);
+      // 重建当天收盘时刻的涨幅榜，与实时监控在该时刻看到的一致
+      const gainers = await fetchHistoricalGainers(
+        new Date(dateStr).getTime() + 24 * 60 * 60 * 1000,
+        20,
+        gainersWindow,
+        source,
+        universe
+      );
 
-      if (!gainers || gainers.length === 0) {
-        logWarning(`未找到 ${dateStr} 的历史涨幅榜数据，使用模拟数据`);
-        // 使用模拟数据进行回测
-        const mockGainers = await generateMockGainers();
-        await processDay(dateStr, mockGainers, interval);
+      if (gainers.length === 0) {
+        // 当天没有满足过滤规则且有 K 线的合约，不用其他数据替代
+        logWarning(
+          `${dateStr} 重建的涨幅榜为空 (没有满足过滤规则且有 K 线的合约)，跳过当天`
+        );
       } else {
-        // 使用实际历史数据进行回测
         logInfo(`获取到 ${dateStr} 的 ${gainers.length} 个涨幅榜币种`);
-        await processDay(dateStr, gainers, interval);
+        await processDay(dateStr, gainers, interval, source);
       }
 
       // 更新当前日期到下一天
@@ -81,6 +131,8 @@ export async function runBacktest(
       await new Promise((resolve) => setTimeout(resolve, 1000));
     }
 
+    await reportReliability(`${startDate}_${endDate}`, source);
+
     logSuccess(`回测完成，时间范围: ${startDate} 至 ${endDate}`);
   } catch (error) {
     logError(`回测过程中出错: ${error}`);
@@ -93,139 +145,126 @@ export async function runBacktest(
  * @param date 回测日期
  * @param gainers 涨幅榜币种
  * @param interval K线间隔
+ * @param source 行情数据源
  */
 async function processDay(
   date: string,
   gainers: GainerInfo[],
-  interval: string
+  interval: string,
+  source: MarketDataSource
 ): Promise<void> {
   logInfo(`处理 ${date} 的数据...`);
 
-  // 分析当天的涨幅榜币种
-  const analysisResults = await analyzeSymbols(gainers, interval);
+  // 使用当天收盘前的 K 线，状态更新和分析都发生在当天收盘时刻
+  const endOfDay = new Date(date).getTime() + 24 * 60 * 60 * 1000 - 1;
+  const time = endOfDay + 1;
 
-  // 更新或添加跟踪的币种
+  // 更新或添加跟踪的币种，与实时监控使用同一套生命周期规则
+  const ranked = new Set(gainers.map((gainer) => gainer.symbol));
   for (const gainer of gainers) {
-    const symbol = gainer.symbol;
-    const currentPrice = gainer.lastPrice;
-
-    if (trackedSymbols.has(symbol)) {
-      // 更新已跟踪的币种
-      const tracked = trackedSymbols.get(symbol)!;
-
-      // 更新高点价格
-      if (currentPrice > tracked.highestPrice) {
-        tracked.highestPrice = currentPrice;
-        // 重置下跌标志，因为创建了新高
-        tracked.downtrend = false;
-        tracked.downtrendConfirmed = false;
-        tracked.downtrendNotified = false;
-      }
-
-      // 检查是否开始下跌
-      if (currentPrice < tracked.lastPrice && !tracked.downtrend) {
-        tracked.downtrend = true;
-
-        // 在分析结果中查找此币种
-        const result = analysisResults.find((r) => r.symbol === symbol);
-        if (result) {
-          tracked.signals = result.signals || [];
-        }
+    const tracked = trackedSymbols.get(gainer.symbol);
+    if (tracked) {
+      recordPrice(tracked, gainer.lastPrice, time);
+    } else {
+      trackedSymbols.set(
+        gainer.symbol,
+        createTrackedSymbol(gainer.symbol, gainer.lastPrice, time)
+      );
+    }
+  }
 
-        logInfo(
-          `${symbol}: 从 ${tracked.lastPrice} 下跌到 ${currentPrice}，可能开始下跌趋势`
-        );
-      }
+  // 跌出涨幅榜的跟踪币种按当天收盘价更新价格和高点
+  for (const tracked of activeTrackedSymbols()) {
+    if (ranked.has(tracked.symbol)) continue;
 
-      // 检查是否确认下跌（从高点下跌超过5%）
-      const dropPercent =
-        ((tracked.highestPrice - currentPrice) / tracked.highestPrice) * 100;
-      if (
-        tracked.downtrend &&
-        dropPercent >= 5 &&
-        !tracked.downtrendConfirmed
-      ) {
-        tracked.downtrendConfirmed = true;
-        logInfo(
-          `${symbol}: 从高点 ${tracked.highestPrice} 下跌 ${dropPercent.toFixed(
-            2
-          )}%，确认下跌趋势`
-        );
+    try {
+      const [candle] = await fetchCandlesEndingAt(
+        tracked.symbol,
+        interval,
+        1,
+        endOfDay,
+        source
+      );
+      if (candle) {
+        recordPrice(tracked, candle.close, time, false);
       }
+    } catch (error) {
+      logWarning(`获取 ${tracked.symbol} ${date} 收盘价失败: ${error}`);
+    }
+  }
 
-      // 更新最新价格和时间
-      tracked.lastPrice = currentPrice;
-      tracked.lastUpdateTime = new Date(date).getTime();
-    } else {
-      // 添加新跟踪的币种
-      trackedSymbols.set(symbol, {
-        symbol,
-        lastPrice: currentPrice,
-        highestPrice: currentPrice,
-        lastUpdateTime: new Date(date).getTime(),
-        signals: [],
-        downtrend: false,
-        downtrendConfirmed: false,
-        downtrendNotified: false,
-      });
+  // 计算当天的大盘环境
+  const market = getSignalRules().market.enabled
+    ? await buildMarketContext(
+        gainers,
+        activeTrackedSymbols(),
+        source,
+        endOfDay
+      )
+    : undefined;
+  setMarketContext(market);
+  if (market) {
+    logInfo(`${date} 大盘环境: ${formatMarketContext(market)}`);
+    if (market.rollingOver) {
+      logWarning(`${date} 涨幅榜整体回落: ${market.reasons.join('，')}`);
     }
   }
 
-  // 收集需要显示的信号（上涨乏力或确认下跌的币种）
+  // 分析所有未过期的跟踪币种，跟踪状态一并提供给检测器
+  const activeSymbols = activeTrackedSymbols();
+  const analysisResults = await analyzeSymbols(
+    activeSymbols,
+    interval,
+    source,
+    endOfDay
+  );
+  for (const result of analysisResults) {
+    predictions.push({ time, result });
+  }
+
   const uptrendFailureSignals: AnalysisResult[] = [];
   const downtrendConfirmedSignals: AnalysisResult[] = [];
 
-  for (const [symbol, tracked] of trackedSymbols.entries()) {
-    // 查找当前分析结果
+  for (const tracked of activeSymbols) {
+    const symbol = tracked.symbol;
     const result = analysisResults.find((r) => r.symbol === symbol);
 
-    if (tracked.downtrend && !tracked.downtrendNotified) {
-      // 上涨乏力信号
-      if (result) {
-        uptrendFailureSignals.push({
-          ...result,
-          highestPrice: tracked.highestPrice,
-        });
-      } else {
-        // 如果没有当前分析结果，使用跟踪数据创建一个
-        uptrendFailureSignals.push({
-          symbol,
-          price: tracked.lastPrice,
-          probability: 70, // 默认概率
-          signals: tracked.signals,
-          highestPrice: tracked.highestPrice,
-        });
-      }
+    if (result) {
+      tracked.signals = result.signals;
+      tracked.extensionScore = result.extension?.score;
     }
 
-    if (tracked.downtrendConfirmed && !tracked.downtrendNotified) {
-      // 确认下跌信号
-      const dropPercent =
-        ((tracked.highestPrice - tracked.lastPrice) / tracked.highestPrice) *
-        100;
-
-      if (result) {
-        downtrendConfirmedSignals.push({
-          ...result,
-          highestPrice: tracked.highestPrice,
-          dropPercent,
-        });
-      } else {
-        downtrendConfirmedSignals.push({
-          symbol,
-          price: tracked.lastPrice,
-          probability: 90, // 确认下跌默认概率更高
-          signals: tracked.signals,
-          highestPrice: tracked.highestPrice,
-          dropPercent,
-        });
-      }
+    // 收集进入上涨乏力或确认下跌状态的币种
+    const transitions = evaluateAnalysis(tracked, result?.probability, time);
 
-      // 标记为已通知
-      tracked.downtrendNotified = true;
+    if (result && transitions.some((t) => t.to === LifecycleState.WEAKENING)) {
+      uptrendFailureSignals.push({
+        ...result,
+        highestPrice: tracked.highestPrice,
+      });
+    }
+
+    if (transitions.some((t) => t.to === LifecycleState.CONFIRMED_DOWN)) {
+      const dropPercent = dropFromHigh(tracked);
+      downtrendConfirmedSignals.push(
+        result
+          ? { ...result, highestPrice: tracked.highestPrice, dropPercent }
+          : {
+              // 没有当前分析结果时使用跟踪数据
+              symbol,
+              price: tracked.lastPrice,
+              probability: 90, // 确认下跌默认概率更高
+              signals: tracked.signals,
+              highestPrice: tracked.highestPrice,
+              dropPercent,
+            }
+      );
     }
   }
 
+  // 长期未进入涨幅榜的币种过期
+  expireInactive(trackedSymbols, time);
+
   // 按概率排序
   uptrendFailureSignals.sort((a, b) => b.probability - a.probability);
   downtrendConfirmedSignals.sort((a, b) => b.probability - a.probability);
@@ -236,6 +275,7 @@ async function processDay(
     {
       date,
       interval,
+      market,
       allSymbols: Array.from(trackedSymbols.values()),
       uptrendFailureSignals,
       downtrendConfirmedSignals,
@@ -253,10 +293,18 @@ async function processDay(
     logInfo(`检测到 ${uptrendFailureSignals.length} 个上涨乏力信号:`);
     for (const signal of uptrendFailureSignals) {
       logInfo(
-        `- ${signal.symbol}: 反转概率 ${signal.probability.toFixed(
-          2
-        )}%, 当前价格: ${signal.price}, 历史高点: ${signal.highestPrice}`
+        `- ${signal.symbol}: 反转概率 ${signal.probability.toFixed(2)}%${
+          signal.calibratedProbability !== undefined
+            ? ` (校准 ${signal.calibratedProbability.toFixed(2)}%)`
+            : ''
+        }, 当前价格: ${signal.price}, 历史高点: ${signal.highestPrice}`
       );
+      if (signal.supportLevels && signal.supportLevels.length > 0) {
+        logInfo(`  下方支撑: ${formatPriceLevels(signal.supportLevels)}`);
+      }
+      if (signal.extension) {
+        logInfo(`  延伸度: ${formatExtension(signal.extension)}`);
+      }
     }
   }
 
@@ -268,8 +316,93 @@ async function processDay(
           2
         )}%, 当前价格: ${signal.price}, 历史高点: ${signal.highestPrice}`
       );
+      if (signal.supportLevels && signal.supportLevels.length > 0) {
+        logInfo(`  下方支撑: ${formatPriceLevels(signal.supportLevels)}`);
+      }
+    }
+  }
+}
+
+/**
+ * 获取未过期的跟踪币种
+ *
+ * @returns 跟踪币种列表
+ */
+function activeTrackedSymbols(): TrackedSymbol[] {
+  return Array.from(trackedSymbols.values()).filter(isActive);
+}
+
+/**
+ * 统计回测期间原始概率和校准概率的可靠性
+ *
+ * 按校准模型的目标 (未加载模型时使用默认值) 标记每个分析结果之后是否出现目标跌幅
+ *
+ * @param name 回测标识名称
+ * @param source 行情数据源
+ */
+async function reportReliability(
+  name: string,
+  source: MarketDataSource
+): Promise<void> {
+  const model = getCalibrationModel();
+  const dropPercent = model?.dropPercent ?? DEFAULT_DROP_PERCENT;
+  const horizonHours = model?.horizonHours ?? DEFAULT_HORIZON_HOURS;
+  const hourMs = 60 * 60 * 1000;
+
+  const labelled: Array<{ result: AnalysisResult; label: boolean }> = [];
+  for (const { time, result } of predictions) {
+    try {
+      const { candles } = await fetchCandleRange(
+        result.symbol,
+        '1h',
+        time,
+        time + (horizonHours - 1) * hourMs,
+        source
+      );
+      const label = labelOutcome(
+        candles,
+        time,
+        result.price,
+        dropPercent,
+        horizonHours
+      );
+      if (label !== undefined) labelled.push({ result, label });
+    } catch (error) {
+      logWarning(`获取 ${result.symbol} 后续价格失败: ${error}`);
     }
   }
+
+  if (labelled.length === 0) {
+    logInfo('没有可以验证后续走势的分析结果，跳过可靠性统计');
+    return;
+  }
+
+  const labels = labelled.map((item) => item.label);
+  const raw = reliabilityStats(
+    labelled.map((item) => item.result.probability / 100),
+    labels
+  );
+  const calibrated = model
+    ? reliabilityStats(
+        labelled.map((item) => (item.result.calibratedProbability ?? 0) / 100),
+        labels
+      )
+    : undefined;
+
+  logInfo(
+    `概率可靠性 (${horizonHours} 小时内下跌 ${dropPercent}%) - 原始概率: ${formatReliability(
+      raw
+    )}`
+  );
+  if (calibrated) {
+    logInfo(`概率可靠性 - 校准概率: ${formatReliability(calibrated)}`);
+  }
+
+  await saveBacktestResult(
+    name,
+    { dropPercent, horizonHours, raw, calibrated },
+    'reliability'
+  );
 }
 
 /**
@@ -279,10 +412,12 @@ async function processDay(
  *
  * @param date 验证日期 (YYYY-MM-DD)
  * @param interval K 线时间间隔
+ * @param source 行情数据源
  */
 async function verifyBacktestResults(
   date: string,
-  interval: string
+  interval: string,
+  source: MarketDataSource = defaultDataSource
 ): Promise<void> {
   logInfo(`验证 ${date} 的回测信号表现...`);
 
@@ -332,26 +467,23 @@ async function verifyBacktestResults(
         const startTime = new Date(prevDateStr).getTime();
         const endTime = new Date(date).getTime() + 24 * 60 * 60 * 1000;
 
-        const response = await fetch(
-          `${BINANCE_API_BASE}/fapi/v1/klines?symbol=${signal.symbol}&interval=1d&startTime=${startTime}&endTime=${endTime}&limit=2`
+        const { candles } = await fetchCandleRange(
+          signal.symbol,
+          '1d',
+          startTime,
+          endTime,
+          source
         );
 
-        if (!response.ok) {
-          logWarning(`获取 ${signal.symbol} 价格数据失败: ${response.status}`);
-          continue;
-        }
-
-        const data = await response.json();
-
-        if (data.length < 2) {
+        if (candles.length < 2) {
           logWarning(`${signal.symbol} 价格数据不足，无法验证`);
           continue;
         }
 
         // 预测当天的收盘价
-        const predictionDayClose = parseFloat(data[0][4]);
+        const predictionDayClose = candles[0].close;
         // 验证日期的收盘价
-        const verificationDayClose = parseFloat(data[1][4]);
+        const verificationDayClose = candles[1].close;
 
         // 计算实际价格变化百分比
         const actualChange =
@@ -419,81 +551,3 @@ async function verifyBacktestResults(
     logError(`验证过程中出错: ${error}`);
   }
 }
-
-/**
- * 生成模拟涨幅榜数据
- * 用于在没有历史数据的情况下进行回测
- */
-async function generateMockGainers(): Promise<GainerInfo[]> {
-  const symbols = [
-    'BTCUSDT',
-    'ETHUSDT',
-    'BNBUSDT',
-    'ADAUSDT',
-    'DOGEUSDT',
-    'XRPUSDT',
-    'DOTUSDT',
-    'UNIUSDT',
-    'LINKUSDT',
-    'LTCUSDT',
-    'SOLUSDT',
-    'MATICUSDT',
-    'AXSUSDT',
-    'ATOMUSDT',
-    'AVAXUSDT',
-    'FILUSDT',
-    'ICPUSDT',
-    'VETUSDT',
-    'TRXUSDT',
-    'ETCUSDT',
-  ];
-
-  const mockGainers: GainerInfo[] = [];
-
-  // 尝试为每个符号获取一些实际数据
-  for (const symbol of symbols) {
-    try {
-      const candles = await fetchCandles(symbol, '1d', 5);
-      if (candles.length > 0) {
-        const lastCandle = candles[candles.length - 1];
-        const prevCandle = candles[0];
-
-        const priceChange = lastCandle.close - prevCandle.close;
-        const priceChangePercent = (priceChange / prevCandle.close) * 100;
-
-        mockGainers.push({
-          symbol,
-          lastPrice: lastCandle.close,
-          priceChange,
-          priceChangePercent,
-          volume: lastCandle.volume,
-          quoteVolume: lastCandle.volume * lastCandle.close,
-        });
-      }
-    } catch (e) {
-      logWarning(`获取 ${symbol} 的数据失败：${e}`);
-    }
-  }
-
-  // 如果获取不到足够的数据，添加一些完全模拟的数据
-  while (mockGainers.length < 10) {
-    const randomIndex = Math.floor(Math.random() * symbols.length);
-    const symbol = symbols[randomIndex];
-
-    if (!mockGainers.some((g) => g.symbol === symbol)) {
-      mockGainers.push({
-        symbol,
-        lastPrice: 1000 + Math.random() * 1000,
-        priceChange: 50 + Math.random() * 100,
-        priceChangePercent: 5 + Math.random() * 10,
-        volume: 1000000 + Math.random() * 5000000,
-        quoteVolume: 10000000 + Math.random() * 50000000,
-      });
-    }
-  }
-
-  // 按涨幅排序
-  return mockGainers.sort(
-    (a, b) => b.priceChangePercent - a.priceChangePercent
-  );
-}
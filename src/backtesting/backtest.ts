@@ -4,8 +4,16 @@
  * 用于验证反转信号的准确性
  */
 
-import { fetchCandles, fetchGainersList } from '../api/binance.ts';
+import { fetchCandleRange, fetchHistoricalGainers } from '../api/binance.ts';
+import { MarketDataSource, defaultDataSource } from '../api/source.ts';
 import { analyzeSymbols } from '../indicators/analyzer.ts';
+import {
+  checkModelCompatibility,
+  formatReliability,
+  reliabilityStats,
+  setCalibrationModel,
+} from '../indicators/calibration.ts';
+import { loadCalibrationModel } from '../utils/storage.ts';
 import { GainerInfo, AnalysisResult } from '../models/types.ts';
 
 /**
@@ -16,6 +24,7 @@ interface BacktestResult {
   signalDate: Date;
   signalPrice: number;
   probability: number;
+  calibratedProbability?: number; // 校准后的反转概率，加载了校准模型时提供
   // 后续价格变动百分比
   priceChange1d: number;
   priceChange3d: number;
@@ -31,6 +40,7 @@ interface BacktestConfig {
   endDate: Date;
   minProbability: number; // 最小反转概率
   successThreshold: number; // 成功阈值 (价格下跌百分比)
+  source?: MarketDataSource; // 行情数据源，默认为币安实时数据
 }
 
 // 默认回测配置
@@ -44,23 +54,18 @@ const defaultConfig: BacktestConfig = {
 /**
  * 获取历史上的涨幅榜数据
  *
- * 注意：这里使用模拟数据，实际应该从历史数据库获取
+ * 根据小时 K 线重建分析时刻的 24 小时涨幅榜，重建失败时直接抛出错误
  *
- * @param date 日期
+ * @param timestamp 分析时间点
+ * @param source 行情数据源
  * @returns 涨幅榜数据
  */
-async function getHistoricalGainers(date: Date): Promise<GainerInfo[]> {
-  // 在实际应用中，这里应该从历史数据库获取指定日期的涨幅榜
-  // 这里简化为获取当前的涨幅榜
-  console.log(`获取 ${date.toISOString().split('T')[0]} 的历史涨幅榜数据`);
-
-  try {
-    const gainersList = await fetchGainersList(20);
-    return gainersList;
-  } catch (error) {
-    console.error('获取历史涨幅榜失败:', error);
-    return [];
-  }
+function getHistoricalGainers(
+  timestamp: number,
+  source: MarketDataSource
+): Promise<GainerInfo[]> {
+  console.log(`获取 ${new Date(timestamp).toISOString()} 的历史涨幅榜数据`);
+  return fetchHistoricalGainers(timestamp, 20, '24h', source);
 }
 
 /**
@@ -68,22 +73,30 @@ async function getHistoricalGainers(date: Date): Promise<GainerInfo[]> {
  *
  * @param symbol 交易对
  * @param date 信号日期
+ * @param source 行情数据源
  * @returns 未来价格变动百分比
  */
 async function getFuturePriceChanges(
   symbol: string,
-  date: Date
+  date: Date,
+  source: MarketDataSource
 ): Promise<{
   priceChange1d: number;
   priceChange3d: number;
   priceChange7d: number;
 }> {
   try {
-    // 获取日线数据
-    const candles = await fetchCandles(symbol, '1d', 10);
+    // 获取信号日及之后 7 天的日线数据，第一根为信号日
+    const dayMs = 24 * 60 * 60 * 1000;
+    const signalDay = Math.floor(date.getTime() / dayMs) * dayMs;
+    const { candles } = await fetchCandleRange(
+      symbol,
+      '1d',
+      signalDay,
+      signalDay + 7 * dayMs,
+      source
+    );
 
-    // 简化版：假设第一个蜡烛是信号日，后面的几个是未来的日子
-    // 注意：实际应用中需要根据日期筛选实际的 K 线
     const signalPrice = candles[0].close;
 
     // 计算未来价格变动
@@ -131,7 +144,11 @@ async function evaluateResult(
   config: BacktestConfig
 ): Promise<BacktestResult> {
   // 获取未来价格变动
-  const priceChanges = await getFuturePriceChanges(result.symbol, date);
+  const priceChanges = await getFuturePriceChanges(
+    result.symbol,
+    date,
+    config.source ?? defaultDataSource
+  );
 
   // 确定是否成功预测
   // 取三个时间段中最大的下跌幅度
@@ -148,6 +165,7 @@ async function evaluateResult(
     signalDate: date,
     signalPrice: result.price,
     probability: result.probability,
+    calibratedProbability: result.calibratedProbability,
     ...priceChanges,
     successful,
   };
@@ -164,15 +182,26 @@ async function runDailyBacktest(
   date: Date,
   config: BacktestConfig
 ): Promise<BacktestResult[]> {
-  // 获取历史涨幅榜数据
-  const gainersList = await getHistoricalGainers(date);
+  const source = config.source ?? defaultDataSource;
+
+  // 使用信号日收盘前的 K 线分析币种
+  const dayMs = 24 * 60 * 60 * 1000;
+  const endOfDay = Math.floor(date.getTime() / dayMs) * dayMs + dayMs - 1;
+  const analysisTime = Math.min(endOfDay, Date.now());
+
+  // 获取分析时刻的历史涨幅榜数据
+  const gainersList = await getHistoricalGainers(analysisTime + 1, source);
 
   if (gainersList.length === 0) {
     return [];
   }
 
-  // 分析币种
-  const analysisResults = await analyzeSymbols(gainersList);
+  const analysisResults = await analyzeSymbols(
+    gainersList,
+    '1h',
+    source,
+    analysisTime
+  );
 
   // 过滤出概率大于阈值的结果
   const highProbResults = analysisResults.filter(
@@ -217,12 +246,17 @@ export async function runBacktest(
   // 输出回测结果
   if (results.length > 0) {
     console.log('\n回测结果:');
-    console.log('币种\t概率\t1天后\t3天后\t7天后\t结果');
+    console.log('币种\t概率\t校准\t1天后\t3天后\t7天后\t结果');
     console.log('----------------------------------------');
 
     results.forEach((result) => {
       console.log(
         `${result.symbol}\t${result.probability.toFixed(0)}%\t` +
+          `${
+            result.calibratedProbability !== undefined
+              ? `${result.calibratedProbability.toFixed(0)}%`
+              : '-'
+          }\t` +
           `${result.priceChange1d.toFixed(2)}%\t` +
           `${result.priceChange3d.toFixed(2)}%\t` +
           `${result.priceChange7d.toFixed(2)}%\t` +
@@ -238,6 +272,27 @@ export async function runBacktest(
     console.log(`总信号数: ${results.length}`);
     console.log(`成功预测数: ${successCount}`);
     console.log(`成功率: ${successRate.toFixed(2)}%`);
+
+    // 以是否成功预测下跌为结果统计概率的可靠性
+    const labels = results.map((r) => r.successful);
+    console.log(
+      `原始概率可靠性: ${formatReliability(
+        reliabilityStats(
+          results.map((r) => r.probability / 100),
+          labels
+        )
+      )}`
+    );
+    if (results.every((r) => r.calibratedProbability !== undefined)) {
+      console.log(
+        `校准概率可靠性: ${formatReliability(
+          reliabilityStats(
+            results.map((r) => r.calibratedProbability! / 100),
+            labels
+          )
+        )}`
+      );
+    }
   } else {
     console.log('没有找到任何符合条件的反转信号');
   }
@@ -249,5 +304,13 @@ export async function runBacktest(
  * 回测入口函数
  */
 if (import.meta.main) {
+  // 回测使用 1h 主周期，模型的主周期或信号规则不一致时不使用
+  const model = await loadCalibrationModel();
+  const incompatibility = model && checkModelCompatibility(model, '1h');
+  if (incompatibility) {
+    console.warn(`校准模型不适用，跳过加载: ${incompatibility}`);
+  } else {
+    setCalibrationModel(model);
+  }
   await runBacktest();
 }
@@ -0,0 +1,219 @@
+/**
+ * 概率校准训练
+ *
+ * 重建历史每天的涨幅榜，在当天的多个时间点对榜上币种运行只使用 K 线的多周期分析，
+ * 根据之后的价格走势标记是否出现目标跌幅，拟合校准模型并保存到 data/。
+ * 衍生品数据、跟踪状态、大盘环境和订单簿无法完整重建，实时校准时同样只使用 K 线的分析结果
+ */
+
+import { fetchCandleRange, fetchHistoricalGainers } from '../api/binance.ts';
+import { MarketDataSource, defaultDataSource } from '../api/source.ts';
+import { DEFAULT_UNIVERSE_FILTER } from '../api/exchange.ts';
+import { isSystemWideError } from '../api/errors.ts';
+import { analyzeCandlesOnly } from '../indicators/analyzer.ts';
+import {
+  DEFAULT_DROP_PERCENT,
+  DEFAULT_HORIZON_HOURS,
+  extractFeatures,
+  formatReliability,
+  labelOutcome,
+  rulesFingerprint,
+  trainCalibrationModel,
+} from '../indicators/calibration.ts';
+import { getSignalRules } from '../indicators/rules.ts';
+import { saveCalibrationModel } from '../utils/storage.ts';
+import {
+  intervalToMs,
+  logInfo,
+  logSuccess,
+  logWarning,
+} from '../utils/helpers.ts';
+import {
+  CalibrationModel,
+  CalibrationSample,
+  Candle,
+  UniverseFilter,
+} from '../models/types.ts';
+
+// 每个时间周期用于分析的 K 线数量，与实时分析保持一致
+const ANALYSIS_CANDLES = 100;
+
+/**
+ * 校准训练参数
+ */
+export interface CalibrationOptions {
+  startDate: string; // 起始日期 (YYYY-MM-DD)
+  endDate: string; // 结束日期 (YYYY-MM-DD)
+  interval: string; // 主周期
+  method: CalibrationModel['method']; // 校准方法
+  dropPercent: number; // 目标跌幅百分比
+  horizonHours: number; // 观察期小时数
+  sampleStepHours: number; // 同一币种两次采样之间的小时数
+  limit: number; // 每天采样的涨幅榜币种数量
+  source: MarketDataSource; // 行情数据源
+  universe: UniverseFilter; // 交易对范围过滤规则
+}
+
+// 默认校准训练参数
+export const DEFAULT_CALIBRATION_OPTIONS: Omit<
+  CalibrationOptions,
+  'startDate' | 'endDate'
+> = {
+  interval: '1h',
+  method: 'logistic',
+  dropPercent: DEFAULT_DROP_PERCENT,
+  horizonHours: DEFAULT_HORIZON_HOURS,
+  sampleStepHours: 4,
+  limit: 20,
+  source: defaultDataSource,
+  universe: DEFAULT_UNIVERSE_FILTER,
+};
+
+/**
+ * 训练并保存概率校准模型
+ *
+ * @param options 校准训练参数
+ * @returns 校准模型
+ */
+export async function runCalibration(
+  options: CalibrationOptions
+): Promise<CalibrationModel> {
+  const dayMs = intervalToMs('1d');
+  const start = new Date(options.startDate).getTime();
+  const end = new Date(options.endDate).getTime();
+  if (isNaN(start) || isNaN(end) || start > end) {
+    throw new Error(
+      `无效的校准日期范围: ${options.startDate} 至 ${options.endDate}`
+    );
+  }
+
+  logInfo(
+    `开始构建校准样本，日期范围: ${options.startDate} 至 ${options.endDate}, 目标: ${options.horizonHours} 小时内下跌 ${options.dropPercent}%`
+  );
+
+  // 每天采样当天开盘时刻涨幅榜上的币种
+  const days = new Map<string, number[]>();
+  for (let day = start; day <= end; day += dayMs) {
+    const gainers = await fetchHistoricalGainers(
+      day,
+      options.limit,
+      '24h',
+      options.source,
+      options.universe
+    );
+    for (const gainer of gainers) {
+      days.set(gainer.symbol, [...(days.get(gainer.symbol) ?? []), day]);
+    }
+  }
+
+  const samples: CalibrationSample[] = [];
+  for (const [symbol, symbolDays] of days) {
+    try {
+      const symbolSamples = await buildSamples(symbol, symbolDays, options);
+      samples.push(...symbolSamples);
+      logInfo(`${symbol}: ${symbolSamples.length} 个样本`);
+    } catch (error) {
+      if (isSystemWideError(error)) throw error;
+      logWarning(`构建 ${symbol} 的校准样本失败: ${error}`);
+    }
+  }
+
+  const model = trainCalibrationModel(samples, options.method, {
+    interval: options.interval,
+    rulesFingerprint: rulesFingerprint(),
+    dropPercent: options.dropPercent,
+    horizonHours: options.horizonHours,
+  });
+
+  logInfo(`验证集原始概率: ${formatReliability(model.reliability.raw)}`);
+  logInfo(`验证集校准概率: ${formatReliability(model.reliability.calibrated)}`);
+
+  const path = await saveCalibrationModel(model);
+  logSuccess(
+    `校准模型已保存到 ${path}，方法: ${model.method}，样本: ${model.sampleCount}`
+  );
+
+  return model;
+}
+
+/**
+ * 构建单个币种的校准样本
+ *
+ * @param symbol 交易对
+ * @param days 需要采样的日期 (当天开盘时间)
+ * @param options 校准训练参数
+ * @returns 校准样本
+ */
+async function buildSamples(
+  symbol: string,
+  days: number[],
+  options: CalibrationOptions
+): Promise<CalibrationSample[]> {
+  const dayMs = intervalToMs('1d');
+  const hourMs = intervalToMs('1h');
+  const firstDay = Math.min(...days);
+  const lastDay = Math.max(...days);
+
+  // 一次获取覆盖全部采样时间的 K 线，主周期之外另需小时 K 线用于标记结果
+  const timeframes = Array.from(
+    new Set([
+      options.interval,
+      '1h',
+      ...Object.keys(getSignalRules().timeframeWeights),
+    ])
+  );
+  const candlesByTimeframe: Record<string, Candle[]> = {};
+  for (const tf of timeframes) {
+    const tfMs = intervalToMs(tf);
+    const { candles } = await fetchCandleRange(
+      symbol,
+      tf,
+      firstDay - ANALYSIS_CANDLES * tfMs,
+      Math.min(
+        lastDay + dayMs + options.horizonHours * hourMs,
+        Date.now() - tfMs
+      ),
+      options.source
+    );
+    candlesByTimeframe[tf] = candles;
+  }
+
+  const samples: CalibrationSample[] = [];
+  for (const day of days) {
+    for (
+      let time = day;
+      time < day + dayMs;
+      time += options.sampleStepHours * hourMs
+    ) {
+      // 只使用采样时间之前收盘的 K 线
+      const window: Record<string, Candle[]> = {};
+      for (const [tf, candles] of Object.entries(candlesByTimeframe)) {
+        window[tf] = candles
+          .filter((c) => c.closeTime < time)
+          .slice(-ANALYSIS_CANDLES);
+      }
+      if (window[options.interval].length < 30) continue;
+
+      const price = window[options.interval].at(-1)!.close;
+      const label = labelOutcome(
+        candlesByTimeframe['1h'],
+        time,
+        price,
+        options.dropPercent,
+        options.horizonHours
+      );
+      if (label === undefined) continue;
+
+      const result = analyzeCandlesOnly(symbol, window, options.interval);
+      samples.push({
+        symbol,
+        timestamp: time,
+        probability: result.probability,
+        features: extractFeatures(result),
+        label,
+      });
+    }
+  }
+
+  return samples;
+}
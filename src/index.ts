@@ -4,38 +4,116 @@
  * 主程序入口文件
  */
 
-import { fetchGainersList } from './api/binance.ts';
-import { analyzeSymbols } from './indicators/analyzer.ts';
-import { notify } from './notifications/notifier.ts';
+import {
+  GAINERS_WINDOWS,
+  fetchCandleRange,
+  fetchCandles,
+  fetchMultiTimeframeData,
+  fetchTickers,
+  rankGainers,
+} from './api/binance.ts';
+import { MarketDataSource, defaultDataSource } from './api/source.ts';
+import { FixtureDataSource } from './api/fixture.ts';
+import { fetchDerivativesData } from './api/derivatives.ts';
+import { LocalOrderBook, fetchOrderBook } from './api/depth.ts';
+import {
+  MaintenanceError,
+  NetworkError,
+  RateLimitError,
+  ResponseParseError,
+} from './api/errors.ts';
+import {
+  DEFAULT_UNIVERSE_FILTER,
+  fetchExchangeMetadata,
+} from './api/exchange.ts';
+import {
+  MarketStream,
+  TICKER_ARRAY_STREAM,
+  depthStreamName,
+  klineStreamName,
+} from './api/stream.ts';
+import {
+  BINANCE_STREAM_BASE,
+  NETWORK_PRESETS,
+  NetworkOverrides,
+  getNetworkConfig,
+  loadNetworkConfig,
+  setNetworkConfig,
+} from './api/network.ts';
+import {
+  analyzeMultiTimeframe,
+  analyzeSymbols,
+  logAnalysisResult,
+} from './indicators/analyzer.ts';
+import {
+  DEFAULT_SIGNAL_RULES,
+  getSignalRules,
+  loadSignalRules,
+  setSignalRules,
+} from './indicators/rules.ts';
+import { loadDetectorPlugins } from './indicators/registry.ts';
+import {
+  checkModelCompatibility,
+  formatReliability,
+  setCalibrationModel,
+} from './indicators/calibration.ts';
+import {
+  DEFAULT_CALIBRATION_OPTIONS,
+  runCalibration,
+} from './calibration/index.ts';
+import {
+  buildMarketContext,
+  formatMarketContext,
+  getMarketContext,
+  setMarketContext,
+} from './indicators/market.ts';
+import { BTC_BENCHMARK, buildBenchmarks } from './indicators/relative.ts';
+import { notify, notifyMarketRollingOver } from './notifications/notifier.ts';
 import { parseArgs } from '@std/cli/parse-args';
+import { format } from '@std/datetime';
 import { runBacktest } from './backtest/index.ts';
+import {
+  CONFIRM_DROP_PERCENT,
+  createTrackedSymbol,
+  dropFromHigh,
+  evaluateAnalysis,
+  expireInactive,
+  isActive,
+  recordPrice,
+  restoreLifecycle,
+} from './tracking/lifecycle.ts';
 import {
   initDataDirectories,
+  loadCalibrationModel,
   loadHistoryAnalysis,
   saveAnalysisResult,
 } from './utils/storage.ts';
 import {
   formatNumber,
+  intervalToMs,
   logInfo,
   logSuccess,
   logWarning,
   logError,
 } from './utils/helpers.ts';
+import {
+  AnalysisResult,
+  Candle,
+  GainerInfo,
+  GainersWindow,
+  LifecycleState,
+  TrackedSymbol,
+  UniverseFilter,
+} from './models/types.ts';
 
 // 跟踪的币种集合，记录每个币种的历史数据
-const trackedSymbols = new Map<
-  string,
-  {
-    symbol: string;
-    lastPrice: number;
-    highestPrice: number;
-    lastUpdateTime: number;
-    signals: string[];
-    downtrend: boolean;
-    downtrendConfirmed: boolean;
-    downtrendNotified: boolean;
-  }
->();
+const trackedSymbols = new Map<string, TrackedSymbol>();
+
+// 流模式下每个币种保留的 K 线数量
+const STREAM_CANDLE_BUFFER = 100;
+
+// 是否已发送涨幅榜整体回落警报，回落结束后重置
+let rollingOverNotified = false;
 
 /**
  * 启动监控服务
@@ -46,249 +124,664 @@ const trackedSymbols = new Map<
  * 3. 持续跟踪币种价格，记录高点
  * 4. 检测上涨乏力和确认下跌的币种
  * 5. 发送警报通知
+ *
+ * @param limit 涨幅榜币种数量
+ * @param interval K 线时间间隔
+ * @param source 行情数据源
+ * @param universe 交易对范围过滤规则
  */
 export async function startMonitoring(
   limit = 50,
-  interval = '1h'
+  interval = '1h',
+  source: MarketDataSource = defaultDataSource,
+  universe: UniverseFilter = DEFAULT_UNIVERSE_FILTER
 ): Promise<void> {
   logInfo('开始监控币安合约市场涨幅榜...');
 
   try {
     // 加载历史分析结果
-    const historicalData = await loadHistoryAnalysis();
-
-    // 恢复历史跟踪状态
-    if (historicalData && historicalData.length > 0) {
-      for (const item of historicalData) {
-        if (item.symbol && item.lastPrice) {
-          trackedSymbols.set(item.symbol, {
-            symbol: item.symbol,
-            lastPrice: item.lastPrice,
-            highestPrice: item.highestPrice || item.lastPrice,
-            lastUpdateTime: item.timestamp || Date.now(),
-            signals: item.signals || [],
-            downtrend: item.downtrend || false,
-            downtrendConfirmed: item.downtrendConfirmed || false,
-            downtrendNotified: item.downtrendNotified || false,
-          });
+    await restoreTrackedSymbols();
+
+    // 获取全市场 ticker 并计算涨幅榜
+    const [tickers, metadata] = await Promise.all([
+      fetchTickers(source),
+      fetchExchangeMetadata(source),
+    ]);
+    const gainersList = rankGainers(tickers, metadata, universe, limit);
+    logInfo(`获取到 ${gainersList.length} 个涨幅榜币种`);
+
+    // 更新跟踪列表，添加新的币种，跌出涨幅榜的跟踪币种同样更新价格
+    updateTrackedSymbols(gainersList);
+    updateOffLeaderboardPrices(tickers, gainersList);
+
+    // 计算本轮的大盘环境
+    await refreshMarketContext(gainersList, source);
+
+    // 分析所有未过期的跟踪币种，跟踪状态一并提供给检测器
+    const results = await analyzeSymbols(
+      activeTrackedSymbols(),
+      interval,
+      source
+    );
+
+    // 处理分析结果
+    await processAnalysisResults(results);
+
+    // 处理长期不活跃的币种，过期记录随跟踪状态一起保存
+    cleanupInactiveSymbols();
+
+    // 保存当前跟踪状态
+    await saveTrackingState();
+
+    // 设置定时任务继续监控
+    logInfo('系统将在 1 小时后再次检查');
+    setTimeout(
+      () => startMonitoring(limit, interval, source, universe),
+      60 * 60 * 1000
+    ); // 默认1小时检查一次
+  } catch (error) {
+    logError('监控过程中出现错误:' + error);
+
+    // 根据错误类型决定重试等待时间
+    const retryDelayMs = getRetryDelay(error);
+    logInfo(`系统将在 ${Math.ceil(retryDelayMs / 60000)} 分钟后重试`);
+    setTimeout(
+      () => startMonitoring(limit, interval, source, universe),
+      retryDelayMs
+    );
+  }
+}
+
+/**
+ * 根据错误类型计算监控重试的等待时间
+ *
+ * @param error 捕获的错误
+ * @returns 等待毫秒数
+ */
+function getRetryDelay(error: unknown): number {
+  const minute = 60 * 1000;
+
+  if (error instanceof RateLimitError) {
+    // 至少等到服务端要求的时间之后，418 封禁时额外等待
+    const extra = error.status === 418 ? 10 * minute : minute;
+    return error.retryAfterMs + extra;
+  }
+  if (error instanceof MaintenanceError) {
+    logWarning('币安正在维护，暂停监控');
+    return 30 * minute;
+  }
+  if (error instanceof NetworkError) {
+    return minute;
+  }
+  if (error instanceof ResponseParseError) {
+    logWarning('响应数据格式异常，可能是接口变更或返回了错误页面');
+  }
+
+  return 5 * minute;
+}
+
+/**
+ * 启动流式监控服务
+ *
+ * 通过 WebSocket 订阅全市场 ticker 和跟踪币种的 K 线：
+ * 1. ticker 推送实时更新涨幅榜和跟踪币种的高点
+ * 2. 每根 K 线收盘时分析该币种并发送警报
+ * 3. 启用订单簿增量流时在本地维护跟踪币种的订单簿，分析时不再请求快照
+ *
+ * @param limit 涨幅榜币种数量
+ * @param interval K 线时间间隔
+ * @param source 行情数据源，用于获取初始涨幅榜、K 线、订单簿快照和交易对元数据
+ * @param universe 交易对范围过滤规则
+ * @param streamBase WebSocket 基础 URL
+ * @param depthStream 是否订阅跟踪币种的订单簿增量流
+ */
+export async function startStreaming(
+  limit = 50,
+  interval = '1h',
+  source: MarketDataSource = defaultDataSource,
+  universe: UniverseFilter = DEFAULT_UNIVERSE_FILTER,
+  streamBase = getNetworkConfig().streamBase,
+  depthStream = false
+): Promise<void> {
+  logInfo('开始流式监控币安合约市场涨幅榜...');
+
+  await restoreTrackedSymbols();
+
+  // 交易对元数据，随定时任务刷新
+  let metadata = await fetchExchangeMetadata(source);
+
+  // 各币种最新的 ticker，用于计算实时涨幅榜
+  const latestTickers = new Map<string, GainerInfo>();
+  // 各币种最近的 K 线，K 线收盘时追加
+  const candleBuffers = new Map<string, Candle[]>();
+  // 各币种的本地订单簿，仅在订阅订单簿增量流时维护
+  const orderBooks = new Map<string, LocalOrderBook>();
+
+  // 串行处理分析任务，避免并发写入跟踪状态
+  let queue = Promise.resolve();
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch((error) => {
+      logError('流式监控处理出错:' + error);
+    });
+  };
+
+  const stream = new MarketStream(
+    {
+      onTickers: (tickers) => {
+        for (const ticker of tickers) {
+          latestTickers.set(ticker.symbol, ticker);
+        }
+
+        const gainers = currentGainers();
+        for (const symbol of updateTrackedSymbols(gainers)) {
+          enqueue(() => watchSymbol(symbol));
         }
+        updateOffLeaderboardPrices(tickers, gainers);
+      },
+      onKline: ({ symbol, candle, isClosed }) => {
+        if (!isClosed) return;
+
+        enqueue(() => appendClosedCandle(symbol, candle));
+      },
+      onDepth: (update) => {
+        orderBooks.get(update.symbol)?.apply(update);
+      },
+    },
+    streamBase
+  );
+
+  // 根据最新 ticker 计算实时涨幅榜
+  const currentGainers = () =>
+    rankGainers(Array.from(latestTickers.values()), metadata, universe, limit);
+
+  // 开始跟踪一个币种：加载历史 K 线并订阅 K 线流
+  const watchSymbol = async (symbol: string) => {
+    if (candleBuffers.has(symbol)) return;
+
+    try {
+      const candles = await fetchCandles(
+        symbol,
+        interval,
+        STREAM_CANDLE_BUFFER,
+        true,
+        source
+      );
+      candleBuffers.set(symbol, candles);
+      stream.subscribe([klineStreamName(symbol, interval)]);
+
+      if (depthStream) {
+        orderBooks.set(symbol, new LocalOrderBook(symbol, source));
+        stream.subscribe([depthStreamName(symbol)]);
       }
-      logInfo(`从历史数据恢复了 ${trackedSymbols.size} 个跟踪币种`);
+    } catch (error) {
+      logWarning(`加载 ${symbol} K 线失败，暂不订阅: ${error}`);
     }
+  };
 
-    // 获取币安涨幅榜数据
-    const gainersList = await fetchGainersList(limit);
-    logInfo(`获取到 ${gainersList.length} 个涨幅榜币种`);
+  // 追加收盘的 K 线后分析币种，断线或轮换期间漏掉的 K 线先通过 REST 补齐
+  const appendClosedCandle = async (symbol: string, candle: Candle) => {
+    const candles = candleBuffers.get(symbol);
+    if (!candles) return;
 
-    // 更新跟踪列表，添加新的币种
-    for (const gainer of gainersList) {
-      if (!trackedSymbols.has(gainer.symbol)) {
-        // 新币种加入跟踪列表
-        trackedSymbols.set(gainer.symbol, {
-          symbol: gainer.symbol,
-          lastPrice: gainer.lastPrice,
-          highestPrice: gainer.lastPrice, // 初始高点为当前价格
-          lastUpdateTime: Date.now(),
-          signals: [],
-          downtrend: false,
-          downtrendConfirmed: false,
-          downtrendNotified: false,
-        });
-        logInfo(
-          `添加新币种到跟踪列表: ${gainer.symbol}, 当前价格: ${gainer.lastPrice}`
-        );
-      } else {
-        // 更新已跟踪币种的价格
-        const trackedSymbol = trackedSymbols.get(gainer.symbol)!;
-
-        // 更新高点
-        if (gainer.lastPrice > trackedSymbol.highestPrice) {
-          trackedSymbol.highestPrice = gainer.lastPrice;
-          trackedSymbol.downtrend = false; // 创新高，重置下跌标记
-          trackedSymbol.downtrendConfirmed = false;
-          trackedSymbol.downtrendNotified = false;
-          logInfo(`${gainer.symbol} 创新高: ${gainer.lastPrice}`);
+    const last = candles[candles.length - 1];
+    if (last?.closeTime === candle.closeTime) {
+      candles[candles.length - 1] = candle;
+    } else {
+      if (last && candle.openTime !== last.closeTime + 1) {
+        try {
+          const { candles: missing } = await fetchCandleRange(
+            symbol,
+            interval,
+            last.closeTime + 1,
+            candle.openTime - intervalToMs(interval),
+            source
+          );
+          candles.push(
+            ...missing.filter(
+              (c) => c.openTime > last.openTime && c.openTime < candle.openTime
+            )
+          );
+        } catch (error) {
+          logWarning(`补齐 ${symbol} 缺失的 K 线失败: ${error}`);
         }
-
-        // 更新最新价格和时间
-        trackedSymbol.lastPrice = gainer.lastPrice;
-        trackedSymbol.lastUpdateTime = Date.now();
       }
+      candles.push(candle);
+      candles.splice(0, candles.length - STREAM_CANDLE_BUFFER);
     }
 
-    // 分析所有跟踪的币种
-    const symbolsToAnalyze = Array.from(trackedSymbols.values()).map(
-      (item) => ({
-        symbol: item.symbol,
-        lastPrice: item.lastPrice,
-      })
+    await analyzeClosedCandle(symbol, candles);
+  };
+
+  // K 线收盘后分析币种
+  const analyzeClosedCandle = async (symbol: string, candles: Candle[]) => {
+    const trackedSymbol = trackedSymbols.get(symbol);
+    if (!trackedSymbol || !isActive(trackedSymbol) || candles.length < 30)
+      return;
+
+    const derivatives = await fetchDerivativesData(
+      symbol,
+      interval,
+      undefined,
+      source
+    ).catch((error) => {
+      logWarning(`获取 ${symbol} 资金费率和持仓量失败: ${error}`);
+      return undefined;
+    });
+
+    // 优先使用本地订单簿，尚未同步完成或未订阅增量流时请求快照
+    const orderBook = getSignalRules().detectors.orderBook?.enabled
+      ? orderBooks.get(symbol)?.snapshot() ??
+        (await fetchOrderBook(symbol, undefined, source).catch((error) => {
+          logWarning(`获取 ${symbol} 订单簿失败: ${error}`);
+          return undefined;
+        }))
+      : undefined;
+
+    // 主周期使用流中的 K 线，其他周期通过 REST 获取
+    const otherTimeframes = Object.keys(
+      getSignalRules().timeframeWeights
+    ).filter((tf) => tf !== interval);
+    const candlesByTimeframe = await fetchMultiTimeframeData(
+      symbol,
+      true,
+      source,
+      otherTimeframes
+    ).catch((error) => {
+      logWarning(`获取 ${symbol} 其他周期 K 线失败: ${error}`);
+      return {} as Record<string, Candle[]>;
+    });
+    candlesByTimeframe[interval] = candles;
+
+    // 流模式下逐个分析币种，相对强弱只使用 BTC 基准
+    const btcCandles = await fetchMultiTimeframeData(
+      BTC_BENCHMARK,
+      true,
+      source,
+      Object.keys(candlesByTimeframe)
+    ).catch((error) => {
+      logWarning(`获取 ${BTC_BENCHMARK} K 线失败: ${error}`);
+      return undefined;
+    });
+
+    const result = analyzeMultiTimeframe(
+      symbol,
+      candlesByTimeframe,
+      interval,
+      derivatives,
+      trackedSymbol,
+      getSignalRules(),
+      getMarketContext(),
+      buildBenchmarks(
+        symbol,
+        new Map([[symbol, candlesByTimeframe]]),
+        btcCandles
+      ),
+      orderBook
     );
+    result.price = candles[candles.length - 1].close;
+    logAnalysisResult(result);
 
-    const results = await analyzeSymbols(symbolsToAnalyze, interval);
+    await processAnalysisResults([result]);
+    await saveTrackingState();
+  };
 
-    // 处理分析结果
-    const weakBullishSymbols = []; // 上涨乏力的币种
-    const confirmedDowntrendSymbols = []; // 确认下跌的币种
+  // 使用 REST 数据初始化全市场 ticker 和涨幅榜，再由 ticker 流持续更新
+  const tickers = await fetchTickers(source);
+  for (const ticker of tickers) {
+    latestTickers.set(ticker.symbol, ticker);
+  }
+  const gainersList = currentGainers();
+  updateTrackedSymbols(gainersList);
+  updateOffLeaderboardPrices(tickers, gainersList);
+  await refreshMarketContext(gainersList, source);
 
-    for (const result of results) {
-      const trackedSymbol = trackedSymbols.get(result.symbol);
-      if (!trackedSymbol) continue;
+  for (const symbol of trackedSymbols.keys()) {
+    await watchSymbol(symbol);
+  }
 
-      // 更新信号
-      trackedSymbol.signals = result.signals;
+  stream.subscribe([TICKER_ARRAY_STREAM]);
+  stream.connect();
 
-      // 计算与高点的跌幅百分比
-      const dropPercentage =
-        ((trackedSymbol.highestPrice - trackedSymbol.lastPrice) /
-          trackedSymbol.highestPrice) *
-        100;
+  // 定期刷新元数据和大盘环境、保存状态并清理不活跃的币种
+  setInterval(() => {
+    enqueue(async () => {
+      metadata = await fetchExchangeMetadata(source);
+      await refreshMarketContext(currentGainers(), source);
 
-      // 检查是否上涨乏力（根据技术指标的反转概率决定）
-      if (
-        result.probability > 60 &&
-        trackedSymbol.lastPrice < trackedSymbol.highestPrice &&
-        !trackedSymbol.downtrend
-      ) {
-        trackedSymbol.downtrend = true;
-        weakBullishSymbols.push({
-          symbol: result.symbol,
-          probability: result.probability,
-          lastPrice: trackedSymbol.lastPrice,
-          highestPrice: trackedSymbol.highestPrice,
-          dropPercentage,
-          signals: result.signals,
-        });
+      for (const symbol of cleanupInactiveSymbols()) {
+        candleBuffers.delete(symbol);
+        orderBooks.delete(symbol);
+        stream.unsubscribe([
+          klineStreamName(symbol, interval),
+          depthStreamName(symbol),
+        ]);
       }
+      await saveTrackingState();
+    });
+  }, 60 * 60 * 1000);
+}
 
-      // 检查是否确认下跌（从高点下跌超过5%）
-      if (dropPercentage > 5 && !trackedSymbol.downtrendConfirmed) {
-        trackedSymbol.downtrendConfirmed = true;
-        if (!trackedSymbol.downtrendNotified) {
-          trackedSymbol.downtrendNotified = true;
-          confirmedDowntrendSymbols.push({
-            symbol: result.symbol,
-            probability: result.probability,
-            lastPrice: trackedSymbol.lastPrice,
-            highestPrice: trackedSymbol.highestPrice,
-            dropPercentage,
-            signals: result.signals,
-          });
-        }
-      }
-    }
+/**
+ * 计算本轮的大盘环境，涨幅榜开始整体回落时发送警报
+ *
+ * @param gainersList 涨幅榜币种
+ * @param source 行情数据源
+ */
+async function refreshMarketContext(
+  gainersList: GainerInfo[],
+  source: MarketDataSource
+): Promise<void> {
+  if (!getSignalRules().market.enabled) return;
+
+  const context = await buildMarketContext(
+    gainersList,
+    activeTrackedSymbols(),
+    source
+  );
+  setMarketContext(context);
+  logInfo(`大盘环境: ${formatMarketContext(context)}`);
+
+  if (context.rollingOver && !rollingOverNotified) {
+    await notifyMarketRollingOver(context);
+  }
+  rollingOverNotified = context.rollingOver;
+}
+
+/**
+ * 从历史分析结果恢复跟踪状态
+ */
+async function restoreTrackedSymbols(): Promise<void> {
+  const historicalData = await loadHistoryAnalysis();
 
-    // 输出上涨乏力的币种
-    if (weakBullishSymbols.length > 0) {
-      logSuccess(`检测到 ${weakBullishSymbols.length} 个上涨乏力的币种：`);
-
-      // 按照反转信号概率排序
-      weakBullishSymbols.sort((a, b) => b.probability - a.probability);
-
-      for (const symbol of weakBullishSymbols) {
-        logInfo(
-          `- ${symbol.symbol}: 反转概率 ${symbol.probability.toFixed(
-            2
-          )}%, 当前价格: ${
-            symbol.lastPrice
-          }, 距离高点: ${symbol.dropPercentage.toFixed(2)}%`
-        );
-
-        // 发送通知
-        await notify({
-          symbol: symbol.symbol,
-          probability: symbol.probability,
-          signals: symbol.signals as any[],
-          price: symbol.lastPrice,
-          message: `上涨乏力信号: 距离高点 ${
-            symbol.highestPrice
-          } 下跌 ${symbol.dropPercentage.toFixed(2)}%`,
-          highestPrice: symbol.highestPrice,
-          dropPercent: symbol.dropPercentage,
+  if (historicalData && historicalData.length > 0) {
+    for (const item of historicalData) {
+      if (item.symbol && item.lastPrice) {
+        trackedSymbols.set(item.symbol, {
+          symbol: item.symbol,
+          lastPrice: item.lastPrice,
+          highestPrice: item.highestPrice || item.lastPrice,
+          lastUpdateTime: item.timestamp || Date.now(),
+          signals: item.signals || [],
+          ...restoreLifecycle(item),
+          extensionScore: item.extensionScore,
+          depth: item.depth,
         });
       }
-    } else {
-      logInfo('没有检测到上涨乏力的币种');
     }
+    logInfo(`从历史数据恢复了 ${trackedSymbols.size} 个跟踪币种`);
+  }
+}
 
-    // 输出确认下跌的币种
-    if (confirmedDowntrendSymbols.length > 0) {
-      logSuccess(
-        `检测到 ${confirmedDowntrendSymbols.length} 个确认下跌的币种：`
-      );
+/**
+ * 根据涨幅榜更新跟踪列表
+ *
+ * @param gainersList 涨幅榜币种
+ * @returns 新加入跟踪列表或从过期恢复跟踪的币种
+ */
+function updateTrackedSymbols(gainersList: GainerInfo[]): string[] {
+  const added: string[] = [];
 
-      // 按照下跌幅度排序
-      confirmedDowntrendSymbols.sort(
-        (a, b) => b.dropPercentage - a.dropPercentage
+  for (const gainer of gainersList) {
+    const trackedSymbol = trackedSymbols.get(gainer.symbol);
+    if (!trackedSymbol) {
+      // 新币种加入跟踪列表，初始高点为当前价格
+      trackedSymbols.set(
+        gainer.symbol,
+        createTrackedSymbol(gainer.symbol, gainer.lastPrice, Date.now())
       );
+      added.push(gainer.symbol);
+      logInfo(
+        `添加新币种到跟踪列表: ${gainer.symbol}, 当前价格: ${gainer.lastPrice}`
+      );
+    } else {
+      if (
+        isActive(trackedSymbol) &&
+        gainer.lastPrice > trackedSymbol.highestPrice
+      ) {
+        logInfo(`${gainer.symbol} 创新高: ${gainer.lastPrice}`);
+      }
 
-      for (const symbol of confirmedDowntrendSymbols) {
-        logInfo(
-          `- ${symbol.symbol}: 确认下跌! 当前价格: ${
-            symbol.lastPrice
-          }, 从高点 ${symbol.highestPrice} 下跌 ${symbol.dropPercentage.toFixed(
-            2
-          )}%`
-        );
-
-        // 发送下跌确认通知
-        await notify({
-          symbol: symbol.symbol,
-          probability: 100, // 确认下跌为100%概率
-          signals: [`从高点下跌超过5%`],
-          price: symbol.lastPrice,
-          message: `⚠️ 确认下跌! 从高点 ${
-            symbol.highestPrice
-          } 下跌 ${symbol.dropPercentage.toFixed(2)}%`,
-          highestPrice: symbol.highestPrice,
-          dropPercent: symbol.dropPercentage,
-        });
+      // 更新价格和高点，创新高时由生命周期处理状态转换
+      const transitions = recordPrice(
+        trackedSymbol,
+        gainer.lastPrice,
+        Date.now()
+      );
+      if (transitions.some((t) => t.to === LifecycleState.WATCHING)) {
+        added.push(gainer.symbol);
       }
     }
+  }
 
-    // 保存当前跟踪状态
-    const trackingData = Array.from(trackedSymbols.values()).map((item) => ({
-      symbol: item.symbol,
-      lastPrice: item.lastPrice,
-      highestPrice: item.highestPrice,
-      timestamp: item.lastUpdateTime,
-      signals: item.signals,
-      downtrend: item.downtrend,
-      downtrendConfirmed: item.downtrendConfirmed,
-      downtrendNotified: item.downtrendNotified,
-    }));
-
-    await saveAnalysisResult(trackingData);
-
-    // 清理长期不活跃的币种（超过7天未更新）
-    const now = Date.now();
-    const oneWeekInMs = 7 * 24 * 60 * 60 * 1000;
-    let cleanedCount = 0;
-
-    for (const [symbol, data] of trackedSymbols.entries()) {
-      if (now - data.lastUpdateTime > oneWeekInMs) {
-        trackedSymbols.delete(symbol);
-        cleanedCount++;
-      }
+  return added;
+}
+
+/**
+ * 更新跌出涨幅榜的跟踪币种的价格和高点
+ *
+ * 冲高后跌出涨幅榜正是需要跟踪的情形，这些币种只更新价格，不刷新更新时间
+ *
+ * @param tickers 全市场或本次推送的 ticker
+ * @param gainersList 涨幅榜币种
+ */
+function updateOffLeaderboardPrices(
+  tickers: GainerInfo[],
+  gainersList: GainerInfo[]
+): void {
+  const ranked = new Set(gainersList.map((g) => g.symbol));
+
+  for (const ticker of tickers) {
+    const trackedSymbol = trackedSymbols.get(ticker.symbol);
+    if (trackedSymbol && !ranked.has(ticker.symbol)) {
+      recordPrice(trackedSymbol, ticker.lastPrice, Date.now(), false);
+    }
+  }
+}
+
+/**
+ * 获取未过期的跟踪币种
+ *
+ * @returns 跟踪币种列表
+ */
+function activeTrackedSymbols(): TrackedSymbol[] {
+  return Array.from(trackedSymbols.values()).filter(isActive);
+}
+
+/**
+ * 处理分析结果，检测上涨乏力和确认下跌的币种并发送通知
+ *
+ * @param results 分析结果列表
+ */
+async function processAnalysisResults(
+  results: AnalysisResult[]
+): Promise<void> {
+  const weakBullishSymbols = []; // 上涨乏力的币种
+  const confirmedDowntrendSymbols = []; // 确认下跌的币种
+
+  for (const result of results) {
+    const trackedSymbol = trackedSymbols.get(result.symbol);
+    if (!trackedSymbol) continue;
+
+    // 更新信号、延伸度和订单簿深度，本轮未获取订单簿时保留上一轮的深度
+    trackedSymbol.signals = result.signals;
+    trackedSymbol.extensionScore = result.extension?.score;
+    if (result.depth) {
+      trackedSymbol.depth = result.depth;
     }
 
-    if (cleanedCount > 0) {
-      logInfo(`清理了 ${cleanedCount} 个长期不活跃的币种`);
+    // 计算与高点的跌幅百分比
+    const dropPercentage = dropFromHigh(trackedSymbol);
+
+    // 由生命周期判断是否上涨乏力或确认下跌，每次进入相应状态时通知一次
+    const transitions = evaluateAnalysis(
+      trackedSymbol,
+      result.probability,
+      Date.now()
+    );
+
+    if (transitions.some((t) => t.to === LifecycleState.WEAKENING)) {
+      weakBullishSymbols.push({
+        symbol: result.symbol,
+        probability: result.probability,
+        lastPrice: trackedSymbol.lastPrice,
+        highestPrice: trackedSymbol.highestPrice,
+        dropPercentage,
+        signals: result.signals,
+        timeframes: result.timeframes,
+        supportLevels: result.supportLevels,
+        extension: result.extension,
+        depth: result.depth,
+      });
     }
 
-    // 设置定时任务继续监控
-    logInfo('系统将在 1 小时后再次检查');
-    setTimeout(() => startMonitoring(limit, interval), 60 * 60 * 1000); // 默认1小时检查一次
-  } catch (error) {
-    logError('监控过程中出现错误:' + error);
-    // 5分钟后重试
-    logInfo('系统将在 5 分钟后重试');
-    setTimeout(() => startMonitoring(limit, interval), 5 * 60 * 1000);
+    if (transitions.some((t) => t.to === LifecycleState.CONFIRMED_DOWN)) {
+      confirmedDowntrendSymbols.push({
+        symbol: result.symbol,
+        probability: result.probability,
+        lastPrice: trackedSymbol.lastPrice,
+        highestPrice: trackedSymbol.highestPrice,
+        dropPercentage,
+        signals: result.signals,
+        supportLevels: result.supportLevels,
+      });
+    }
+  }
+
+  // 输出上涨乏力的币种
+  if (weakBullishSymbols.length > 0) {
+    logSuccess(`检测到 ${weakBullishSymbols.length} 个上涨乏力的币种：`);
+
+    // 按照反转信号概率排序
+    weakBullishSymbols.sort((a, b) => b.probability - a.probability);
+
+    for (const symbol of weakBullishSymbols) {
+      logInfo(
+        `- ${symbol.symbol}: 反转概率 ${symbol.probability.toFixed(
+          2
+        )}%, 当前价格: ${
+          symbol.lastPrice
+        }, 距离高点: ${symbol.dropPercentage.toFixed(2)}%`
+      );
+
+      // 发送通知
+      await notify({
+        symbol: symbol.symbol,
+        probability: symbol.probability,
+        signals: symbol.signals as any[],
+        price: symbol.lastPrice,
+        message: `上涨乏力信号: 距离高点 ${
+          symbol.highestPrice
+        } 下跌 ${symbol.dropPercentage.toFixed(2)}%`,
+        highestPrice: symbol.highestPrice,
+        dropPercent: symbol.dropPercentage,
+        timeframes: symbol.timeframes,
+        supportLevels: symbol.supportLevels,
+        extension: symbol.extension,
+        depth: symbol.depth,
+      });
+    }
+  } else {
+    logInfo('没有检测到上涨乏力的币种');
+  }
+
+  // 输出确认下跌的币种
+  if (confirmedDowntrendSymbols.length > 0) {
+    logSuccess(`检测到 ${confirmedDowntrendSymbols.length} 个确认下跌的币种：`);
+
+    // 按照下跌幅度排序
+    confirmedDowntrendSymbols.sort(
+      (a, b) => b.dropPercentage - a.dropPercentage
+    );
+
+    for (const symbol of confirmedDowntrendSymbols) {
+      logInfo(
+        `- ${symbol.symbol}: 确认下跌! 当前价格: ${symbol.lastPrice}, 从高点 ${
+          symbol.highestPrice
+        } 下跌 ${symbol.dropPercentage.toFixed(2)}%`
+      );
+
+      // 发送下跌确认通知
+      await notify({
+        symbol: symbol.symbol,
+        probability: 100, // 确认下跌为100%概率
+        signals: [`从高点下跌达到${CONFIRM_DROP_PERCENT}%`],
+        price: symbol.lastPrice,
+        message: `⚠️ 确认下跌! 从高点 ${
+          symbol.highestPrice
+        } 下跌 ${symbol.dropPercentage.toFixed(2)}%`,
+        highestPrice: symbol.highestPrice,
+        dropPercent: symbol.dropPercentage,
+        supportLevels: symbol.supportLevels,
+      });
+    }
+  }
+}
+
+/**
+ * 保存当前跟踪状态
+ */
+async function saveTrackingState(): Promise<void> {
+  const trackingData = Array.from(trackedSymbols.values()).map((item) => ({
+    symbol: item.symbol,
+    lastPrice: item.lastPrice,
+    highestPrice: item.highestPrice,
+    timestamp: item.lastUpdateTime,
+    signals: item.signals,
+    state: item.state,
+    transitions: item.transitions,
+    extensionScore: item.extensionScore,
+    depth: item.depth,
+  }));
+
+  await saveAnalysisResult(trackingData);
+}
+
+/**
+ * 处理长期不活跃的币种（超过7天未更新的币种过期，不再分析）
+ *
+ * @returns 本次过期的币种
+ */
+function cleanupInactiveSymbols(): string[] {
+  const expired = expireInactive(trackedSymbols, Date.now());
+
+  if (expired.length > 0) {
+    logInfo(`${expired.length} 个长期不活跃的币种已过期`);
   }
+
+  return expired;
 }
 
 // 解析命令行参数
 const args = parseArgs(Deno.args, {
-  string: ['mode', 'limit', 'interval', 'start-date', 'end-date'],
+  string: [
+    'mode',
+    'limit',
+    'interval',
+    'start-date',
+    'end-date',
+    'fixtures',
+    'network',
+    'rest-base',
+    'stream-base',
+    'proxy',
+    'header',
+    'timeout',
+    'telegram-base',
+    'quote-asset',
+    'min-listing-days',
+    'min-quote-volume',
+    'exclude',
+    'gainers-window',
+    'timeframe-weights',
+    'rules',
+    'plugins',
+    'calibration-method',
+    'drop-percent',
+    'horizon-hours',
+    'sample-step',
+  ],
+  boolean: ['all-contracts', 'depth-stream'],
+  collect: ['header'],
   default: {
     mode: 'monitor',
     limit: '20',
@@ -303,17 +796,143 @@ function printUsage() {
 
 用法:
   deno run -A src/index.ts [options]
+  deno run -A src/index.ts --mode=stream [options]
   deno run -A src/index.ts --mode=backtest --start-date=2023-01-01 [options]
+  deno run -A src/index.ts --mode=calibrate --start-date=2023-01-01 [options]
 
 选项:
-  --mode              运行模式: monitor(监控) 或 backtest(回测), 默认: monitor
+  --mode              运行模式: monitor(监控), stream(流式监控), backtest(回测) 或 calibrate(训练概率校准模型), 默认: monitor
   --limit             分析时获取的币种数量, 默认: 20
   --interval          K 线间隔, 默认: 1h
-  --start-date        回测模式下的起始日期, 格式: YYYY-MM-DD
-  --end-date          回测模式下的结束日期, 格式: YYYY-MM-DD, 可选
+  --start-date        回测和校准模式下的起始日期, 格式: YYYY-MM-DD
+  --end-date          回测和校准模式下的结束日期, 格式: YYYY-MM-DD, 可选
+  --fixtures          离线夹具数据目录, 指定后从本地 JSON 读取行情而不访问网络, 可选
+  --network           网络预设: ${Object.keys(NETWORK_PRESETS).join(
+    '/'
+  )}, 默认: mainnet (环境变量 BINANCE_NETWORK)
+  --rest-base         REST API 地址, 覆盖网络预设 (环境变量 BINANCE_REST_BASE)
+  --stream-base       WebSocket 地址, 覆盖网络预设, 默认: ${BINANCE_STREAM_BASE} (环境变量 BINANCE_STREAM_BASE)
+  --proxy             HTTP(S) 代理地址, 如 http://127.0.0.1:7890 (环境变量 BINANCE_PROXY)
+  --header            附加到 REST 请求的请求头, 格式: "名称: 值", 可重复指定 (环境变量 BINANCE_HEADERS)
+  --timeout           请求超时毫秒数, 默认: 10000 (环境变量 REQUEST_TIMEOUT_MS)
+  --telegram-base     Telegram Bot API 地址, 默认: https://api.telegram.org (环境变量 TELEGRAM_API_BASE)
+  --quote-asset       只跟踪该报价资产的合约, 设为 any 表示不限制, 默认: USDT
+  --all-contracts     同时跟踪交割合约, 默认只跟踪永续合约
+  --min-listing-days  最小上线天数, 默认: 0
+  --min-quote-volume  最小 24 小时成交额, 默认: 0
+  --exclude           排除的交易对, 以逗号分隔, 如 BTCUSDT,ETHUSDT
+  --gainers-window    回测模式下重建涨幅榜的涨幅统计窗口: ${GAINERS_WINDOWS.join(
+    '/'
+  )}, 默认: 24h
+  --rules             信号规则文件 (JSON), 配置启用的检测器、参数、权重和概率计算方式, 默认使用内置规则 (与 rules/default.json 一致)
+  --plugins           自定义信号检测器插件目录, 目录中的 .ts/.js/.mjs 文件在加载规则前注册 (环境变量 SIGNAL_PLUGINS_DIR)
+  --calibration-method 校准方法: logistic(逻辑回归) 或 isotonic(保序回归), 默认: ${
+    DEFAULT_CALIBRATION_OPTIONS.method
+  }
+  --drop-percent      校准目标跌幅百分比, 默认: ${
+    DEFAULT_CALIBRATION_OPTIONS.dropPercent
+  }
+  --horizon-hours     校准观察期小时数, 默认: ${
+    DEFAULT_CALIBRATION_OPTIONS.horizonHours
+  }
+  --sample-step       校准时同一币种两次采样之间的小时数, 默认: ${
+    DEFAULT_CALIBRATION_OPTIONS.sampleStepHours
+  }
+  --depth-stream      流式监控模式下订阅跟踪币种的订单簿增量流并在本地维护订单簿, 默认每次分析时请求订单簿快照
+  --timeframe-weights 多周期分析的周期及权重, 覆盖规则文件中的权重, 格式: 周期:权重, 以逗号分隔, 默认: ${formatTimeframeWeights(
+    DEFAULT_SIGNAL_RULES.timeframeWeights
+  )}
   `);
 }
 
+/**
+ * 根据命令行参数构建网络配置覆盖项
+ */
+function parseNetworkOverrides(): NetworkOverrides {
+  const overrides: NetworkOverrides = {
+    network: args.network as string | undefined,
+    restBase: args['rest-base'] as string | undefined,
+    streamBase: args['stream-base'] as string | undefined,
+    proxy: args.proxy as string | undefined,
+    telegramApiBase: args['telegram-base'] as string | undefined,
+  };
+
+  if (args.timeout !== undefined) {
+    overrides.timeoutMs = parseInt(args.timeout as string);
+  }
+
+  const headers = (args.header ?? []) as string[];
+  if (headers.length > 0) {
+    overrides.headers = {};
+    for (const header of headers) {
+      const separator = header.indexOf(':');
+      if (separator <= 0) {
+        throw new Error(`无效的请求头: ${header}，格式应为 "名称: 值"`);
+      }
+      overrides.headers[header.slice(0, separator).trim()] = header
+        .slice(separator + 1)
+        .trim();
+    }
+  }
+
+  // 未指定的项保持 undefined，使用环境变量或预设
+  return Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * 根据命令行参数构建多周期分析权重
+ */
+function parseTimeframeWeights(): Record<string, number> | undefined {
+  const spec = args['timeframe-weights'] as string | undefined;
+  if (!spec) return undefined;
+
+  const weights: Record<string, number> = {};
+  for (const item of spec.split(',')) {
+    const [timeframe, weight] = item.split(':').map((s) => s.trim());
+    const value = parseFloat(weight);
+    if (!weight || isNaN(value) || value < 0) {
+      throw new Error(`无效的周期权重: ${item}，格式应为 "周期:权重"`);
+    }
+    // 校验时间周期格式
+    intervalToMs(timeframe);
+    weights[timeframe] = value;
+  }
+
+  return weights;
+}
+
+/**
+ * 格式化多周期分析权重
+ */
+function formatTimeframeWeights(weights: Record<string, number>): string {
+  return Object.entries(weights)
+    .map(([timeframe, weight]) => `${timeframe}:${weight}`)
+    .join(',');
+}
+
+/**
+ * 根据命令行参数构建交易对范围过滤规则
+ */
+function parseUniverseFilter(): UniverseFilter {
+  const quoteAsset = args['quote-asset'] as string | undefined;
+
+  return {
+    quoteAsset:
+      quoteAsset === 'any'
+        ? undefined
+        : quoteAsset ?? DEFAULT_UNIVERSE_FILTER.quoteAsset,
+    perpetualOnly: !args['all-contracts'],
+    minListingDays: parseFloat(args['min-listing-days'] ?? '0'),
+    minQuoteVolume: parseFloat(args['min-quote-volume'] ?? '0'),
+    exclude: ((args.exclude as string | undefined) ?? '')
+      .split(',')
+      .map((s) => s.trim().toUpperCase())
+      .filter(Boolean),
+  };
+}
+
 // 主函数
 async function main() {
   // 初始化数据目录
@@ -322,16 +941,78 @@ async function main() {
   const mode = args.mode as string;
   const limit = parseInt(args.limit as string);
   const interval = args.interval as string;
+  const fixturesDir = args.fixtures as string | undefined;
+  const universe = parseUniverseFilter();
+
+  // 先注册插件检测器，规则文件中才能配置插件检测器
+  const pluginsDir =
+    (args.plugins as string | undefined) ?? Deno.env.get('SIGNAL_PLUGINS_DIR');
+  if (pluginsDir) {
+    for (const { plugin, detectors } of await loadDetectorPlugins(pluginsDir)) {
+      logInfo(`已加载检测器插件 ${plugin}: ${detectors.join(', ')}`);
+    }
+  }
+
+  // 信号规则，监控、流式监控和回测共用；命令行指定的周期权重覆盖规则文件
+  const rulesFile = args.rules as string | undefined;
+  const rules = await loadSignalRules(rulesFile);
+  const timeframeWeights = parseTimeframeWeights() ?? rules.timeframeWeights;
+  setSignalRules({ ...rules, timeframeWeights });
 
-  logInfo(`运行模式: ${mode}`);
+  // 加载网络配置，实时数据源、行情流和 Telegram 通知共用
+  const network = loadNetworkConfig(parseNetworkOverrides());
+  setNetworkConfig(network);
+
+  // 选择行情数据源
+  const source: MarketDataSource = fixturesDir
+    ? new FixtureDataSource(fixturesDir)
+    : defaultDataSource;
+
+  // 加载已训练的概率校准模型，分析结果同时给出原始概率和校准概率；
+  // 模型的主周期或训练时的信号规则与当前不一致时不使用
+  const calibrationModel =
+    mode !== 'calibrate' ? await loadCalibrationModel() : undefined;
+  const incompatibility =
+    calibrationModel && checkModelCompatibility(calibrationModel, interval);
+  if (incompatibility) {
+    logWarning(`校准模型不适用，跳过加载: ${incompatibility}，请重新运行校准`);
+  } else if (calibrationModel) {
+    setCalibrationModel(calibrationModel);
+    logInfo(
+      `已加载概率校准模型 (${calibrationModel.method}, ${
+        calibrationModel.horizonHours
+      } 小时内下跌 ${
+        calibrationModel.dropPercent
+      }%), 验证集: ${formatReliability(
+        calibrationModel.reliability.calibrated
+      )}`
+    );
+  }
+
+  logInfo(
+    `运行模式: ${mode}, 数据源: ${source.name}, 信号规则: ${
+      rulesFile ?? '内置默认'
+    }, 周期权重: ${formatTimeframeWeights(timeframeWeights)}`
+  );
 
   if (mode === 'monitor') {
     logInfo(`开始监控涨幅榜前 ${limit} 名币种, 时间间隔: ${interval}`);
-    await startMonitoring(limit, interval);
+    await startMonitoring(limit, interval, source, universe);
+  } else if (mode === 'stream') {
+    logInfo(`开始流式监控涨幅榜前 ${limit} 名币种, 时间间隔: ${interval}`);
+    await startStreaming(
+      limit,
+      interval,
+      source,
+      universe,
+      network.streamBase,
+      args['depth-stream'] as boolean
+    );
   } else if (mode === 'backtest') {
     // 回测模式下需要指定起始日期
     const startDate = args['start-date'] as string;
     const endDate = args['end-date'] as string;
+    const gainersWindow = (args['gainers-window'] ?? '24h') as GainersWindow;
 
     if (!startDate) {
       logWarning('回测模式下必须指定 --start-date 参数');
@@ -339,12 +1020,71 @@ async function main() {
       Deno.exit(1);
     }
 
+    if (!GAINERS_WINDOWS.includes(gainersWindow)) {
+      logWarning(`不支持的涨幅统计窗口: ${gainersWindow}`);
+      printUsage();
+      Deno.exit(1);
+    }
+
     logInfo(
       `开始回测，日期范围: ${startDate}${
         endDate ? ` 至 ${endDate}` : ''
-      }, 时间间隔: ${interval}`
+      }, 时间间隔: ${interval}, 涨幅统计窗口: ${gainersWindow}`
+    );
+    await runBacktest(
+      startDate,
+      endDate,
+      interval,
+      source,
+      universe,
+      gainersWindow
     );
-    await runBacktest(startDate, endDate, interval);
+  } else if (mode === 'calibrate') {
+    const startDate = args['start-date'] as string;
+    if (!startDate) {
+      logWarning('校准模式下必须指定 --start-date 参数');
+      printUsage();
+      Deno.exit(1);
+    }
+
+    const method = (args['calibration-method'] ??
+      DEFAULT_CALIBRATION_OPTIONS.method) as 'logistic' | 'isotonic';
+    if (method !== 'logistic' && method !== 'isotonic') {
+      logWarning(`不支持的校准方法: ${method}`);
+      printUsage();
+      Deno.exit(1);
+    }
+
+    const dropPercent = parseFloat(
+      args['drop-percent'] ?? String(DEFAULT_CALIBRATION_OPTIONS.dropPercent)
+    );
+    const horizonHours = parseInt(
+      args['horizon-hours'] ?? String(DEFAULT_CALIBRATION_OPTIONS.horizonHours)
+    );
+    const sampleStepHours = parseInt(
+      args['sample-step'] ?? String(DEFAULT_CALIBRATION_OPTIONS.sampleStepHours)
+    );
+    if (!(dropPercent > 0) || !(horizonHours > 0) || !(sampleStepHours > 0)) {
+      logWarning('--drop-percent、--horizon-hours 和 --sample-step 必须为正数');
+      printUsage();
+      Deno.exit(1);
+    }
+
+    await runCalibration({
+      ...DEFAULT_CALIBRATION_OPTIONS,
+      startDate,
+      endDate:
+        (args['end-date'] as string | undefined) ??
+        format(new Date(), 'yyyy-MM-dd'),
+      interval,
+      method,
+      dropPercent,
+      horizonHours,
+      sampleStepHours,
+      limit,
+      source,
+      universe,
+    });
   } else {
     logWarning(`未知模式: ${mode}`);
     printUsage();
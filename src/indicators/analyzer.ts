@@ -1,65 +1,201 @@
 /**
  * 分析模块
  *
- * 处理各种技术指标分析和信号检测
+ * 调用注册表中的全部信号检测器 (内置和插件) 并聚合反转概率，检测器参数、权重和概率聚合方式由信号规则配置
  */
 
-import { fetchCandles } from '../api/binance.ts';
-import { AnalysisResult, Signal, GainerInfo, Candle } from '../models/types.ts';
-import { logInfo, logWarning } from '../utils/helpers.ts';
+import { fetchMultiTimeframeData } from '../api/binance.ts';
+import { MarketDataSource, defaultDataSource } from '../api/source.ts';
+import { fetchDerivativesData } from '../api/derivatives.ts';
+import { fetchOrderBook } from '../api/depth.ts';
+import { InvalidSymbolError, isSystemWideError } from '../api/errors.ts';
 import {
-  calculateRSI,
-  calculateMACD,
-  calculateBollingerBands,
-  calculateMovingAverages,
-} from './technical.ts';
+  AnalysisResult,
+  Signal,
+  SignalType,
+  GainerInfo,
+  Candle,
+  DerivativesData,
+  DetectorContext,
+  MarketContext,
+  OrderBook,
+  ProbabilityRules,
+  RelativeStrength,
+  SignalRules,
+  TimeframeAnalysis,
+  TrackedState,
+} from '../models/types.ts';
+import { intervalToMs, logInfo, logWarning } from '../utils/helpers.ts';
+import { calculateIndicatorValues } from './engine.ts';
+import {
+  findPriceLevels,
+  supportLevelsBelow,
+  toLevelOptions,
+} from './levels.ts';
+import { measureExtension, toExtensionOptions } from './extension.ts';
+import { analyzeOrderBook, toDepthOptions } from './depth.ts';
+import { getSignalRules } from './rules.ts';
+import { BUILTIN_PLUGIN, getDetectors } from './registry.ts';
+import { BREAKDOWN_SIGNALS, OVEREXTENSION_SIGNALS } from './detectors/index.ts';
+import { calibrateResult, getCalibrationModel } from './calibration.ts';
+import { getMarketContext } from './market.ts';
+import {
+  BTC_BENCHMARK,
+  buildBenchmarks,
+  buildRatioCandles,
+} from './relative.ts';
 
 /**
  * 分析多个币种的技术指标和反转信号
  *
- * @param symbols 币种列表或部分信息
+ * @param symbols 币种列表或部分信息，可附带跟踪状态 (最高价、下跌状态等)
  * @param interval K 线时间间隔
+ * @param source 行情数据源
+ * @param endTime 分析时间点，指定时使用该时间之前收盘的 K 线 (用于回测)
  * @returns 分析结果列表
  */
 export async function analyzeSymbols(
-  symbols: Array<GainerInfo | { symbol: string; lastPrice: number }>,
-  interval = '1h'
+  symbols: Array<
+    (GainerInfo | { symbol: string; lastPrice: number }) & TrackedState
+  >,
+  interval = '1h',
+  source: MarketDataSource = defaultDataSource,
+  endTime?: number
 ): Promise<AnalysisResult[]> {
   const results: AnalysisResult[] = [];
+  const timeframes = analysisTimeframes(interval);
 
+  // 先获取全部币种的 K 线，同一批币种互为同类篮子的成员
+  const candlesBySymbol = new Map<string, Record<string, Candle[]>>();
   for (const symbolInfo of symbols) {
     try {
-      const candles = await fetchCandles(symbolInfo.symbol, interval, 100);
+      const candlesByTimeframe = await fetchMultiTimeframeData(
+        symbolInfo.symbol,
+        true,
+        source,
+        timeframes,
+        endTime
+      );
 
-      if (candles.length < 30) {
+      if ((candlesByTimeframe[interval]?.length ?? 0) < 30) {
         logWarning(`${symbolInfo.symbol} 历史数据不足，跳过分析`);
         continue;
       }
 
-      const result = analyzeSymbol(symbolInfo.symbol, candles);
+      candlesBySymbol.set(symbolInfo.symbol, candlesByTimeframe);
+    } catch (error) {
+      handleSymbolError(symbolInfo.symbol, error);
+    }
+  }
+  if (candlesBySymbol.size === 0) return results;
+
+  // BTC 基准，不在本批币种中时单独获取
+  const btcCandles =
+    candlesBySymbol.get(BTC_BENCHMARK) ??
+    (await fetchMultiTimeframeData(
+      BTC_BENCHMARK,
+      true,
+      source,
+      timeframes,
+      endTime
+    ));
+
+  for (const symbolInfo of symbols) {
+    const candlesByTimeframe = candlesBySymbol.get(symbolInfo.symbol);
+    if (!candlesByTimeframe) continue;
+
+    try {
+      // 衍生品数据获取失败时仅使用技术指标分析
+      const derivatives = await fetchDerivativesData(
+        symbolInfo.symbol,
+        interval,
+        endTime,
+        source
+      ).catch((error) => {
+        if (isSystemWideError(error)) throw error;
+        logWarning(`获取 ${symbolInfo.symbol} 资金费率和持仓量失败: ${error}`);
+        return undefined;
+      });
+
+      // 订单簿没有历史数据，只在实时分析时获取
+      const orderBook =
+        endTime === undefined && getSignalRules().detectors.orderBook?.enabled
+          ? await fetchOrderBook(symbolInfo.symbol, undefined, source).catch(
+              (error) => {
+                if (isSystemWideError(error)) throw error;
+                logWarning(`获取 ${symbolInfo.symbol} 订单簿失败: ${error}`);
+                return undefined;
+              }
+            )
+          : undefined;
+
+      const result = analyzeMultiTimeframe(
+        symbolInfo.symbol,
+        candlesByTimeframe,
+        interval,
+        derivatives,
+        symbolInfo,
+        getSignalRules(),
+        getMarketContext(),
+        buildBenchmarks(symbolInfo.symbol, candlesBySymbol, btcCandles),
+        orderBook
+      );
 
       // 设置当前价格
       result.price = symbolInfo.lastPrice;
+      logAnalysisResult(result);
 
       results.push(result);
     } catch (error) {
-      logWarning(`分析 ${symbolInfo.symbol} 时出错: ${error}`);
+      handleSymbolError(symbolInfo.symbol, error);
     }
   }
 
   return results;
 }
 
+/**
+ * 处理单个币种分析过程中的错误
+ *
+ * 网络故障、限流和维护会影响所有币种，继续抛出交给调用方处理，其余错误只跳过该币种
+ *
+ * @param symbol 币种符号
+ * @param error 捕获的错误
+ */
+function handleSymbolError(symbol: string, error: unknown): void {
+  if (isSystemWideError(error)) throw error;
+
+  if (error instanceof InvalidSymbolError) {
+    logWarning(`${symbol} 交易对无效或已下架，跳过分析`);
+  } else {
+    logWarning(`分析 ${symbol} 时出错: ${error}`);
+  }
+}
+
 /**
  * 分析单个币种并检测反转信号
  *
  * @param symbol 币种符号
  * @param candles K 线数据
+ * @param derivatives 资金费率和持仓量数据，可选
+ * @param tracked 跟踪状态，提供给检测器用于评估 K 线形态和支撑位的位置等，可选
+ * @param timeframe K 线时间周期
+ * @param rules 信号规则
+ * @param market 大盘环境，用于调整反转概率
+ * @param benchmarks 相对强弱基准的 K 线，按基准名称索引，可选
+ * @param orderBook 订单簿快照，可选
  * @returns 分析结果
  */
 export function analyzeSymbol(
   symbol: string,
-  candles: Candle[]
+  candles: Candle[],
+  derivatives?: DerivativesData,
+  tracked?: TrackedState,
+  timeframe = '1h',
+  rules: SignalRules = getSignalRules(),
+  market: MarketContext | undefined = getMarketContext(),
+  benchmarks?: Record<string, Candle[]>,
+  orderBook?: OrderBook
 ): AnalysisResult {
   const result: AnalysisResult = {
     symbol,
@@ -67,131 +203,409 @@ export function analyzeSymbol(
     probability: 0,
     price: candles[candles.length - 1].close,
     timestamp: Date.now(),
-    timeframe: '1h',
+    timeframe,
   };
 
-  // 计算各种技术指标
-  const rsi = calculateRSI(candles);
-  const { upper, middle, lower } = calculateBollingerBands(candles);
-  const macd = calculateMACD(candles);
-  const { ma20, ma50, ma200 } = calculateMovingAverages(candles);
-
-  const lastCandle = candles[candles.length - 1];
-  const lastIndex = candles.length - 1;
+  // 在相对各基准的比值序列上运行同一套检测器
+  const relativeStrength = benchmarks
+    ? analyzeRelativeStrength(symbol, candles, benchmarks, timeframe, rules)
+    : [];
+  if (relativeStrength.length > 0) {
+    result.relativeStrength = relativeStrength;
+  }
 
-  // 检测各种反转信号
-  let totalWeight = 0;
+  const context: DetectorContext = {
+    symbol,
+    timeframe,
+    candles,
+    indicators: calculateIndicatorValues(candles),
+    tracked,
+    derivatives,
+    relativeStrength,
+    orderBook,
+  };
   const signals: Signal[] = [];
+  let possibleSignals = 0;
 
-  // 1. RSI 超买信号
-  if (rsi[lastIndex] > 70) {
-    const strength = Math.min(100, (rsi[lastIndex] - 70) * 2.5);
-    signals.push({
-      name: 'RSI 超买',
-      description: `RSI(14) = ${rsi[lastIndex].toFixed(2)}，超过 70 的超买区域`,
-      strength,
-    });
-    totalWeight += strength;
+  // 依赖衍生品数据、相对强弱或订单簿的检测器只在提供相应数据时参与计算
+  const available = {
+    derivatives: derivatives !== undefined,
+    relativeStrength: relativeStrength.length > 0,
+    orderBook: orderBook !== undefined,
+  };
+
+  for (const { detector, plugin } of getDetectors()) {
+    const rule = rules.detectors[detector.id] ?? detector.defaultRule;
+    if (!rule.enabled) continue;
+    if (detector.requires?.some((requirement) => !available[requirement])) {
+      continue;
+    }
+
+    possibleSignals += detector.maxSignals ?? 1;
+    let detected: Signal[];
+    try {
+      detected = detector.detect(context, rule.params);
+    } catch (error) {
+      // 插件检测器出错时只跳过该检测器，内置检测器的错误照常抛出
+      if (plugin === BUILTIN_PLUGIN) throw error;
+      logWarning(
+        `插件 ${plugin} 的检测器 ${detector.id} 分析 ${symbol} 时出错: ${error}`
+      );
+      continue;
+    }
+
+    for (const signal of detected.slice(0, detector.maxSignals ?? 1)) {
+      signals.push({
+        ...signal,
+        strength: Math.min(100, signal.strength * rule.weight),
+        detector: detector.id,
+        plugin,
+      });
+    }
   }
 
-  // 2. 价格接近布林带上轨
-  const priceToUpperRatio =
-    (lastCandle.close - middle[lastIndex]) /
-    (upper[lastIndex] - middle[lastIndex]);
-  if (priceToUpperRatio > 0.8) {
-    const strength = Math.min(50, priceToUpperRatio * 40);
-    signals.push({
-      name: '接近布林带上轨',
-      description: `价格处于布林带上方 ${(priceToUpperRatio * 100).toFixed(
-        2
-      )}% 位置`,
-      strength,
-    });
-    totalWeight += strength;
+  // 计算反转概率
+  if (signals.length > 0) {
+    result.probability = aggregateProbability(
+      signals,
+      possibleSignals,
+      rules.probability
+    );
+    result.signals = signals;
+
+    // 大盘环境只放大或削弱已有信号，不单独产生概率
+    if (market && rules.market.enabled) {
+      result.marketModifier = market.modifier;
+      result.probability = Math.max(
+        0,
+        Math.min(100, result.probability + market.modifier)
+      );
+    }
   }
 
-  // 3. MACD 死叉信号
-  if (
-    macd.MACD[lastIndex] < macd.signal[lastIndex] &&
-    macd.MACD[lastIndex - 1] > macd.signal[lastIndex - 1]
-  ) {
-    signals.push({
-      name: 'MACD 死叉',
-      description: 'MACD 线下穿信号线，表明动能减弱',
-      strength: 90,
-    });
-    totalWeight += 90;
+  // 列出价格下方的支撑位，供警报参考
+  const levelOptions = toLevelOptions(rules.detectors.supportBreak?.params);
+  result.supportLevels = supportLevelsBelow(
+    findPriceLevels(candles, tracked?.highestPrice, levelOptions),
+    result.price,
+    levelOptions
+  );
+
+  // 延伸度与冲顶衰竭检测器使用同一组参数，供警报和跟踪状态展示
+  result.extension = measureExtension(
+    candles,
+    toExtensionOptions(rules.detectors.blowOffTop?.params)
+  );
+
+  // 订单簿深度与订单簿检测器使用同一组参数，流动性变化相对跟踪状态中上一轮的结果计算
+  if (orderBook) {
+    result.depth = analyzeOrderBook(
+      orderBook,
+      toDepthOptions(rules.detectors.orderBook?.params),
+      tracked?.depth
+    );
   }
 
-  // 4. 移动平均线死叉
-  if (
-    ma20[lastIndex] < ma50[lastIndex] &&
-    ma20[lastIndex - 1] > ma50[lastIndex - 1]
-  ) {
-    signals.push({
-      name: '均线死叉',
-      description: '20 日均线下穿 50 日均线，形成死叉',
-      strength: 70,
+  return result;
+}
+
+/**
+ * 在币种相对各基准的比值 K 线上运行同一套检测器
+ *
+ * 比值序列不使用衍生品数据和大盘环境，比值 K 线不足 30 根的基准跳过
+ *
+ * @param symbol 币种符号
+ * @param candles 币种的 K 线
+ * @param benchmarks 基准的 K 线，按基准名称索引
+ * @param timeframe K 线时间周期
+ * @param rules 信号规则
+ * @returns 各基准的相对强弱
+ */
+function analyzeRelativeStrength(
+  symbol: string,
+  candles: Candle[],
+  benchmarks: Record<string, Candle[]>,
+  timeframe: string,
+  rules: SignalRules
+): RelativeStrength[] {
+  return Object.entries(benchmarks).flatMap(([benchmark, benchmarkCandles]) => {
+    const ratio = buildRatioCandles(candles, benchmarkCandles);
+    if (ratio.length < 30) return [];
+
+    const analysis = analyzeSymbol(
+      `${symbol}/${benchmark}`,
+      ratio,
+      undefined,
+      undefined,
+      timeframe,
+      rules,
+      undefined
+    );
+    let highIndex = 0;
+    ratio.forEach((c, i) => {
+      if (c.high >= ratio[highIndex].high) highIndex = i;
     });
-    totalWeight += 70;
-  }
 
-  // 5. 价格跌破重要支撑位 (MA200)
-  if (
-    lastCandle.close < ma200[lastIndex] &&
-    candles[lastIndex - 1].close > ma200[lastIndex - 1]
-  ) {
+    return [
+      {
+        benchmark,
+        barsSinceHigh: ratio.length - 1 - highIndex,
+        changePercent:
+          (ratio[ratio.length - 1].close / ratio[0].open - 1) * 100,
+        probability: analysis.probability,
+        signals: analysis.signals,
+      },
+    ];
+  });
+}
+
+/**
+ * 根据检测到的信号计算反转概率
+ *
+ * @param signals 检测到的信号
+ * @param possibleSignals 已启用的检测器可能产生的信号总数
+ * @param rules 概率聚合方式
+ * @returns 反转概率 (0-100)
+ */
+function aggregateProbability(
+  signals: Signal[],
+  possibleSignals: number,
+  rules: ProbabilityRules
+): number {
+  const strengths = signals.map((s) => s.strength);
+
+  // coverage: 信号占比 × 信号强度平均值 × 放大倍数；strongest: 最强信号的强度
+  const baseProb =
+    rules.method === 'strongest'
+      ? Math.max(...strengths)
+      : (signals.length / possibleSignals) *
+        (strengths.reduce((sum, s) => sum + s, 0) / signals.length) *
+        rules.strengthMultiplier;
+
+  // 多个信号叠加时，从第二个信号起每个信号增加额外概率
+  const signalCountBonus = Math.min(
+    rules.maxSignalBonus,
+    (signals.length - 1) * rules.bonusPerSignal
+  );
+
+  return Math.min(100, baseProb + signalCountBonus);
+}
+
+/**
+ * 综合多个时间周期分析单个币种
+ *
+ * 每个周期独立检测信号并计算概率，按权重加权平均；
+ * 低周期出现破位信号而更高周期处于超涨状态时额外增加概率。
+ * 衍生品数据和订单簿只用于主周期
+ *
+ * @param symbol 币种符号
+ * @param candlesByTimeframe 各时间周期的 K 线数据
+ * @param interval 主周期
+ * @param derivatives 资金费率和持仓量数据，可选
+ * @param tracked 跟踪状态，可选
+ * @param rules 信号规则，包含各时间周期的权重
+ * @param market 大盘环境，用于调整各周期的反转概率
+ * @param benchmarks 各时间周期的相对强弱基准 K 线，可选
+ * @param orderBook 订单簿快照，可选
+ * @returns 包含各周期明细的分析结果
+ */
+export function analyzeMultiTimeframe(
+  symbol: string,
+  candlesByTimeframe: Record<string, Candle[]>,
+  interval: string,
+  derivatives?: DerivativesData,
+  tracked?: TrackedState,
+  rules: SignalRules = getSignalRules(),
+  market: MarketContext | undefined = getMarketContext(),
+  benchmarks?: Record<string, Record<string, Candle[]>>,
+  orderBook?: OrderBook
+): AnalysisResult {
+  const weights = rules.timeframeWeights;
+  const primary = analyzeSymbol(
+    symbol,
+    candlesByTimeframe[interval],
+    derivatives,
+    tracked,
+    interval,
+    rules,
+    market,
+    benchmarks?.[interval],
+    orderBook
+  );
+
+  // 按周期从短到长排列，数据不足的周期不参与计算
+  const breakdown: TimeframeAnalysis[] = analysisTimeframes(interval, weights)
+    .filter((tf) => (candlesByTimeframe[tf]?.length ?? 0) >= 30)
+    .map((tf) => {
+      const analysis =
+        tf === interval
+          ? primary
+          : analyzeSymbol(
+              symbol,
+              candlesByTimeframe[tf],
+              undefined,
+              tracked,
+              tf,
+              rules,
+              market,
+              benchmarks?.[tf]
+            );
+      return {
+        timeframe: tf,
+        weight: timeframeWeight(tf, interval, weights),
+        probability: analysis.probability,
+        signals: analysis.signals,
+      };
+    })
+    .sort((a, b) => intervalToMs(a.timeframe) - intervalToMs(b.timeframe));
+  const totalWeight = breakdown.reduce((sum, tf) => sum + tf.weight, 0);
+  const weightedProbability =
+    totalWeight > 0
+      ? breakdown.reduce((sum, tf) => sum + tf.probability * tf.weight, 0) /
+        totalWeight
+      : primary.probability;
+
+  // 低周期破位与高周期超涨共振
+  const confluences: string[] = [];
+  breakdown.forEach((lower, i) => {
+    const breakdownSignal = lower.signals.find((s) =>
+      BREAKDOWN_SIGNALS.includes(s.name)
+    );
+    if (!breakdownSignal) return;
+
+    for (const higher of breakdown.slice(i + 1)) {
+      const overextension = higher.signals.find((s) =>
+        OVEREXTENSION_SIGNALS.includes(s.name)
+      );
+      if (overextension) {
+        confluences.push(
+          `${lower.timeframe} ${breakdownSignal.name} + ${higher.timeframe} ${overextension.name}`
+        );
+      }
+    }
+  });
+
+  const signals = [...primary.signals];
+  const confluenceBonus = Math.min(
+    rules.probability.maxConfluenceBonus,
+    confluences.length * rules.probability.confluenceBonus
+  );
+  if (confluences.length > 0) {
     signals.push({
-      name: '跌破长期支撑',
-      description: '价格跌破 200 日均线支撑位',
-      strength: 80,
+      name: SignalType.TIMEFRAME_CONFLUENCE,
+      description: `低周期破位与高周期超涨共振: ${confluences.join('；')}`,
+      strength: Math.min(100, 50 + confluences.length * 10),
     });
-    totalWeight += 80;
   }
 
-  // 6. 量价分析（放量滞涨或缩量上涨）
-  if (
-    lastCandle.volume > candles[lastIndex - 1].volume * 1.5 &&
-    lastCandle.close <= candles[lastIndex - 1].close * 1.01
-  ) {
-    signals.push({
-      name: '放量滞涨',
-      description: '成交量增加 50% 以上，但价格涨幅不足 1%',
-      strength: 75,
-    });
-    totalWeight += 75;
+  const result: AnalysisResult = {
+    ...primary,
+    signals,
+    probability: Math.min(100, weightedProbability + confluenceBonus),
+    timeframes: breakdown,
+  };
+
+  // 校准模型由只使用 K 线的分析结果训练，校准时按同一方式重新计算，不受其他输入的影响
+  if (getCalibrationModel()) {
+    const candlesOnly =
+      derivatives || tracked || market || benchmarks || orderBook
+        ? analyzeCandlesOnly(symbol, candlesByTimeframe, interval, rules)
+        : result;
+    result.calibratedProbability = calibrateResult(candlesOnly);
   }
 
-  // 计算反转概率
-  if (signals.length > 0) {
-    // 定义所有可能的信号总数（当前有6种信号）
-    const TOTAL_POSSIBLE_SIGNALS = 6;
-
-    // 计算信号强度加权平均
-    const avgStrength = totalWeight / signals.length;
-
-    // 基础概率 = 信号数量 * 信号强度加权平均 * 2
-    // 乘以 2 是为了提高基础概率的范围
-    let baseProb = (signals.length / TOTAL_POSSIBLE_SIGNALS) * avgStrength * 2;
-
-    // 根据信号数量增加额外概率
-    // 当有多个信号时，增加额外概率以反映信号叠加效应
-    let signalCountBonus = 0;
-    if (signals.length >= 2) {
-      // 每多一个信号增加 15% 概率，但最多增加 30%
-      signalCountBonus = Math.min(30, (signals.length - 1) * 15);
-    }
+  return result;
+}
 
-    // 最终概率 = 基础概率 + 信号数量奖励
-    result.probability = Math.min(100, baseProb + signalCountBonus);
+/**
+ * 只使用 K 线综合多个时间周期分析单个币种
+ *
+ * 不使用衍生品数据、跟踪状态、大盘环境、相对强弱基准和订单簿。
+ * 这些输入无法在历史采样时完整重建，校准训练和实时校准都使用该结果
+ *
+ * @param symbol 币种符号
+ * @param candlesByTimeframe 各时间周期的 K 线数据
+ * @param interval 主周期
+ * @param rules 信号规则
+ * @returns 包含各周期明细的分析结果
+ */
+export function analyzeCandlesOnly(
+  symbol: string,
+  candlesByTimeframe: Record<string, Candle[]>,
+  interval: string,
+  rules: SignalRules = getSignalRules()
+): AnalysisResult {
+  return analyzeMultiTimeframe(
+    symbol,
+    candlesByTimeframe,
+    interval,
+    undefined,
+    undefined,
+    rules,
+    undefined
+  );
+}
 
-    result.signals = signals;
-    logInfo(
-      `${symbol} 检测到 ${
-        signals.length
-      } 个反转信号，总概率: ${result.probability.toFixed(2)}%`
-    );
+/**
+ * 输出分析结果摘要
+ *
+ * @param result 分析结果
+ */
+export function logAnalysisResult(result: AnalysisResult): void {
+  const breakdown = result.timeframes ?? [];
+  if (
+    result.signals.length === 0 &&
+    !breakdown.some((tf) => tf.signals.length > 0)
+  ) {
+    return;
   }
 
-  return result;
+  const calibrated =
+    result.calibratedProbability !== undefined
+      ? `，校准概率: ${result.calibratedProbability.toFixed(2)}%`
+      : '';
+  const market = result.marketModifier
+    ? `，大盘调整: ${result.marketModifier > 0 ? '+' : ''}${
+        result.marketModifier
+      }`
+    : '';
+  const extension = result.extension?.grade
+    ? `，延伸度: ${result.extension.score.toFixed(0)}`
+    : '';
+  logInfo(
+    `${result.symbol} 检测到 ${
+      result.signals.length
+    } 个反转信号，总概率: ${result.probability.toFixed(
+      2
+    )}%${calibrated}${market}${extension} (${breakdown
+      .map((tf) => `${tf.timeframe} ${tf.probability.toFixed(0)}%`)
+      .join(', ')})`
+  );
+}
+
+/**
+ * 获取参与分析的时间周期，主周期总是包含在内
+ *
+ * @param interval 主周期
+ * @param weights 各时间周期的权重
+ * @returns 时间周期列表
+ */
+function analysisTimeframes(
+  interval: string,
+  weights = getSignalRules().timeframeWeights
+): string[] {
+  const timeframes = Object.keys(weights).filter((tf) => weights[tf] > 0);
+  return timeframes.includes(interval) ? timeframes : [interval, ...timeframes];
+}
+
+/**
+ * 获取时间周期的权重，未配置的主周期使用最大的已配置权重
+ */
+function timeframeWeight(
+  timeframe: string,
+  interval: string,
+  weights: Record<string, number>
+): number {
+  if (timeframe in weights) return weights[timeframe];
+  return timeframe === interval ? Math.max(0, ...Object.values(weights)) : 0;
 }
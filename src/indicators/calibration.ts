@@ -0,0 +1,478 @@
+/**
+ * 概率校准模块
+ *
+ * 原始反转概率是各信号强度的加权和，并不代表真实的下跌概率。
+ * 校准模型根据历史样本 (分析结果 + 后续价格走势) 拟合逻辑回归或保序回归，
+ * 把原始概率和信号向量映射为观察期内出现目标跌幅的概率
+ */
+
+import {
+  AnalysisResult,
+  CalibrationModel,
+  CalibrationSample,
+  Candle,
+  ReliabilityBin,
+  ReliabilityStats,
+  SignalRules,
+} from '../models/types.ts';
+import { getSignalRules } from './rules.ts';
+import { RegisteredDetector, getDetectors } from './registry.ts';
+
+// 默认目标跌幅和观察期
+export const DEFAULT_DROP_PERCENT = 5;
+export const DEFAULT_HORIZON_HOURS = 24;
+
+// 信号在训练样本中至少出现的次数，过于稀少的信号不作为逻辑回归特征
+const MIN_FEATURE_OCCURRENCES = 5;
+
+// 逻辑回归的训练参数
+const LOGISTIC_ITERATIONS = 2000;
+const LOGISTIC_LEARNING_RATE = 0.5;
+const LOGISTIC_L2 = 0.001;
+
+// 按时间顺序划分，最后该比例的样本作为验证集
+const VALIDATION_RATIO = 0.3;
+
+// 可靠性曲线的区间数
+const RELIABILITY_BINS = 10;
+
+// 当前加载的校准模型
+let activeModel: CalibrationModel | undefined;
+
+/**
+ * 获取当前加载的校准模型
+ *
+ * @returns 校准模型，未加载时返回 undefined
+ */
+export function getCalibrationModel(): CalibrationModel | undefined {
+  return activeModel;
+}
+
+/**
+ * 设置当前使用的校准模型
+ *
+ * @param model 校准模型，传入 undefined 表示不使用校准
+ */
+export function setCalibrationModel(model?: CalibrationModel): void {
+  activeModel = model;
+}
+
+/**
+ * 计算信号规则和已注册检测器的指纹
+ *
+ * 只包含影响只使用 K 线的分析结果的部分：检测器列表、检测器规则、概率聚合方式和周期权重
+ *
+ * @param rules 信号规则
+ * @param detectors 已注册的检测器
+ * @returns 指纹 (FNV-1a 32 位哈希的十六进制表示)
+ */
+export function rulesFingerprint(
+  rules: SignalRules = getSignalRules(),
+  detectors: RegisteredDetector[] = getDetectors()
+): string {
+  const text = stableStringify({
+    detectors: detectors.map((d) => `${d.plugin}:${d.detector.id}`),
+    detectorRules: rules.detectors,
+    probability: rules.probability,
+    timeframeWeights: rules.timeframeWeights,
+  });
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 检查校准模型是否适用于当前的主周期和信号规则
+ *
+ * @param model 校准模型
+ * @param interval 当前的主周期
+ * @param fingerprint 当前信号规则和检测器的指纹
+ * @returns 不适用的原因，适用时返回 undefined
+ */
+export function checkModelCompatibility(
+  model: CalibrationModel,
+  interval: string,
+  fingerprint = rulesFingerprint()
+): string | undefined {
+  if (model.interval !== interval) {
+    return `模型主周期 ${model.interval} 与当前主周期 ${interval} 不一致`;
+  }
+  if (model.rulesFingerprint === undefined) {
+    return '模型未记录训练时的信号规则';
+  }
+  if (model.rulesFingerprint !== fingerprint) {
+    return '模型训练时的信号规则或检测器与当前不一致';
+  }
+  return undefined;
+}
+
+/**
+ * 提取分析结果的信号向量
+ *
+ * @param result 分析结果
+ * @returns 各信号名称对应的强度 (0-1)，同名信号取最大值
+ */
+export function extractFeatures(
+  result: AnalysisResult
+): Record<string, number> {
+  const features: Record<string, number> = {};
+  for (const signal of result.signals) {
+    features[signal.name] = Math.max(
+      features[signal.name] ?? 0,
+      signal.strength / 100
+    );
+  }
+  return features;
+}
+
+/**
+ * 计算分析结果的校准概率
+ *
+ * @param result 分析结果
+ * @param model 校准模型
+ * @returns 校准概率 (0-100)，没有校准模型时返回 undefined
+ */
+export function calibrateResult(
+  result: AnalysisResult,
+  model = activeModel
+): number | undefined {
+  if (!model) return undefined;
+  return predict(model, result.probability, extractFeatures(result)) * 100;
+}
+
+/**
+ * 根据后续价格走势标记样本
+ *
+ * @param candles 按时间升序排列的小时 K 线
+ * @param time 分析时间
+ * @param price 分析时的价格
+ * @param dropPercent 目标跌幅百分比
+ * @param horizonHours 观察期小时数
+ * @returns 观察期内最低价是否跌破目标价，观察期数据不完整时返回 undefined
+ */
+export function labelOutcome(
+  candles: Candle[],
+  time: number,
+  price: number,
+  dropPercent = DEFAULT_DROP_PERCENT,
+  horizonHours = DEFAULT_HORIZON_HOURS
+): boolean | undefined {
+  const horizonEnd = time + horizonHours * 60 * 60 * 1000;
+  const forward = candles.filter(
+    (c) => c.openTime >= time && c.openTime < horizonEnd
+  );
+  if (forward.length < horizonHours) return undefined;
+
+  const target = price * (1 - dropPercent / 100);
+  return forward.some((c) => c.low <= target);
+}
+
+/**
+ * 训练校准模型
+ *
+ * 按时间顺序划分训练集和验证集，在验证集上统计原始概率和校准概率的可靠性，
+ * 再使用全部样本重新拟合作为最终模型
+ *
+ * @param samples 校准样本
+ * @param method 校准方法
+ * @param meta 样本的主周期、信号规则指纹、目标跌幅和观察期
+ * @returns 校准模型
+ */
+export function trainCalibrationModel(
+  samples: CalibrationSample[],
+  method: CalibrationModel['method'],
+  meta: Pick<
+    CalibrationModel,
+    'interval' | 'rulesFingerprint' | 'dropPercent' | 'horizonHours'
+  >
+): CalibrationModel {
+  if (samples.length < 10) {
+    throw new Error(`校准样本不足: ${samples.length} 个，至少需要 10 个`);
+  }
+
+  const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  const splitIndex = Math.floor(sorted.length * (1 - VALIDATION_RATIO));
+  const training = sorted.slice(0, splitIndex);
+  const validation = sorted.slice(splitIndex);
+
+  const fit = (data: CalibrationSample[]) =>
+    method === 'logistic' ? fitLogistic(data) : fitIsotonic(data);
+
+  const base = {
+    method,
+    trainedAt: new Date().toISOString(),
+    ...meta,
+  };
+  const holdoutModel = { method, ...fit(training) };
+  const labels = validation.map((s) => s.label);
+
+  return {
+    ...base,
+    ...fit(sorted),
+    sampleCount: sorted.length,
+    reliability: {
+      raw: reliabilityStats(
+        validation.map((s) => s.probability / 100),
+        labels
+      ),
+      calibrated: reliabilityStats(
+        validation.map((s) => predict(holdoutModel, s.probability, s.features)),
+        labels
+      ),
+    },
+  };
+}
+
+/**
+ * 统计预测概率的可靠性
+ *
+ * @param predictions 预测概率 (0-1)
+ * @param labels 实际结果
+ * @param binCount 可靠性曲线的区间数
+ * @returns 可靠性统计
+ */
+export function reliabilityStats(
+  predictions: number[],
+  labels: boolean[],
+  binCount = RELIABILITY_BINS
+): ReliabilityStats {
+  const n = predictions.length;
+  const outcomes: number[] = labels.map((label) => (label ? 1 : 0));
+
+  const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    meanPredicted: 0,
+    observedRate: 0,
+  }));
+
+  let brier = 0;
+  let logLoss = 0;
+  predictions.forEach((p, i) => {
+    const y = outcomes[i];
+    const clipped = Math.min(1 - 1e-6, Math.max(1e-6, p));
+    brier += (p - y) ** 2;
+    logLoss -= y * Math.log(clipped) + (1 - y) * Math.log(1 - clipped);
+
+    const bin = bins[Math.min(binCount - 1, Math.floor(p * binCount))];
+    bin.count++;
+    bin.meanPredicted += p;
+    bin.observedRate += y;
+  });
+
+  let calibrationError = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.meanPredicted /= bin.count;
+    bin.observedRate /= bin.count;
+    calibrationError +=
+      (bin.count / n) * Math.abs(bin.meanPredicted - bin.observedRate);
+  }
+
+  return {
+    sampleCount: n,
+    positiveRate: n > 0 ? outcomes.reduce((sum, y) => sum + y, 0) / n : 0,
+    brierScore: n > 0 ? brier / n : 0,
+    logLoss: n > 0 ? logLoss / n : 0,
+    expectedCalibrationError: calibrationError,
+    bins: bins.filter((bin) => bin.count > 0),
+  };
+}
+
+/**
+ * 格式化可靠性统计
+ *
+ * @param stats 可靠性统计
+ * @returns 单行摘要
+ */
+export function formatReliability(stats: ReliabilityStats): string {
+  return `样本 ${stats.sampleCount}, 实际下跌比例 ${(
+    stats.positiveRate * 100
+  ).toFixed(1)}%, Brier ${stats.brierScore.toFixed(
+    4
+  )}, LogLoss ${stats.logLoss.toFixed(4)}, ECE ${(
+    stats.expectedCalibrationError * 100
+  ).toFixed(2)}%`;
+}
+
+/**
+ * 使用校准模型预测下跌概率
+ *
+ * @param model 校准模型
+ * @param probability 原始反转概率 (0-100)
+ * @param features 信号向量
+ * @returns 校准概率 (0-1)
+ */
+function predict(
+  model: Pick<CalibrationModel, 'method' | 'logistic' | 'isotonic'>,
+  probability: number,
+  features: Record<string, number>
+): number {
+  if (model.method === 'logistic' && model.logistic) {
+    const { features: names, weights, bias } = model.logistic;
+    const x = featureVector(names, probability, features);
+    return sigmoid(x.reduce((sum, v, i) => sum + v * weights[i], bias));
+  }
+
+  if (model.method === 'isotonic' && model.isotonic) {
+    return interpolate(
+      model.isotonic.scores,
+      model.isotonic.probabilities,
+      probability
+    );
+  }
+
+  throw new Error(`校准模型缺少 ${model.method} 参数`);
+}
+
+/**
+ * 按键名排序序列化，键的顺序不影响结果
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * 拟合逻辑回归 (带 L2 正则的批量梯度下降)
+ *
+ * 特征为原始概率和各信号强度，均缩放到 0-1
+ */
+function fitLogistic(
+  samples: CalibrationSample[]
+): Pick<CalibrationModel, 'logistic'> {
+  const occurrences = new Map<string, number>();
+  for (const sample of samples) {
+    for (const name of Object.keys(sample.features)) {
+      occurrences.set(name, (occurrences.get(name) ?? 0) + 1);
+    }
+  }
+
+  const names = [
+    'probability',
+    ...Array.from(occurrences.entries())
+      .filter(([, count]) => count >= MIN_FEATURE_OCCURRENCES)
+      .map(([name]) => name)
+      .sort(),
+  ];
+  const xs = samples.map((s) =>
+    featureVector(names, s.probability, s.features)
+  );
+  const ys = samples.map((s) => (s.label ? 1 : 0));
+
+  // 截距从样本中的实际下跌比例开始
+  const positiveRate = Math.min(
+    1 - 1e-3,
+    Math.max(1e-3, ys.reduce((sum: number, y) => sum + y, 0) / ys.length)
+  );
+  let bias = Math.log(positiveRate / (1 - positiveRate));
+  const weights: number[] = new Array(names.length).fill(0);
+
+  for (let iteration = 0; iteration < LOGISTIC_ITERATIONS; iteration++) {
+    const gradient: number[] = new Array(names.length).fill(0);
+    let biasGradient = 0;
+
+    xs.forEach((x, i) => {
+      const error =
+        sigmoid(x.reduce((sum, v, j) => sum + v * weights[j], bias)) - ys[i];
+      biasGradient += error;
+      x.forEach((v, j) => (gradient[j] += error * v));
+    });
+
+    bias -= (LOGISTIC_LEARNING_RATE * biasGradient) / xs.length;
+    weights.forEach((w, j) => {
+      weights[j] -=
+        LOGISTIC_LEARNING_RATE * (gradient[j] / xs.length + LOGISTIC_L2 * w);
+    });
+  }
+
+  return { logistic: { features: names, weights, bias } };
+}
+
+/**
+ * 拟合保序回归 (Pool Adjacent Violators 算法)
+ *
+ * 只使用原始概率，得到单调不减的原始概率 → 下跌概率映射
+ */
+function fitIsotonic(
+  samples: CalibrationSample[]
+): Pick<CalibrationModel, 'isotonic'> {
+  const sorted = [...samples].sort((a, b) => a.probability - b.probability);
+
+  // 每个区块记录原始概率之和、下跌样本数和样本数
+  const blocks: Array<{ score: number; positives: number; count: number }> = [];
+  for (const sample of sorted) {
+    blocks.push({
+      score: sample.probability,
+      positives: sample.label ? 1 : 0,
+      count: 1,
+    });
+
+    // 合并破坏单调性的相邻区块
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.positives / previous.count < last.positives / last.count) {
+        break;
+      }
+      blocks.pop();
+      previous.score += last.score;
+      previous.positives += last.positives;
+      previous.count += last.count;
+    }
+  }
+
+  return {
+    isotonic: {
+      scores: blocks.map((b) => b.score / b.count),
+      probabilities: blocks.map((b) => b.positives / b.count),
+    },
+  };
+}
+
+/**
+ * 构建逻辑回归的特征向量
+ */
+function featureVector(
+  names: string[],
+  probability: number,
+  features: Record<string, number>
+): number[] {
+  return names.map((name) =>
+    name === 'probability' ? probability / 100 : features[name] ?? 0
+  );
+}
+
+/**
+ * 在分段点之间线性插值，超出范围时取端点值
+ */
+function interpolate(xs: number[], ys: number[], x: number): number {
+  if (x <= xs[0]) return ys[0];
+  if (x >= xs[xs.length - 1]) return ys[ys.length - 1];
+
+  const i = xs.findIndex((value) => value > x);
+  const ratio = (x - xs[i - 1]) / (xs[i] - xs[i - 1]);
+  return ys[i - 1] + ratio * (ys[i] - ys[i - 1]);
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
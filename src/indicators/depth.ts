@@ -0,0 +1,220 @@
+/**
+ * 订单簿深度分析模块
+ *
+ * 统计中间价上下若干百分比区间内的买卖挂单额和失衡程度，识别挂单额远大于附近价位的挂单墙，
+ * 并与上一轮的分析结果比较流动性变化。顶部附近常见上方卖墙堆积、下方买盘变薄
+ */
+
+import {
+  DepthAnalysis,
+  DepthBand,
+  DepthOptions,
+  LiquidityWall,
+  OrderBook,
+  OrderBookLevel,
+} from '../models/types.ts';
+
+/**
+ * 默认订单簿深度分析参数
+ */
+export const DEFAULT_DEPTH_OPTIONS: DepthOptions = {
+  nearBandPercent: 0.5,
+  farBandPercent: 2,
+  imbalanceThreshold: 0.3,
+  wallMultiple: 5,
+  thinningPercent: 30,
+};
+
+// 每侧最多保留的挂单墙数量
+const MAX_WALLS_PER_SIDE = 3;
+
+/**
+ * 分析订单簿深度
+ *
+ * 订单簿档数覆盖不到区间边界时只统计已有的档位
+ *
+ * @param book 订单簿快照
+ * @param options 分析参数
+ * @param previous 上一轮的分析结果，用于计算流动性变化
+ * @returns 分析结果，订单簿一侧为空时为 undefined
+ */
+export function analyzeOrderBook(
+  book: OrderBook,
+  options: DepthOptions = DEFAULT_DEPTH_OPTIONS,
+  previous?: DepthAnalysis
+): DepthAnalysis | undefined {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (bestBid === undefined || bestAsk === undefined) return undefined;
+
+  const midPrice = (bestBid + bestAsk) / 2;
+  const bands = [options.nearBandPercent, options.farBandPercent].map(
+    (percent) => depthBand(book, midPrice, percent)
+  );
+  const far = bands[bands.length - 1];
+
+  const walls = [
+    ...findWalls(book.bids, 'bid', midPrice, options),
+    ...findWalls(book.asks, 'ask', midPrice, options),
+  ].sort((a, b) => b.multiple - a.multiple);
+
+  // 区间设置变化后与上一轮不可比
+  const previousFar = previous?.bands[previous.bands.length - 1];
+  const comparable =
+    previousFar !== undefined &&
+    previousFar.percent === far.percent &&
+    previous!.timestamp < book.timestamp;
+
+  return {
+    timestamp: book.timestamp,
+    midPrice,
+    spreadPercent: ((bestAsk - bestBid) / midPrice) * 100,
+    bands,
+    walls,
+    bidChangePercent: comparable
+      ? changePercent(previousFar.bidNotional, far.bidNotional)
+      : undefined,
+    askChangePercent: comparable
+      ? changePercent(previousFar.askNotional, far.askNotional)
+      : undefined,
+  };
+}
+
+/**
+ * 从检测参数中提取订单簿深度分析参数
+ *
+ * @param params orderBook 检测器的参数，未配置该检测器时使用默认参数
+ * @returns 分析参数
+ */
+export function toDepthOptions(params?: Record<string, number>): DepthOptions {
+  if (!params) return DEFAULT_DEPTH_OPTIONS;
+  return {
+    nearBandPercent: params.nearBandPercent,
+    farBandPercent: params.farBandPercent,
+    imbalanceThreshold: params.imbalanceThreshold,
+    wallMultiple: params.wallMultiple,
+    thinningPercent: params.thinningPercent,
+  };
+}
+
+/**
+ * 格式化订单簿深度摘要
+ *
+ * @param depth 分析结果
+ * @returns 单行摘要，如 ±0.5% 失衡 -42%, ±2% 买 123000 / 卖 351000, 卖墙 1.25 (+0.8%, 6.2 倍), 买盘较上轮 -35%
+ */
+export function formatDepth(depth: DepthAnalysis): string {
+  const [near, far] = [depth.bands[0], depth.bands[depth.bands.length - 1]];
+  const parts = [
+    `±${near.percent}% 失衡 ${(near.imbalance * 100).toFixed(0)}%`,
+    `±${far.percent}% 买 ${far.bidNotional.toFixed(
+      0
+    )} / 卖 ${far.askNotional.toFixed(0)}`,
+  ];
+
+  for (const side of ['ask', 'bid'] as const) {
+    const wall = depth.walls.find((w) => w.side === side);
+    if (wall) {
+      parts.push(
+        `${side === 'ask' ? '卖墙' : '买墙'} ${wall.price} (${
+          side === 'ask' ? '+' : '-'
+        }${wall.distancePercent.toFixed(2)}%, ${wall.multiple.toFixed(1)} 倍)`
+      );
+    }
+  }
+
+  if (depth.bidChangePercent !== undefined) {
+    const sign = (value: number) => (value > 0 ? '+' : '');
+    parts.push(
+      `买盘较上轮 ${sign(
+        depth.bidChangePercent
+      )}${depth.bidChangePercent.toFixed(0)}%, 卖盘 ${sign(
+        depth.askChangePercent!
+      )}${depth.askChangePercent!.toFixed(0)}%`
+    );
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * 统计中间价上下 percent% 区间内的买卖挂单额
+ */
+function depthBand(
+  book: OrderBook,
+  midPrice: number,
+  percent: number
+): DepthBand {
+  const bidNotional = notional(withinBand(book.bids, midPrice, percent, 'bid'));
+  const askNotional = notional(withinBand(book.asks, midPrice, percent, 'ask'));
+  const total = bidNotional + askNotional;
+
+  return {
+    percent,
+    bidNotional,
+    askNotional,
+    imbalance: total > 0 ? (bidNotional - askNotional) / total : 0,
+  };
+}
+
+/**
+ * 在远端区间内寻找挂单额达到中位数 wallMultiple 倍的价位
+ */
+function findWalls(
+  levels: OrderBookLevel[],
+  side: 'bid' | 'ask',
+  midPrice: number,
+  options: DepthOptions
+): LiquidityWall[] {
+  const inBand = withinBand(levels, midPrice, options.farBandPercent, side);
+  if (inBand.length < 3) return [];
+
+  const notionals = inBand.map((l) => l.price * l.quantity);
+  const sorted = [...notionals].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  if (!(median > 0)) return [];
+
+  return inBand
+    .map((level, i) => ({
+      side,
+      price: level.price,
+      notional: notionals[i],
+      distancePercent: (Math.abs(level.price - midPrice) / midPrice) * 100,
+      multiple: notionals[i] / median,
+    }))
+    .filter((wall) => wall.multiple >= options.wallMultiple)
+    .sort((a, b) => b.multiple - a.multiple)
+    .slice(0, MAX_WALLS_PER_SIDE);
+}
+
+/**
+ * 筛选距中间价 percent% 以内的价位
+ */
+function withinBand(
+  levels: OrderBookLevel[],
+  midPrice: number,
+  percent: number,
+  side: 'bid' | 'ask'
+): OrderBookLevel[] {
+  const bound =
+    side === 'bid'
+      ? midPrice * (1 - percent / 100)
+      : midPrice * (1 + percent / 100);
+  return levels.filter((l) =>
+    side === 'bid' ? l.price >= bound : l.price <= bound
+  );
+}
+
+/**
+ * 价位挂单额之和
+ */
+function notional(levels: OrderBookLevel[]): number {
+  return levels.reduce((sum, l) => sum + l.price * l.quantity, 0);
+}
+
+/**
+ * 计算变化百分比，上一轮为 0 时视为无变化
+ */
+function changePercent(previous: number, current: number): number {
+  return previous > 0 ? ((current - previous) / previous) * 100 : 0;
+}
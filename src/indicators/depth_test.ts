@@ -0,0 +1,95 @@
+/**
+ * 订单簿深度分析测试
+ */
+
+import { assertAlmostEquals, assertEquals } from '@std/assert';
+import { OrderBook } from '../models/types.ts';
+import { DEFAULT_DEPTH_OPTIONS, analyzeOrderBook } from './depth.ts';
+
+/**
+ * 构造订单簿，中间价为 100，买卖各 10 档，每档间隔 0.1
+ */
+function makeBook(
+  timestamp: number,
+  bidQuantity: (i: number) => number,
+  askQuantity: (i: number) => number
+): OrderBook {
+  return {
+    symbol: 'ABCUSDT',
+    lastUpdateId: timestamp,
+    timestamp,
+    bids: Array.from({ length: 10 }, (_, i) => ({
+      price: 99.95 - i * 0.1,
+      quantity: bidQuantity(i),
+    })),
+    asks: Array.from({ length: 10 }, (_, i) => ({
+      price: 100.05 + i * 0.1,
+      quantity: askQuantity(i),
+    })),
+  };
+}
+
+Deno.test('统计区间挂单额、失衡和卖墙', () => {
+  // 上方第 6 档挂有 20 倍的卖单
+  const book = makeBook(
+    1000,
+    () => 1,
+    (i) => (i === 5 ? 20 : 1)
+  );
+  const depth = analyzeOrderBook(book, DEFAULT_DEPTH_OPTIONS)!;
+
+  assertAlmostEquals(depth.midPrice, 100, 1e-9);
+  assertAlmostEquals(depth.spreadPercent, 0.1, 1e-9);
+
+  // ±0.5% 内买卖各 5 档，数量相同，卖单价格略高
+  const [near, far] = depth.bands;
+  assertAlmostEquals(near.bidNotional, 498.75, 1e-9);
+  assertAlmostEquals(near.askNotional, 501.25, 1e-9);
+  assertAlmostEquals(near.imbalance, -2.5 / 1000, 1e-9);
+
+  // ±2% 内覆盖全部档位，卖墙使卖盘占优
+  assertAlmostEquals(far.bidNotional, 995, 1e-9);
+  assertAlmostEquals(far.askNotional, 1005 + 19 * 100.55, 1e-9);
+  assertEquals(depth.walls.length, 1);
+  assertEquals(depth.walls[0].side, 'ask');
+  assertAlmostEquals(depth.walls[0].price, 100.55, 1e-9);
+  // 相对卖盘各档挂单额的中位数 (第 7 档)
+  assertAlmostEquals(depth.walls[0].multiple, (20 * 100.55) / 100.65, 1e-9);
+
+  // 没有上一轮结果时不计算变化
+  assertEquals(depth.bidChangePercent, undefined);
+});
+
+Deno.test('与上一轮比较买卖挂单额变化', () => {
+  const previous = analyzeOrderBook(
+    makeBook(
+      1000,
+      () => 2,
+      () => 1
+    )
+  )!;
+  const current = analyzeOrderBook(
+    makeBook(
+      2000,
+      () => 1,
+      () => 1
+    ),
+    DEFAULT_DEPTH_OPTIONS,
+    previous
+  )!;
+
+  assertAlmostEquals(current.bidChangePercent!, -50, 1e-9);
+  assertAlmostEquals(current.askChangePercent!, 0, 1e-9);
+
+  // 同一时刻或更早的结果不可比
+  const stale = analyzeOrderBook(
+    makeBook(
+      1000,
+      () => 1,
+      () => 1
+    ),
+    DEFAULT_DEPTH_OPTIONS,
+    previous
+  )!;
+  assertEquals(stale.bidChangePercent, undefined);
+});
@@ -0,0 +1,55 @@
+/**
+ * 内置检测器共用的定义
+ */
+
+import { Candle, DetectorRule, SignalType } from '../../models/types.ts';
+
+// 表明短期走势已经破位的信号
+export const BREAKDOWN_SIGNALS: string[] = [
+  'MACD 死叉',
+  '均线死叉',
+  SignalType.SUPPORT_BREAK,
+  SignalType.KELTNER_REENTRY,
+  SignalType.STOCH_RSI_BEARISH_CROSS,
+  SignalType.VWAP_BREAK,
+  SignalType.ICHIMOKU_BEARISH_CROSS,
+  SignalType.BEARISH_ENGULFING,
+  SignalType.EVENING_STAR,
+  SignalType.DARK_CLOUD_COVER,
+  SignalType.THREE_BLACK_CROWS,
+];
+
+// 表明价格处于超涨状态的信号
+export const OVEREXTENSION_SIGNALS: string[] = [
+  'RSI 超买',
+  '接近布林带上轨',
+  SignalType.MFI_OBV_DIVERGENCE,
+  SignalType.BEARISH_DIVERGENCE,
+  SignalType.TREND_EXHAUSTION,
+  SignalType.BLOW_OFF_EXHAUSTION,
+];
+
+/**
+ * 构建默认启用、权重为 1 的检测器规则
+ *
+ * @param params 默认检测参数
+ * @returns 检测器规则
+ */
+export function detectorRule(params: Record<string, number>): DetectorRule {
+  return { enabled: true, weight: 1, params };
+}
+
+/**
+ * 计算最新收盘价距最近若干根 K 线最高价的百分比
+ *
+ * @param candles K 线数据
+ * @param window K 线数量
+ * @returns 距高点的百分比
+ */
+export function distanceFromRecentHigh(
+  candles: Candle[],
+  window: number
+): number {
+  const recentHigh = Math.max(...candles.slice(-window).map((c) => c.high));
+  return ((recentHigh - candles[candles.length - 1].close) / recentHigh) * 100;
+}
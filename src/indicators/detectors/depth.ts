@@ -0,0 +1,78 @@
+/**
+ * 订单簿类检测器
+ *
+ * 依赖订单簿快照，只在实时分析提供订单簿时参与计算
+ */
+
+import { Signal, SignalDetector, SignalType } from '../../models/types.ts';
+import {
+  DEFAULT_DEPTH_OPTIONS,
+  analyzeOrderBook,
+  toDepthOptions,
+} from '../depth.ts';
+import { detectorRule } from './common.ts';
+
+/**
+ * 订单簿流动性转弱：近端卖盘深度明显大于买盘、上方出现大额卖墙、买盘挂单额较上一轮大幅减少
+ */
+export const orderBookDetector: SignalDetector = {
+  id: 'orderBook',
+  description: '订单簿卖盘占优、上方卖墙和买盘变薄',
+  requires: ['orderBook'],
+  maxSignals: 3,
+  defaultRule: detectorRule({ ...DEFAULT_DEPTH_OPTIONS }),
+  detect({ orderBook, tracked }, params) {
+    if (!orderBook) return [];
+    const options = toDepthOptions(params);
+    const depth = analyzeOrderBook(orderBook, options, tracked?.depth);
+    if (!depth) return [];
+
+    const signals: Signal[] = [];
+
+    const near = depth.bands[0];
+    if (near.imbalance <= -options.imbalanceThreshold) {
+      signals.push({
+        name: SignalType.DEPTH_IMBALANCE,
+        description: `中间价 ±${
+          near.percent
+        }% 内卖单挂单额 ${near.askNotional.toFixed(
+          0
+        )}，买单 ${near.bidNotional.toFixed(0)}，失衡 ${(
+          near.imbalance * 100
+        ).toFixed(0)}%`,
+        strength: Math.min(100, Math.abs(near.imbalance) * 100),
+      });
+    }
+
+    const askWall = depth.walls.find((w) => w.side === 'ask');
+    if (askWall) {
+      signals.push({
+        name: SignalType.ASK_WALL,
+        description: `上方 ${askWall.distancePercent.toFixed(2)}% 处 ${
+          askWall.price
+        } 挂有 ${askWall.notional.toFixed(
+          0
+        )} 卖单，为附近价位的 ${askWall.multiple.toFixed(1)} 倍`,
+        strength: Math.min(100, 40 + askWall.multiple * 4),
+      });
+    }
+
+    if (
+      depth.bidChangePercent !== undefined &&
+      depth.bidChangePercent <= -options.thinningPercent &&
+      depth.bidChangePercent < depth.askChangePercent!
+    ) {
+      signals.push({
+        name: SignalType.BID_THINNING,
+        description: `±${
+          depth.bands[depth.bands.length - 1].percent
+        }% 内买单挂单额较上一轮减少 ${Math.abs(depth.bidChangePercent).toFixed(
+          0
+        )}%，卖单变化 ${depth.askChangePercent!.toFixed(0)}%`,
+        strength: Math.min(100, 40 + Math.abs(depth.bidChangePercent)),
+      });
+    }
+
+    return signals;
+  },
+};
@@ -0,0 +1,240 @@
+/**
+ * 衍生品类检测器
+ *
+ * 依赖资金费率、持仓量、大户多空比和主动买卖量，只在提供衍生品数据时参与计算
+ */
+
+import { SignalDetector, SignalType } from '../../models/types.ts';
+import { detectorRule, distanceFromRecentHigh } from './common.ts';
+
+/**
+ * 资金费率过高：多头拥挤，追高资金需要持续支付高额费用
+ */
+export const fundingRateDetector: SignalDetector = {
+  id: 'fundingRate',
+  description: '资金费率过高',
+  requires: ['derivatives'],
+  defaultRule: detectorRule({ threshold: 0.0005 }),
+  detect({ derivatives }, params) {
+    if (!derivatives || derivatives.fundingRate < params.threshold) return [];
+
+    return [
+      {
+        name: SignalType.FUNDING_RATE_EXTREME,
+        description: `资金费率 ${(derivatives.fundingRate * 100).toFixed(
+          4
+        )}%，多头过度拥挤`,
+        strength: Math.min(100, (derivatives.fundingRate / 0.001) * 100),
+      },
+    ];
+  },
+};
+
+/**
+ * 持仓量下降但价格仍在高位：资金在高位撤离
+ */
+export const fundOutflowDetector: SignalDetector = {
+  id: 'fundOutflow',
+  description: '持仓量下降但价格仍在高位',
+  requires: ['derivatives'],
+  defaultRule: detectorRule({ window: 12, dropPercent: 5, nearHighPercent: 3 }),
+  detect({ candles, derivatives }, params) {
+    const history = derivatives?.openInterestHistory ?? [];
+    if (!derivatives || history.length < params.window) return [];
+
+    const peakOpenInterest = Math.max(
+      ...history.slice(-params.window).map((h) => h.openInterest)
+    );
+    const openInterestDrop =
+      ((peakOpenInterest - derivatives.openInterest) / peakOpenInterest) * 100;
+    const distanceFromHigh = distanceFromRecentHigh(candles, params.window);
+
+    if (
+      !(
+        openInterestDrop >= params.dropPercent &&
+        distanceFromHigh <= params.nearHighPercent
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.FUND_OUTFLOW,
+        description: `持仓量从高点回落 ${openInterestDrop.toFixed(
+          2
+        )}%，价格距高点仅 ${distanceFromHigh.toFixed(2)}%`,
+        strength: Math.min(100, 40 + openInterestDrop * 4),
+      },
+    ];
+  },
+};
+
+/**
+ * 持仓量激增伴随价格加速上涨：杠杆资金追涨，容易形成爆发式顶部
+ */
+export const openInterestSpikeDetector: SignalDetector = {
+  id: 'openInterestSpike',
+  description: '持仓量激增伴随价格加速上涨',
+  requires: ['derivatives'],
+  defaultRule: detectorRule({
+    window: 6,
+    openInterestPercent: 20,
+    pricePercent: 10,
+  }),
+  detect({ candles, derivatives }, params) {
+    const history = derivatives?.openInterestHistory ?? [];
+    if (!derivatives || history.length <= params.window) return [];
+
+    const lastClose = candles[candles.length - 1].close;
+    const baseOpenInterest =
+      history[history.length - 1 - params.window].openInterest;
+    const basePrice =
+      candles[Math.max(0, candles.length - 1 - params.window)].close;
+    const openInterestChange =
+      ((derivatives.openInterest - baseOpenInterest) / baseOpenInterest) * 100;
+    const priceChange = ((lastClose - basePrice) / basePrice) * 100;
+
+    if (
+      !(
+        openInterestChange >= params.openInterestPercent &&
+        priceChange >= params.pricePercent
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.OPEN_INTEREST_SPIKE,
+        description: `持仓量 ${
+          params.window
+        } 个周期内增加 ${openInterestChange.toFixed(
+          2
+        )}%，价格上涨 ${priceChange.toFixed(2)}%`,
+        strength: Math.min(100, 40 + openInterestChange),
+      },
+    ];
+  },
+};
+
+/**
+ * 大户账户多空比过高且价格在高位：多头拥挤，一旦回落容易引发踩踏
+ */
+export const crowdedLongsDetector: SignalDetector = {
+  id: 'crowdedLongs',
+  description: '大户账户多空比过高且价格在高位',
+  requires: ['derivatives'],
+  defaultRule: detectorRule({ ratio: 2.5, window: 12, nearHighPercent: 3 }),
+  detect({ candles, derivatives }, params) {
+    const accountRatio =
+      derivatives?.topAccountRatio[derivatives.topAccountRatio.length - 1];
+    if (
+      !accountRatio ||
+      accountRatio.longShortRatio < params.ratio ||
+      distanceFromRecentHigh(candles, params.window) > params.nearHighPercent
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.CROWDED_LONGS,
+        description: `大户账户多空比 ${accountRatio.longShortRatio.toFixed(
+          2
+        )}，多头占比 ${(accountRatio.longRatio * 100).toFixed(
+          1
+        )}%，价格仍在高位`,
+        strength: Math.min(
+          100,
+          40 + (accountRatio.longShortRatio - params.ratio) * 30
+        ),
+      },
+    ];
+  },
+};
+
+/**
+ * 大户持仓多空比从高点回落但价格仍在高位：大户在高位派发
+ */
+export const topTraderDistributionDetector: SignalDetector = {
+  id: 'topTraderDistribution',
+  description: '大户持仓多空比回落但价格仍在高位',
+  requires: ['derivatives'],
+  defaultRule: detectorRule({
+    dropPercent: 10,
+    window: 12,
+    nearHighPercent: 3,
+  }),
+  detect({ candles, derivatives }, params) {
+    const positionWindow = (derivatives?.topPositionRatio ?? []).slice(
+      -params.window
+    );
+    if (
+      positionWindow.length < params.window ||
+      distanceFromRecentHigh(candles, params.window) > params.nearHighPercent
+    ) {
+      return [];
+    }
+
+    const peakRatio = Math.max(...positionWindow.map((r) => r.longShortRatio));
+    const currentRatio =
+      positionWindow[positionWindow.length - 1].longShortRatio;
+    const ratioDrop = ((peakRatio - currentRatio) / peakRatio) * 100;
+    if (ratioDrop < params.dropPercent) return [];
+
+    return [
+      {
+        name: SignalType.TOP_TRADER_DISTRIBUTION,
+        description: `大户持仓多空比从 ${peakRatio.toFixed(
+          2
+        )} 回落至 ${currentRatio.toFixed(2)}，价格仍在高位`,
+        strength: Math.min(100, 40 + ratioDrop * 2),
+      },
+    ];
+  },
+};
+
+/**
+ * 主动卖出量超过买入量而价格停滞：买盘被持续吸收，上涨动能衰竭
+ */
+export const takerSellDominanceDetector: SignalDetector = {
+  id: 'takerSellDominance',
+  description: '主动卖出占优而价格停滞',
+  requires: ['derivatives'],
+  defaultRule: detectorRule({ window: 3, ratio: 0.9, stallPercent: 1 }),
+  detect({ candles, derivatives }, params) {
+    const takerWindow = (derivatives?.takerVolume ?? []).slice(-params.window);
+    if (takerWindow.length < params.window || candles.length <= params.window) {
+      return [];
+    }
+
+    const lastClose = candles[candles.length - 1].close;
+    const buyVolume = takerWindow.reduce((sum, t) => sum + t.buyVolume, 0);
+    const sellVolume = takerWindow.reduce((sum, t) => sum + t.sellVolume, 0);
+    const buySellRatio = sellVolume > 0 ? buyVolume / sellVolume : Infinity;
+    const basePrice = candles[candles.length - 1 - params.window].close;
+    const priceChange = ((lastClose - basePrice) / basePrice) * 100;
+
+    if (
+      !(
+        buySellRatio <= params.ratio &&
+        Math.abs(priceChange) <= params.stallPercent
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.TAKER_SELL_DOMINANCE,
+        description: `近 ${
+          params.window
+        } 个周期主动买卖比 ${buySellRatio.toFixed(
+          2
+        )}，价格变化仅 ${priceChange.toFixed(2)}%`,
+        strength: Math.min(100, 40 + (1 - buySellRatio) * 200),
+      },
+    ];
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * 冲顶衰竭类检测器
+ */
+
+import { SignalDetector, SignalType } from '../../models/types.ts';
+import {
+  DEFAULT_EXTENSION_OPTIONS,
+  formatExtension,
+  measureExtension,
+  toExtensionOptions,
+} from '../extension.ts';
+import { detectorRule } from './common.ts';
+
+/**
+ * 抛物线加速、远离均线、放量、放量 K 线长上影和连续上涨叠加：冲顶末端的衰竭，
+ * 按延伸度分为轻度、明显和极度三档，信号强度即延伸度
+ */
+export const blowOffTopDetector: SignalDetector = {
+  id: 'blowOffTop',
+  description: '抛物线冲顶后的衰竭',
+  defaultRule: detectorRule({ ...DEFAULT_EXTENSION_OPTIONS }),
+  detect({ candles }, params) {
+    const extension = measureExtension(candles, toExtensionOptions(params));
+    if (!extension.grade) return [];
+
+    return [
+      {
+        name: SignalType.BLOW_OFF_EXHAUSTION,
+        description: `延伸度 ${formatExtension(extension)}`,
+        strength: extension.score,
+      },
+    ];
+  },
+};
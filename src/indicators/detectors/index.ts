@@ -0,0 +1,65 @@
+/**
+ * 内置信号检测器
+ *
+ * 按此顺序注册并输出信号，默认规则 (rules/default.json) 中的检测器顺序与此一致
+ */
+
+import { SignalDetector } from '../../models/types.ts';
+import {
+  divergenceDetector,
+  macdCrossDetector,
+  rsiOverboughtDetector,
+  stochRsiCrossDetector,
+  trendExhaustionDetector,
+} from './momentum.ts';
+import {
+  bollingerUpperDetector,
+  ichimokuCrossDetector,
+  keltnerReentryDetector,
+  maDeathCrossDetector,
+  vwapBreakDetector,
+} from './trend.ts';
+import { blowOffTopDetector } from './exhaustion.ts';
+import { mfiObvDivergenceDetector, volumeStallDetector } from './volume.ts';
+import {
+  candlestickPatternDetector,
+  supportBreakDetector,
+} from './structure.ts';
+import { relativeMomentumDetector } from './relative.ts';
+import {
+  crowdedLongsDetector,
+  fundOutflowDetector,
+  fundingRateDetector,
+  openInterestSpikeDetector,
+  takerSellDominanceDetector,
+  topTraderDistributionDetector,
+} from './derivatives.ts';
+import { orderBookDetector } from './depth.ts';
+
+export { BREAKDOWN_SIGNALS, OVEREXTENSION_SIGNALS } from './common.ts';
+
+export const BUILTIN_DETECTORS: SignalDetector[] = [
+  rsiOverboughtDetector,
+  bollingerUpperDetector,
+  macdCrossDetector,
+  maDeathCrossDetector,
+  supportBreakDetector,
+  volumeStallDetector,
+  mfiObvDivergenceDetector,
+  keltnerReentryDetector,
+  stochRsiCrossDetector,
+  trendExhaustionDetector,
+  blowOffTopDetector,
+  vwapBreakDetector,
+  ichimokuCrossDetector,
+  candlestickPatternDetector,
+  divergenceDetector,
+  relativeMomentumDetector,
+  fundingRateDetector,
+  fundOutflowDetector,
+  openInterestSpikeDetector,
+  crowdedLongsDetector,
+  topTraderDistributionDetector,
+  takerSellDominanceDetector,
+  orderBookDetector,
+];
@@ -0,0 +1,256 @@
+/**
+ * 动能类检测器
+ *
+ * RSI 超买、MACD 死叉、StochRSI 死叉、ADX 回落和顶背离
+ */
+
+import {
+  Divergence,
+  Signal,
+  SignalDetector,
+  SignalType,
+} from '../../models/types.ts';
+import { DMI, MACD, RSI, StochasticRSI, computeSeries } from '../engine.ts';
+import { detectBearishDivergences } from '../divergence.ts';
+import { detectorRule } from './common.ts';
+import { format } from '@std/datetime';
+
+// 背离指标的权重 (多个指标同时背离时取最高权重，其余每个加 10)
+const DIVERGENCE_WEIGHTS: Record<string, number> = {
+  RSI: 1,
+  'MACD 柱状图': 0.9,
+  OBV: 0.8,
+  MFI: 0.8,
+};
+
+/**
+ * RSI 超买
+ */
+export const rsiOverboughtDetector: SignalDetector = {
+  id: 'rsiOverbought',
+  description: 'RSI 超买',
+  defaultRule: detectorRule({
+    period: 14,
+    threshold: 70,
+    strengthPerPoint: 2.5,
+  }),
+  detect({ candles }, params) {
+    const rsi = computeSeries(new RSI(params.period), candles)[
+      candles.length - 1
+    ];
+    if (!(rsi > params.threshold)) return [];
+
+    return [
+      {
+        name: 'RSI 超买',
+        description: `RSI(${params.period}) = ${rsi.toFixed(2)}，超过 ${
+          params.threshold
+        } 的超买区域`,
+        strength: Math.min(
+          100,
+          (rsi - params.threshold) * params.strengthPerPoint
+        ),
+      },
+    ];
+  },
+};
+
+/**
+ * MACD 死叉
+ */
+export const macdCrossDetector: SignalDetector = {
+  id: 'macdCross',
+  description: 'MACD 死叉',
+  defaultRule: detectorRule({
+    fastPeriod: 12,
+    slowPeriod: 26,
+    signalPeriod: 9,
+    strength: 90,
+  }),
+  detect({ candles }, params) {
+    const macd = computeSeries(
+      new MACD(params.fastPeriod, params.slowPeriod, params.signalPeriod),
+      candles
+    );
+    const lastIndex = candles.length - 1;
+    if (
+      !(
+        macd[lastIndex].macd < macd[lastIndex].signal &&
+        macd[lastIndex - 1].macd > macd[lastIndex - 1].signal
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: 'MACD 死叉',
+        description: 'MACD 线下穿信号线，表明动能减弱',
+        strength: params.strength,
+      },
+    ];
+  },
+};
+
+/**
+ * StochRSI 在超买区 K 线下穿 D 线
+ */
+export const stochRsiCrossDetector: SignalDetector = {
+  id: 'stochRsiCross',
+  description: 'StochRSI 超买区死叉',
+  defaultRule: detectorRule({
+    rsiPeriod: 14,
+    stochPeriod: 14,
+    kPeriod: 3,
+    dPeriod: 3,
+    overbought: 80,
+    strength: 60,
+  }),
+  detect({ candles }, params) {
+    const stochRsi = computeSeries(
+      new StochasticRSI(
+        params.rsiPeriod,
+        params.stochPeriod,
+        params.kPeriod,
+        params.dPeriod
+      ),
+      candles
+    );
+    const current = stochRsi[candles.length - 1];
+    const previous = stochRsi[candles.length - 2];
+    if (
+      !(
+        current.k < current.d &&
+        previous.k >= previous.d &&
+        previous.k >= params.overbought
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.STOCH_RSI_BEARISH_CROSS,
+        description: `StochRSI K 线从 ${previous.k.toFixed(
+          2
+        )} 下穿 D 线，超买区动能转弱`,
+        strength: params.strength,
+      },
+    ];
+  },
+};
+
+/**
+ * 强上升趋势中 ADX 连续回落：趋势动能衰减
+ */
+export const trendExhaustionDetector: SignalDetector = {
+  id: 'trendExhaustion',
+  description: '上升趋势中 ADX 连续回落',
+  defaultRule: detectorRule({
+    period: 14,
+    adxThreshold: 40,
+    baseStrength: 40,
+  }),
+  detect({ candles }, params) {
+    if (candles.length < 3) return [];
+
+    const [older, prior, latest] = computeSeries(
+      new DMI(params.period),
+      candles
+    ).slice(-3);
+    if (
+      !(
+        older.adx >= params.adxThreshold &&
+        prior.adx < older.adx &&
+        latest.adx < prior.adx &&
+        latest.plusDI > latest.minusDI
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.TREND_EXHAUSTION,
+        description: `ADX 从 ${older.adx.toFixed(
+          2
+        )} 连续回落至 ${latest.adx.toFixed(2)}，上升趋势强度减弱`,
+        strength: Math.min(
+          100,
+          params.baseStrength + (older.adx - params.adxThreshold)
+        ),
+      },
+    ];
+  },
+};
+
+/**
+ * 常规顶背离和隐藏顶背离，两类背离各产生一个信号
+ */
+export const divergenceDetector: SignalDetector = {
+  id: 'divergence',
+  description: '常规顶背离和隐藏顶背离',
+  maxSignals: 2,
+  defaultRule: detectorRule({
+    lookback: 3,
+    maxPivotDistance: 40,
+    maxPivotAge: 10,
+    regularStrength: 70,
+    hiddenStrength: 50,
+  }),
+  detect({ candles }, params) {
+    return buildDivergenceSignals(
+      detectBearishDivergences(candles, {
+        lookback: params.lookback,
+        maxPivotDistance: params.maxPivotDistance,
+        maxPivotAge: params.maxPivotAge,
+      }),
+      params
+    );
+  },
+};
+
+/**
+ * 将背离合并为信号，同类背离 (常规 / 隐藏) 合并为一个信号
+ *
+ * @param divergences 检测到的背离
+ * @param params 背离检测参数，包含常规和隐藏背离的基础强度
+ * @returns 背离信号
+ */
+function buildDivergenceSignals(
+  divergences: Divergence[],
+  params: Record<string, number>
+): Signal[] {
+  const signals: Signal[] = [];
+
+  for (const kind of ['regular', 'hidden'] as const) {
+    const matched = divergences.filter((d) => d.kind === kind);
+    if (matched.length === 0) continue;
+
+    const { first, second } = matched[0];
+    const weight = Math.max(
+      ...matched.map((d) => DIVERGENCE_WEIGHTS[d.indicator] ?? 0.5)
+    );
+    const base =
+      kind === 'regular' ? params.regularStrength : params.hiddenStrength;
+
+    signals.push({
+      name:
+        kind === 'regular'
+          ? SignalType.BEARISH_DIVERGENCE
+          : SignalType.HIDDEN_BEARISH_DIVERGENCE,
+      description: `${matched.map((d) => d.indicator).join('、')} 在 ${format(
+        new Date(first.timestamp),
+        'yyyy-MM-dd HH:mm'
+      )} 和 ${format(
+        new Date(second.timestamp),
+        'yyyy-MM-dd HH:mm'
+      )} 的高点出现${kind === 'regular' ? '顶背离' : '隐藏顶背离'} (价格 ${
+        first.price
+      } → ${second.price})`,
+      strength: Math.min(100, base * weight + (matched.length - 1) * 10),
+    });
+  }
+
+  return signals;
+}
@@ -0,0 +1,57 @@
+/**
+ * 相对强弱类检测器
+ */
+
+import { SignalDetector, SignalType } from '../../models/types.ts';
+import { BREAKDOWN_SIGNALS, detectorRule } from './common.ts';
+
+/**
+ * 相对强弱走弱：以 USDT 计价仍处于近期高点附近，但此前领涨的比值序列出现破位信号
+ */
+export const relativeMomentumDetector: SignalDetector = {
+  id: 'relativeMomentum',
+  description: '价格仍在高位但相对 BTC 或同类篮子走弱',
+  requires: ['relativeStrength'],
+  defaultRule: detectorRule({
+    window: 24,
+    nearHighPercent: 5,
+    minBreakdownSignals: 2,
+    baseStrength: 60,
+    strengthPerSignal: 10,
+  }),
+  detect({ candles, relativeStrength }, params) {
+    const recentHigh = Math.max(
+      ...candles.slice(-params.window).map((c) => c.high)
+    );
+    const close = candles[candles.length - 1].close;
+    if (close < recentHigh * (1 - params.nearHighPercent / 100)) return [];
+
+    // 比值在窗口内创出新高后 (相对强势) 出现破位信号才视为相对强弱走弱
+    const breakdowns = (relativeStrength ?? [])
+      .filter((r) => r.barsSinceHigh <= params.window)
+      .map(({ benchmark, signals }) => ({
+        benchmark,
+        signals: signals.filter((s) => BREAKDOWN_SIGNALS.includes(s.name)),
+      }))
+      .filter((b) => b.signals.length >= params.minBreakdownSignals);
+    if (breakdowns.length === 0) return [];
+
+    const count = breakdowns.reduce((sum, b) => sum + b.signals.length, 0);
+    return [
+      {
+        name: SignalType.RELATIVE_MOMENTUM_ROLLOVER,
+        description: `价格距 ${params.window} 周期高点不足 ${
+          params.nearHighPercent
+        }%，但相对强弱出现破位: ${breakdowns
+          .map(
+            (b) => `${b.benchmark} ${b.signals.map((s) => s.name).join('、')}`
+          )
+          .join('；')}`,
+        strength: Math.min(
+          100,
+          params.baseStrength + (count - 1) * params.strengthPerSignal
+        ),
+      },
+    ];
+  },
+};
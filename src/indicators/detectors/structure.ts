@@ -0,0 +1,95 @@
+/**
+ * 价格结构类检测器
+ *
+ * 支撑位破位和看跌 K 线形态
+ */
+
+import { SignalDetector, SignalType } from '../../models/types.ts';
+import { detectBearishPatterns } from '../patterns.ts';
+import {
+  DEFAULT_LEVEL_OPTIONS,
+  findPriceLevels,
+  formatPriceLevels,
+  supportLevelsBelow,
+  toLevelOptions,
+} from '../levels.ts';
+import { detectorRule } from './common.ts';
+
+/**
+ * 跌破最近的有效支撑位
+ */
+export const supportBreakDetector: SignalDetector = {
+  id: 'supportBreak',
+  description: '收盘价跌破最近的有效支撑位',
+  defaultRule: detectorRule({
+    ...DEFAULT_LEVEL_OPTIONS,
+    breakPercent: 0.2,
+    baseStrength: 60,
+    strengthPerScore: 10,
+  }),
+  detect({ candles, tracked }, params) {
+    const previousClose = candles[candles.length - 2].close;
+    const close = candles[candles.length - 1].close;
+
+    // 使用最新 K 线之前的数据识别支撑位，避免破位 K 线本身改变价位
+    const options = toLevelOptions(params);
+    const [support] = supportLevelsBelow(
+      findPriceLevels(candles.slice(0, -1), tracked?.highestPrice, options),
+      previousClose,
+      options
+    );
+    if (
+      !support ||
+      !(close < support.price * (1 - params.breakPercent / 100))
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.SUPPORT_BREAK,
+        description: `收盘价跌破支撑位 ${formatPriceLevels([support])}`,
+        strength: Math.min(
+          100,
+          params.baseStrength +
+            (support.score - options.minScore) * params.strengthPerScore
+        ),
+      },
+    ];
+  },
+};
+
+/**
+ * 看跌 K 线形态，同时出现多个形态时取最强的一个
+ */
+export const candlestickPatternDetector: SignalDetector = {
+  id: 'candlestickPatterns',
+  description: '看跌 K 线形态',
+  defaultRule: detectorRule({
+    smallBodyRatio: 0.3,
+    longBodyRatio: 0.6,
+    longWickRatio: 2,
+    shortWickRatio: 0.1,
+    priceTolerance: 0.001,
+    trendLookback: 5,
+  }),
+  detect({ candles, tracked }, params) {
+    const [pattern] = detectBearishPatterns(candles, tracked?.highestPrice, {
+      smallBodyRatio: params.smallBodyRatio,
+      longBodyRatio: params.longBodyRatio,
+      longWickRatio: params.longWickRatio,
+      shortWickRatio: params.shortWickRatio,
+      priceTolerance: params.priceTolerance,
+      trendLookback: params.trendLookback,
+    });
+    if (!pattern) return [];
+
+    return [
+      {
+        name: pattern.type,
+        description: pattern.description,
+        strength: pattern.strength,
+      },
+    ];
+  },
+};
@@ -0,0 +1,214 @@
+/**
+ * 趋势与通道类检测器
+ *
+ * 布林带上轨、均线死叉、肯特纳通道回归、锚定 VWAP 跌破和一目均衡表死叉
+ */
+
+import { SignalDetector, SignalType } from '../../models/types.ts';
+import {
+  AnchoredVWAP,
+  BollingerBands,
+  Ichimoku,
+  KeltnerChannels,
+  SMA,
+  SessionVWAP,
+  computeSeries,
+} from '../engine.ts';
+import { detectorRule } from './common.ts';
+
+/**
+ * 价格接近布林带上轨
+ */
+export const bollingerUpperDetector: SignalDetector = {
+  id: 'bollingerUpper',
+  description: '价格接近布林带上轨',
+  defaultRule: detectorRule({
+    period: 20,
+    stdDev: 2,
+    minPosition: 0.8,
+    strengthFactor: 40,
+    maxStrength: 50,
+  }),
+  detect({ candles }, params) {
+    const { upper, middle } = computeSeries(
+      new BollingerBands(params.period, params.stdDev),
+      candles
+    )[candles.length - 1];
+    const priceToUpperRatio =
+      (candles[candles.length - 1].close - middle) / (upper - middle);
+    if (!(priceToUpperRatio > params.minPosition)) return [];
+
+    return [
+      {
+        name: '接近布林带上轨',
+        description: `价格处于布林带上方 ${(priceToUpperRatio * 100).toFixed(
+          2
+        )}% 位置`,
+        strength: Math.min(
+          params.maxStrength,
+          priceToUpperRatio * params.strengthFactor
+        ),
+      },
+    ];
+  },
+};
+
+/**
+ * 移动平均线死叉
+ */
+export const maDeathCrossDetector: SignalDetector = {
+  id: 'maDeathCross',
+  description: '移动平均线死叉',
+  defaultRule: detectorRule({ fastPeriod: 20, slowPeriod: 50, strength: 70 }),
+  detect({ candles }, params) {
+    const fast = computeSeries(new SMA(params.fastPeriod), candles);
+    const slow = computeSeries(new SMA(params.slowPeriod), candles);
+    const lastIndex = candles.length - 1;
+    if (
+      !(
+        fast[lastIndex] < slow[lastIndex] &&
+        fast[lastIndex - 1] > slow[lastIndex - 1]
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: '均线死叉',
+        description: `${params.fastPeriod} 日均线下穿 ${params.slowPeriod} 日均线，形成死叉`,
+        strength: params.strength,
+      },
+    ];
+  },
+};
+
+/**
+ * 价格曾收于肯特纳通道上轨之外，随后收回通道内：扩张结束
+ */
+export const keltnerReentryDetector: SignalDetector = {
+  id: 'keltnerReentry',
+  description: '价格收回肯特纳通道上轨之内',
+  defaultRule: detectorRule({
+    emaPeriod: 20,
+    atrPeriod: 10,
+    multiplier: 2,
+    expansionWindow: 3,
+    strength: 65,
+  }),
+  detect({ candles }, params) {
+    const keltner = computeSeries(
+      new KeltnerChannels(
+        params.emaPeriod,
+        params.atrPeriod,
+        params.multiplier
+      ),
+      candles
+    );
+    const lastIndex = candles.length - 1;
+    let expanded = false;
+    for (
+      let i = Math.max(0, lastIndex - params.expansionWindow);
+      i < lastIndex;
+      i++
+    ) {
+      expanded ||= candles[i].close > keltner[i].upper;
+    }
+    if (!expanded || !(candles[lastIndex].close < keltner[lastIndex].upper)) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.KELTNER_REENTRY,
+        description: `价格收回肯特纳通道上轨 ${keltner[lastIndex].upper.toFixed(
+          4
+        )} 之内，通道扩张结束`,
+        strength: params.strength,
+      },
+    ];
+  },
+};
+
+/**
+ * 收盘价跌破以本轮上涨起点为锚点的 VWAP：上涨以来的平均持仓成本被跌破
+ */
+export const vwapBreakDetector: SignalDetector = {
+  id: 'vwapBreak',
+  description: '跌破上涨起点锚定 VWAP',
+  defaultRule: detectorRule({ anchorWindow: 48, strength: 70 }),
+  detect({ candles }, params) {
+    const lastIndex = candles.length - 1;
+    const anchor = candles
+      .slice(-params.anchorWindow)
+      .reduce((low, c) => (c.low < low.low ? c : low));
+    const anchoredVwap = computeSeries(
+      new AnchoredVWAP(anchor.openTime),
+      candles
+    );
+    if (
+      !(
+        candles[lastIndex].close < anchoredVwap[lastIndex] &&
+        candles[lastIndex - 1].close > anchoredVwap[lastIndex - 1]
+      )
+    ) {
+      return [];
+    }
+
+    const sessionVwap = computeSeries(new SessionVWAP(), candles)[lastIndex];
+    return [
+      {
+        name: SignalType.VWAP_BREAK,
+        description: `价格跌破上涨起点锚定 VWAP ${anchoredVwap[
+          lastIndex
+        ].toFixed(4)}，当日 VWAP ${sessionVwap.toFixed(4)}`,
+        strength: params.strength,
+      },
+    ];
+  },
+};
+
+/**
+ * 价格仍在云层上方时转换线下穿基准线：短期动能先于趋势转弱
+ */
+export const ichimokuCrossDetector: SignalDetector = {
+  id: 'ichimokuCross',
+  description: '一目均衡表转换线下穿基准线',
+  defaultRule: detectorRule({
+    conversionPeriod: 9,
+    basePeriod: 26,
+    spanBPeriod: 52,
+    displacement: 26,
+    strength: 55,
+  }),
+  detect({ candles }, params) {
+    const ichimoku = computeSeries(
+      new Ichimoku(
+        params.conversionPeriod,
+        params.basePeriod,
+        params.spanBPeriod,
+        params.displacement
+      ),
+      candles
+    );
+    const latest = ichimoku[candles.length - 1];
+    const prior = ichimoku[candles.length - 2];
+    if (
+      !(
+        latest.conversion < latest.base &&
+        prior.conversion >= prior.base &&
+        candles[candles.length - 1].close > Math.max(latest.spanA, latest.spanB)
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.ICHIMOKU_BEARISH_CROSS,
+        description: '一目均衡表转换线下穿基准线，价格仍在云层上方',
+        strength: params.strength,
+      },
+    ];
+  },
+};
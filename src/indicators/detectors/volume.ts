@@ -0,0 +1,93 @@
+/**
+ * 量能类检测器
+ *
+ * 放量滞涨和 MFI / OBV 量价背离
+ */
+
+import { SignalDetector, SignalType } from '../../models/types.ts';
+import { MFI, OBV, computeSeries } from '../engine.ts';
+import { detectorRule } from './common.ts';
+
+/**
+ * 放量滞涨
+ */
+export const volumeStallDetector: SignalDetector = {
+  id: 'volumeStall',
+  description: '放量滞涨',
+  defaultRule: detectorRule({
+    volumeMultiplier: 1.5,
+    maxPriceChangePercent: 1,
+    strength: 75,
+  }),
+  detect({ candles }, params) {
+    const lastCandle = candles[candles.length - 1];
+    const previous = candles[candles.length - 2];
+    if (
+      !(
+        lastCandle.volume > previous.volume * params.volumeMultiplier &&
+        lastCandle.close <=
+          previous.close * (1 + params.maxPriceChangePercent / 100)
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: '放量滞涨',
+        description: `成交量增加 ${(
+          (params.volumeMultiplier - 1) *
+          100
+        ).toFixed(0)}% 以上，但价格涨幅不足 ${params.maxPriceChangePercent}%`,
+        strength: params.strength,
+      },
+    ];
+  },
+};
+
+/**
+ * MFI 超买且价格创新高，但 OBV 未创新高：上涨缺少量能配合
+ */
+export const mfiObvDivergenceDetector: SignalDetector = {
+  id: 'mfiObvDivergence',
+  description: 'MFI 超买且 OBV 未随价格创新高',
+  defaultRule: detectorRule({
+    period: 14,
+    overbought: 80,
+    window: 14,
+    baseStrength: 50,
+  }),
+  detect({ candles }, params) {
+    const lastIndex = candles.length - 1;
+    const mfi = computeSeries(new MFI(params.period), candles)[lastIndex];
+    if (!(mfi >= params.overbought) || lastIndex <= params.window) return [];
+
+    const obv = computeSeries(new OBV(), candles);
+    const start = lastIndex - params.window;
+    const previousHigh = Math.max(
+      ...candles.slice(start, lastIndex).map((c) => c.high)
+    );
+    const previousObvHigh = Math.max(...obv.slice(start, lastIndex));
+    if (
+      !(
+        candles[lastIndex].high >= previousHigh &&
+        obv[lastIndex] < previousObvHigh
+      )
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        name: SignalType.MFI_OBV_DIVERGENCE,
+        description: `MFI(${params.period}) = ${mfi.toFixed(2)}，价格创 ${
+          params.window
+        } 周期新高但 OBV 未创新高`,
+        strength: Math.min(
+          100,
+          params.baseStrength + (mfi - params.overbought) * 2
+        ),
+      },
+    ];
+  },
+};
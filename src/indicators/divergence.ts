@@ -0,0 +1,129 @@
+/**
+ * 摆动点与背离检测模块
+ *
+ * 识别价格的摆动高点 / 低点，并在最近两个摆动高点上比较价格与 RSI、MACD 柱状图、OBV 和 MFI，
+ * 检测常规顶背离 (价格新高、指标未新高) 和隐藏顶背离 (价格高点降低、指标高点抬高)
+ */
+
+import {
+  Candle,
+  Divergence,
+  DivergenceOptions,
+  SwingPoint,
+} from '../models/types.ts';
+import { MACD, MFI, OBV, RSI, computeSeries } from './engine.ts';
+
+/**
+ * 默认背离检测参数
+ */
+export const DEFAULT_DIVERGENCE_OPTIONS: DivergenceOptions = {
+  lookback: 3,
+  maxPivotDistance: 40,
+  maxPivotAge: 10,
+};
+
+/**
+ * 识别摆动高点 / 低点
+ *
+ * 某根 K 线的最高价 (最低价) 严格高于 (低于) 前后各 lookback 根 K 线时视为摆动点，
+ * 因此最近 lookback 根 K 线内的摆动点尚未确认，不会返回
+ *
+ * @param candles K 线数据
+ * @param type high 识别摆动高点，low 识别摆动低点
+ * @param lookback 两侧需要比较的 K 线数量
+ * @returns 按时间升序排列的摆动点
+ */
+export function findSwingPoints(
+  candles: Candle[],
+  type: 'high' | 'low',
+  lookback = DEFAULT_DIVERGENCE_OPTIONS.lookback
+): SwingPoint[] {
+  const points: SwingPoint[] = [];
+  const priceOf = (candle: Candle) =>
+    type === 'high' ? candle.high : candle.low;
+
+  for (let i = lookback; i < candles.length - lookback; i++) {
+    const price = priceOf(candles[i]);
+    let isSwing = true;
+
+    for (let j = i - lookback; j <= i + lookback && isSwing; j++) {
+      if (j === i) continue;
+      const other = priceOf(candles[j]);
+      isSwing = type === 'high' ? price > other : price < other;
+    }
+
+    if (isSwing) {
+      points.push({ index: i, timestamp: candles[i].openTime, price });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * 检测价格与各指标之间的顶背离
+ *
+ * 只比较最近两个摆动高点；两者间隔超过 maxPivotDistance 或第二个高点距今超过 maxPivotAge 时视为无效
+ *
+ * @param candles K 线数据
+ * @param options 背离检测参数
+ * @returns 检测到的背离
+ */
+export function detectBearishDivergences(
+  candles: Candle[],
+  options: DivergenceOptions = DEFAULT_DIVERGENCE_OPTIONS
+): Divergence[] {
+  const swings = findSwingPoints(candles, 'high', options.lookback);
+  if (swings.length < 2) return [];
+
+  const [first, second] = swings.slice(-2);
+  if (
+    second.index - first.index > options.maxPivotDistance ||
+    candles.length - 1 - second.index > options.maxPivotAge
+  ) {
+    return [];
+  }
+
+  const oscillators: Array<[string, number[]]> = [
+    ['RSI', computeSeries(new RSI(14), candles)],
+    [
+      'MACD 柱状图',
+      computeSeries(new MACD(12, 26, 9), candles).map((v) => v.histogram),
+    ],
+    ['OBV', computeSeries(new OBV(), candles)],
+    ['MFI', computeSeries(new MFI(14), candles)],
+  ];
+
+  const divergences: Divergence[] = [];
+  for (const [indicator, values] of oscillators) {
+    const firstValue = values[first.index];
+    const secondValue = values[second.index];
+    if (isNaN(firstValue) || isNaN(secondValue)) continue;
+
+    // 常规顶背离：价格高点抬高，指标高点降低
+    if (second.price > first.price && secondValue < firstValue) {
+      divergences.push({
+        kind: 'regular',
+        indicator,
+        first,
+        second,
+        firstValue,
+        secondValue,
+      });
+    }
+
+    // 隐藏顶背离：价格高点降低，指标高点抬高
+    if (second.price < first.price && secondValue > firstValue) {
+      divergences.push({
+        kind: 'hidden',
+        indicator,
+        first,
+        second,
+        firstValue,
+        secondValue,
+      });
+    }
+  }
+
+  return divergences;
+}
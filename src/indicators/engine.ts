@@ -0,0 +1,772 @@
+/**
+ * 技术指标引擎
+ *
+ * 所有指标都是有状态的增量计算对象：每输入一根新 K 线以 O(1) 的代价更新并返回最新值，
+ * 同一个对象依次输入全部 K 线即可得到完整序列 (用于回测)。
+ * 数据不足以计算时指标值为 NaN
+ */
+
+import {
+  BollingerValue,
+  Candle,
+  DMIValue,
+  IchimokuValue,
+  IndicatorValues,
+  KeltnerValue,
+  MACDValue,
+  StochRSIValue,
+} from '../models/types.ts';
+
+/**
+ * 增量指标
+ */
+export interface Indicator<T> {
+  /**
+   * 输入一根新的 K 线
+   *
+   * @param candle K 线数据
+   * @returns 更新后的指标值
+   */
+  update(candle: Candle): T;
+
+  // 最新的指标值
+  readonly value: T;
+}
+
+/**
+ * 定长滑动窗口
+ *
+ * 使用环形缓冲区保存最近 size 个值，写入和淘汰都是 O(1)
+ */
+export class RollingWindow {
+  private readonly buffer: number[];
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly size: number) {
+    this.buffer = new Array(size);
+  }
+
+  /**
+   * 写入新值
+   *
+   * @param value 新值
+   * @returns 被挤出窗口的旧值，窗口未满时为 undefined
+   */
+  push(value: number): number | undefined {
+    if (this.count < this.size) {
+      this.buffer[(this.start + this.count) % this.size] = value;
+      this.count++;
+      return undefined;
+    }
+
+    const evicted = this.buffer[this.start];
+    this.buffer[this.start] = value;
+    this.start = (this.start + 1) % this.size;
+    return evicted;
+  }
+
+  /**
+   * 按时间顺序获取窗口内第 index 个值 (0 为最旧)
+   */
+  get(index: number): number {
+    return this.buffer[(this.start + index) % this.size];
+  }
+
+  // 窗口内的值数量
+  get length(): number {
+    return this.count;
+  }
+
+  // 窗口是否已满
+  get full(): boolean {
+    return this.count === this.size;
+  }
+}
+
+/**
+ * 滑动窗口最大值 / 最小值
+ *
+ * 使用单调队列维护窗口内的极值，均摊 O(1)
+ */
+export class RollingExtremum {
+  private readonly values: number[] = [];
+  private readonly indices: number[] = [];
+  private head = 0;
+  private count = 0;
+  value = NaN;
+
+  constructor(readonly size: number, private readonly mode: 'max' | 'min') {}
+
+  /**
+   * 写入新值
+   *
+   * @param input 新值
+   * @returns 窗口内的极值，窗口未满时为 NaN
+   */
+  push(input: number): number {
+    const index = this.count++;
+
+    // 移除已滑出窗口的值
+    while (
+      this.head < this.indices.length &&
+      this.indices[this.head] <= index - this.size
+    ) {
+      this.head++;
+    }
+
+    // 移除不可能再成为极值的值
+    while (
+      this.values.length > this.head &&
+      this.dominates(input, this.values[this.values.length - 1])
+    ) {
+      this.values.pop();
+      this.indices.pop();
+    }
+    this.values.push(input);
+    this.indices.push(index);
+
+    // 定期释放已出队的空间
+    if (this.head > this.size) {
+      this.values.splice(0, this.head);
+      this.indices.splice(0, this.head);
+      this.head = 0;
+    }
+
+    this.value = this.count >= this.size ? this.values[this.head] : NaN;
+    return this.value;
+  }
+
+  private dominates(a: number, b: number): boolean {
+    return this.mode === 'max' ? a >= b : a <= b;
+  }
+}
+
+/**
+ * 简单移动平均 (SMA)
+ */
+export class SMA implements Indicator<number> {
+  private readonly window: RollingWindow;
+  private sum = 0;
+  value = NaN;
+
+  constructor(readonly period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(candle: Candle): number {
+    return this.next(candle.close);
+  }
+
+  /**
+   * 输入任意数值序列的下一个值
+   *
+   * @param input 输入值
+   * @returns 更新后的均值
+   */
+  next(input: number): number {
+    this.sum += input - (this.window.push(input) ?? 0);
+    this.value = this.window.full ? this.sum / this.period : NaN;
+    return this.value;
+  }
+}
+
+/**
+ * 指数移动平均 (EMA)
+ *
+ * 以前 period 个值的简单平均作为初始值
+ */
+export class EMA implements Indicator<number> {
+  private readonly multiplier: number;
+  private seedSum = 0;
+  private seedCount = 0;
+  value = NaN;
+
+  constructor(readonly period: number) {
+    this.multiplier = 2 / (period + 1);
+  }
+
+  update(candle: Candle): number {
+    return this.next(candle.close);
+  }
+
+  /**
+   * 输入任意数值序列的下一个值
+   *
+   * @param input 输入值
+   * @returns 更新后的 EMA
+   */
+  next(input: number): number {
+    if (this.seedCount < this.period) {
+      this.seedSum += input;
+      this.seedCount++;
+      if (this.seedCount === this.period) {
+        this.value = this.seedSum / this.period;
+      }
+      return this.value;
+    }
+
+    this.value = (input - this.value) * this.multiplier + this.value;
+    return this.value;
+  }
+}
+
+/**
+ * Wilder 平滑均值 (RMA)
+ *
+ * 以前 period 个值的简单平均作为初始值，之后每次按 1/period 的权重更新
+ */
+export class WilderAverage {
+  private seedSum = 0;
+  private seedCount = 0;
+  value = NaN;
+
+  constructor(readonly period: number) {}
+
+  /**
+   * 输入下一个值
+   *
+   * @param input 输入值
+   * @returns 更新后的均值
+   */
+  next(input: number): number {
+    if (this.seedCount < this.period) {
+      this.seedSum += input;
+      this.seedCount++;
+      if (this.seedCount === this.period) {
+        this.value = this.seedSum / this.period;
+      }
+      return this.value;
+    }
+
+    this.value = (this.value * (this.period - 1) + input) / this.period;
+    return this.value;
+  }
+}
+
+/**
+ * 相对强弱指标 (RSI)，使用 Wilder 平滑
+ */
+export class RSI implements Indicator<number> {
+  private readonly avgGain: WilderAverage;
+  private readonly avgLoss: WilderAverage;
+  private previousClose = NaN;
+  value = NaN;
+
+  constructor(readonly period = 14) {
+    this.avgGain = new WilderAverage(period);
+    this.avgLoss = new WilderAverage(period);
+  }
+
+  update(candle: Candle): number {
+    const close = candle.close;
+    const change = close - this.previousClose;
+    this.previousClose = close;
+    if (isNaN(change)) return this.value;
+
+    const avgGain = this.avgGain.next(Math.max(change, 0));
+    const avgLoss = this.avgLoss.next(Math.max(-change, 0));
+    if (isNaN(avgGain)) return this.value;
+
+    this.value = avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+    return this.value;
+  }
+}
+
+/**
+ * MACD (移动平均收敛发散)
+ *
+ * 信号线是 MACD 线的 EMA，在 MACD 线有效后才开始计算
+ */
+export class MACD implements Indicator<MACDValue> {
+  private readonly fast: EMA;
+  private readonly slow: EMA;
+  private readonly signalEma: EMA;
+  value: MACDValue = { macd: NaN, signal: NaN, histogram: NaN };
+
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signalEma = new EMA(signalPeriod);
+  }
+
+  update(candle: Candle): MACDValue {
+    const macd = this.fast.update(candle) - this.slow.update(candle);
+    const signal = isNaN(macd) ? NaN : this.signalEma.next(macd);
+
+    this.value = { macd, signal, histogram: macd - signal };
+    return this.value;
+  }
+}
+
+/**
+ * 布林带
+ *
+ * 使用窗口内收盘价的总体标准差
+ */
+export class BollingerBands implements Indicator<BollingerValue> {
+  private readonly window: RollingWindow;
+  private mean = 0;
+  // 与均值之差的平方和 (滑动窗口版 Welford 算法，避免累计平方和的精度损失)
+  private squaredDeviation = 0;
+  // 距上次精确重算以来的更新次数
+  private updatesSinceResync = 0;
+  value: BollingerValue = { upper: NaN, middle: NaN, lower: NaN };
+
+  constructor(readonly period = 20, readonly multiplier = 2) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(candle: Candle): BollingerValue {
+    const close = candle.close;
+    const previousMean = this.mean;
+    const evicted = this.window.push(close);
+
+    if (evicted === undefined) {
+      this.mean += (close - previousMean) / this.window.length;
+      this.squaredDeviation += (close - previousMean) * (close - this.mean);
+    } else {
+      this.mean += (close - evicted) / this.period;
+      this.squaredDeviation +=
+        (close - evicted) * (close - this.mean + evicted - previousMean);
+
+      // 每滑过一个完整窗口精确重算一次，防止长序列上的误差累积 (均摊 O(1))
+      if (++this.updatesSinceResync >= this.period) {
+        this.resync();
+      }
+    }
+
+    if (!this.window.full) return this.value;
+
+    // 浮点误差可能让方差略小于 0
+    const variance = Math.max(0, this.squaredDeviation / this.period);
+    const width = this.multiplier * Math.sqrt(variance);
+
+    this.value = {
+      upper: this.mean + width,
+      middle: this.mean,
+      lower: this.mean - width,
+    };
+    return this.value;
+  }
+
+  /**
+   * 根据窗口内的数据重新计算均值和离差平方和
+   */
+  private resync(): void {
+    let sum = 0;
+    for (let i = 0; i < this.period; i++) {
+      sum += this.window.get(i);
+    }
+    this.mean = sum / this.period;
+
+    this.squaredDeviation = 0;
+    for (let i = 0; i < this.period; i++) {
+      this.squaredDeviation += (this.window.get(i) - this.mean) ** 2;
+    }
+    this.updatesSinceResync = 0;
+  }
+}
+
+/**
+ * 计算真实波幅
+ *
+ * @param candle 当前 K 线
+ * @param previousClose 上一根 K 线的收盘价，没有时为 NaN
+ * @returns 真实波幅
+ */
+function trueRange(candle: Candle, previousClose: number): number {
+  if (isNaN(previousClose)) return candle.high - candle.low;
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - previousClose),
+    Math.abs(candle.low - previousClose)
+  );
+}
+
+/**
+ * 平均真实波幅 (ATR)，使用 Wilder 平滑
+ */
+export class ATR implements Indicator<number> {
+  private readonly average: WilderAverage;
+  private previousClose = NaN;
+  value = NaN;
+
+  constructor(readonly period = 14) {
+    this.average = new WilderAverage(period);
+  }
+
+  update(candle: Candle): number {
+    this.value = this.average.next(trueRange(candle, this.previousClose));
+    this.previousClose = candle.close;
+    return this.value;
+  }
+}
+
+/**
+ * 趋向指标 (DMI) 及平均趋向指数 (ADX)
+ */
+export class DMI implements Indicator<DMIValue> {
+  private readonly trueRange: WilderAverage;
+  private readonly plusDM: WilderAverage;
+  private readonly minusDM: WilderAverage;
+  private readonly adx: WilderAverage;
+  private previous?: Candle;
+  value: DMIValue = { adx: NaN, plusDI: NaN, minusDI: NaN };
+
+  constructor(readonly period = 14) {
+    this.trueRange = new WilderAverage(period);
+    this.plusDM = new WilderAverage(period);
+    this.minusDM = new WilderAverage(period);
+    this.adx = new WilderAverage(period);
+  }
+
+  update(candle: Candle): DMIValue {
+    const previous = this.previous;
+    this.previous = candle;
+    if (!previous) return this.value;
+
+    const upMove = candle.high - previous.high;
+    const downMove = previous.low - candle.low;
+    const range = this.trueRange.next(trueRange(candle, previous.close));
+    const plusDM = this.plusDM.next(
+      upMove > downMove && upMove > 0 ? upMove : 0
+    );
+    const minusDM = this.minusDM.next(
+      downMove > upMove && downMove > 0 ? downMove : 0
+    );
+    if (isNaN(range)) return this.value;
+
+    const plusDI = range === 0 ? 0 : (plusDM / range) * 100;
+    const minusDI = range === 0 ? 0 : (minusDM / range) * 100;
+    const diSum = plusDI + minusDI;
+    const dx = diSum === 0 ? 0 : (Math.abs(plusDI - minusDI) / diSum) * 100;
+
+    this.value = { adx: this.adx.next(dx), plusDI, minusDI };
+    return this.value;
+  }
+}
+
+/**
+ * 随机相对强弱指标 (Stochastic RSI)
+ *
+ * K 线为 RSI 在窗口内的相对位置的简单平均，D 线为 K 线的简单平均
+ */
+export class StochasticRSI implements Indicator<StochRSIValue> {
+  private readonly rsi: RSI;
+  private readonly highest: RollingExtremum;
+  private readonly lowest: RollingExtremum;
+  private readonly k: SMA;
+  private readonly d: SMA;
+  value: StochRSIValue = { k: NaN, d: NaN };
+
+  constructor(rsiPeriod = 14, stochPeriod = 14, kPeriod = 3, dPeriod = 3) {
+    this.rsi = new RSI(rsiPeriod);
+    this.highest = new RollingExtremum(stochPeriod, 'max');
+    this.lowest = new RollingExtremum(stochPeriod, 'min');
+    this.k = new SMA(kPeriod);
+    this.d = new SMA(dPeriod);
+  }
+
+  update(candle: Candle): StochRSIValue {
+    const rsi = this.rsi.update(candle);
+    if (isNaN(rsi)) return this.value;
+
+    const highest = this.highest.push(rsi);
+    const lowest = this.lowest.push(rsi);
+    if (isNaN(highest)) return this.value;
+
+    // RSI 在窗口内没有波动时取中间值
+    const stoch =
+      highest === lowest ? 50 : ((rsi - lowest) / (highest - lowest)) * 100;
+    const k = this.k.next(stoch);
+    const d = isNaN(k) ? NaN : this.d.next(k);
+
+    this.value = { k, d };
+    return this.value;
+  }
+}
+
+/**
+ * 能量潮 (OBV)
+ *
+ * 从第一根 K 线开始累计，收盘上涨加成交量，下跌减成交量
+ */
+export class OBV implements Indicator<number> {
+  private previousClose = NaN;
+  value = NaN;
+
+  update(candle: Candle): number {
+    if (isNaN(this.previousClose)) {
+      this.value = 0;
+    } else if (candle.close > this.previousClose) {
+      this.value += candle.volume;
+    } else if (candle.close < this.previousClose) {
+      this.value -= candle.volume;
+    }
+
+    this.previousClose = candle.close;
+    return this.value;
+  }
+}
+
+/**
+ * 资金流量指标 (MFI)
+ */
+export class MFI implements Indicator<number> {
+  // 窗口内正负资金流的均值 (比值与总和相同)
+  private readonly positiveFlow: SMA;
+  private readonly negativeFlow: SMA;
+  private previousTypicalPrice = NaN;
+  value = NaN;
+
+  constructor(readonly period = 14) {
+    this.positiveFlow = new SMA(period);
+    this.negativeFlow = new SMA(period);
+  }
+
+  update(candle: Candle): number {
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    const change = typicalPrice - this.previousTypicalPrice;
+    this.previousTypicalPrice = typicalPrice;
+    if (isNaN(change)) return this.value;
+
+    const moneyFlow = typicalPrice * candle.volume;
+    const positive = this.positiveFlow.next(change > 0 ? moneyFlow : 0);
+    const negative = this.negativeFlow.next(change < 0 ? moneyFlow : 0);
+    if (isNaN(positive)) return this.value;
+
+    this.value = negative === 0 ? 100 : 100 - 100 / (1 + positive / negative);
+    return this.value;
+  }
+}
+
+/**
+ * 时段成交量加权均价 (VWAP)
+ *
+ * 按开盘时间划分时段 (默认 UTC 自然日)，每个时段开始时重新累计
+ */
+export class SessionVWAP implements Indicator<number> {
+  private session = NaN;
+  private priceVolume = 0;
+  private volume = 0;
+  value = NaN;
+
+  constructor(readonly sessionMs = 24 * 60 * 60 * 1000) {}
+
+  update(candle: Candle): number {
+    const session = Math.floor(candle.openTime / this.sessionMs);
+    if (session !== this.session) {
+      this.session = session;
+      this.priceVolume = 0;
+      this.volume = 0;
+    }
+
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    this.priceVolume += typicalPrice * candle.volume;
+    this.volume += candle.volume;
+
+    this.value = this.volume > 0 ? this.priceVolume / this.volume : NaN;
+    return this.value;
+  }
+}
+
+/**
+ * 锚定成交量加权均价 (Anchored VWAP)
+ *
+ * 从开盘时间不早于锚点的 K 线开始累计，锚点之前的值为 NaN
+ */
+export class AnchoredVWAP implements Indicator<number> {
+  private priceVolume = 0;
+  private volume = 0;
+  value = NaN;
+
+  constructor(readonly anchorTime: number) {}
+
+  update(candle: Candle): number {
+    if (candle.openTime < this.anchorTime) return this.value;
+
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    this.priceVolume += typicalPrice * candle.volume;
+    this.volume += candle.volume;
+
+    this.value = this.volume > 0 ? this.priceVolume / this.volume : NaN;
+    return this.value;
+  }
+}
+
+/**
+ * 肯特纳通道
+ *
+ * 中轨为收盘价的 EMA，上下轨为中轨加减 ATR 的倍数
+ */
+export class KeltnerChannels implements Indicator<KeltnerValue> {
+  private readonly middle: EMA;
+  private readonly atr: ATR;
+  value: KeltnerValue = { upper: NaN, middle: NaN, lower: NaN };
+
+  constructor(period = 20, atrPeriod = 10, readonly multiplier = 2) {
+    this.middle = new EMA(period);
+    this.atr = new ATR(atrPeriod);
+  }
+
+  update(candle: Candle): KeltnerValue {
+    const middle = this.middle.update(candle);
+    const width = this.atr.update(candle) * this.multiplier;
+
+    this.value = { upper: middle + width, middle, lower: middle - width };
+    return this.value;
+  }
+}
+
+/**
+ * 一目均衡表
+ *
+ * 先行带向前平移 displacement 根 K 线，这里返回的是平移后落在当前 K 线上的云层；
+ * 迟行线只是收盘价向后平移，不单独计算
+ */
+export class Ichimoku implements Indicator<IchimokuValue> {
+  private readonly conversionHigh: RollingExtremum;
+  private readonly conversionLow: RollingExtremum;
+  private readonly baseHigh: RollingExtremum;
+  private readonly baseLow: RollingExtremum;
+  private readonly spanBHigh: RollingExtremum;
+  private readonly spanBLow: RollingExtremum;
+  // 尚未平移到当前 K 线的先行带
+  private readonly leadingA: RollingWindow;
+  private readonly leadingB: RollingWindow;
+  value: IchimokuValue = {
+    conversion: NaN,
+    base: NaN,
+    spanA: NaN,
+    spanB: NaN,
+  };
+
+  constructor(
+    conversionPeriod = 9,
+    basePeriod = 26,
+    spanBPeriod = 52,
+    displacement = 26
+  ) {
+    this.conversionHigh = new RollingExtremum(conversionPeriod, 'max');
+    this.conversionLow = new RollingExtremum(conversionPeriod, 'min');
+    this.baseHigh = new RollingExtremum(basePeriod, 'max');
+    this.baseLow = new RollingExtremum(basePeriod, 'min');
+    this.spanBHigh = new RollingExtremum(spanBPeriod, 'max');
+    this.spanBLow = new RollingExtremum(spanBPeriod, 'min');
+    this.leadingA = new RollingWindow(displacement);
+    this.leadingB = new RollingWindow(displacement);
+  }
+
+  update(candle: Candle): IchimokuValue {
+    const conversion =
+      (this.conversionHigh.push(candle.high) +
+        this.conversionLow.push(candle.low)) /
+      2;
+    const base =
+      (this.baseHigh.push(candle.high) + this.baseLow.push(candle.low)) / 2;
+    const spanB =
+      (this.spanBHigh.push(candle.high) + this.spanBLow.push(candle.low)) / 2;
+
+    this.value = {
+      conversion,
+      base,
+      spanA: this.leadingA.push((conversion + base) / 2) ?? NaN,
+      spanB: this.leadingB.push(spanB) ?? NaN,
+    };
+    return this.value;
+  }
+}
+
+/**
+ * 依次输入全部 K 线，得到指标的完整序列
+ *
+ * @param indicator 新创建的指标对象
+ * @param candles 按时间升序排列的 K 线
+ * @returns 与 K 线一一对应的指标值
+ */
+export function computeSeries<T>(
+  indicator: Indicator<T>,
+  candles: Candle[]
+): T[] {
+  return candles.map((candle) => indicator.update(candle));
+}
+
+/**
+ * 常用指标组合
+ *
+ * 同时维护 IndicatorValues 中的全部指标，每根 K 线更新一次
+ */
+export class IndicatorEngine implements Indicator<IndicatorValues> {
+  private readonly rsi = new RSI(14);
+  private readonly macd = new MACD(12, 26, 9);
+  private readonly bollinger = new BollingerBands(20, 2);
+  private readonly ma7 = new SMA(7);
+  private readonly ma25 = new SMA(25);
+  private readonly ma99 = new SMA(99);
+  private readonly atr = new ATR(14);
+  private readonly dmi = new DMI(14);
+  private readonly stochRsi = new StochasticRSI(14, 14, 3, 3);
+  private readonly obv = new OBV();
+  private readonly mfi = new MFI(14);
+  private readonly vwap = new SessionVWAP();
+  private readonly keltner = new KeltnerChannels(20, 10, 2);
+  private readonly ichimoku = new Ichimoku(9, 26, 52, 26);
+
+  get value(): IndicatorValues {
+    return {
+      rsi: this.rsi.value,
+      macd: this.macd.value,
+      bollingerBands: this.bollinger.value,
+      movingAverages: {
+        ma7: this.ma7.value,
+        ma25: this.ma25.value,
+        ma99: this.ma99.value,
+      },
+      atr: this.atr.value,
+      dmi: this.dmi.value,
+      stochRsi: this.stochRsi.value,
+      obv: this.obv.value,
+      mfi: this.mfi.value,
+      vwap: this.vwap.value,
+      keltner: this.keltner.value,
+      ichimoku: this.ichimoku.value,
+    };
+  }
+
+  update(candle: Candle): IndicatorValues {
+    for (const indicator of [
+      this.rsi,
+      this.macd,
+      this.bollinger,
+      this.ma7,
+      this.ma25,
+      this.ma99,
+      this.atr,
+      this.dmi,
+      this.stochRsi,
+      this.obv,
+      this.mfi,
+      this.vwap,
+      this.keltner,
+      this.ichimoku,
+    ]) {
+      indicator.update(candle);
+    }
+    return this.value;
+  }
+}
+
+/**
+ * 计算 K 线序列末尾的常用指标值
+ *
+ * @param candles 按时间升序排列的 K 线
+ * @returns 最后一根 K 线对应的指标值
+ */
+export function calculateIndicatorValues(candles: Candle[]): IndicatorValues {
+  const engine = new IndicatorEngine();
+  for (const candle of candles) {
+    engine.update(candle);
+  }
+  return engine.value;
+}
@@ -0,0 +1,286 @@
+/**
+ * 技术指标引擎测试
+ *
+ * 参考值由 technicalindicators 3.x 在同一组收盘价上计算后记录，
+ * 前 33 个收盘价取自 StockCharts 的 RSI 示例数据，RSI 参考值与其公布的结果一致 (保留两位小数)
+ */
+
+import { assertAlmostEquals, assertEquals } from '@std/assert';
+import { Candle } from '../models/types.ts';
+import {
+  BollingerBands,
+  EMA,
+  IndicatorEngine,
+  MACD,
+  RSI,
+  SMA,
+  calculateIndicatorValues,
+  computeSeries,
+} from './engine.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// 参考数据的收盘价
+const CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89,
+  46.03, 45.61, 46.28, 46.28, 46.0, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25,
+  45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57, 43.42, 42.66, 43.13,
+  43.48, 44.02, 44.71, 45.15, 44.88, 45.39, 45.96, 46.34, 46.11, 46.87, 47.25,
+  46.92, 47.63, 48.1, 47.84, 48.56, 49.02, 48.71, 48.05, 47.4, 47.88, 48.31,
+  47.52, 46.9, 46.35, 46.82, 47.15,
+];
+
+// RSI(14)，从第 15 个收盘价开始
+const RSI_14 = [
+  70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67,
+  50.39, 40.02, 41.49, 41.9, 45.5, 37.32, 33.09, 37.79, 41.11, 45.9, 51.35,
+  54.49, 52.26, 55.93, 59.67, 61.98, 59.75, 64.33, 66.38, 62.99, 66.91, 69.24,
+  66.45, 70.04, 72.1, 68.68, 61.95, 56.11, 59.17, 61.74, 54.9, 50.2, 46.4,
+  49.89, 52.24,
+];
+
+// SMA(10)，从第 10 个收盘价开始
+const SMA_10 = [
+  44.779, 44.934, 45.128, 45.274, 45.541, 45.736, 45.853, 45.946, 46.045,
+  46.083, 46.039, 46.071, 46.093, 46.103, 46.12, 46.07, 46.005, 45.805, 45.582,
+  45.382, 45.275, 44.996, 44.637, 44.379, 44.082, 43.906, 43.842, 43.954,
+  44.024, 44.141, 44.28, 44.572, 44.917, 45.291, 45.668, 45.958, 46.25, 46.545,
+  46.841, 47.158, 47.464, 47.701, 47.895, 47.948, 48.011, 48.15, 48.139, 48.019,
+  47.87, 47.696, 47.509,
+];
+
+// EMA(10)，以前 10 个收盘价的简单平均为初始值
+const EMA_10 = [
+  44.779, 44.981, 45.171727, 45.251413, 45.438429, 45.591442, 45.665725,
+  45.731957, 45.855238, 45.921558, 45.870366, 45.932117, 45.989914, 45.939021,
+  46.031926, 45.986121, 45.870463, 45.535833, 45.289318, 45.094897, 44.999461,
+  44.712286, 44.339143, 44.119299, 44.003063, 44.006142, 44.134116, 44.318823,
+  44.420855, 44.597063, 44.84487, 45.116712, 45.29731, 45.583253, 45.886298,
+  46.074244, 46.357109, 46.673998, 46.885998, 47.190362, 47.523024, 47.738838,
+  47.795413, 47.723519, 47.75197, 47.85343, 47.792807, 47.630478, 47.397664,
+  47.292634, 47.266701,
+];
+
+// 布林带 (20, 2) 的 [上轨, 中轨, 下轨]，从第 20 个收盘价开始
+const BOLLINGER_20_2 = [
+  [47.115328, 45.409, 43.702672],
+  [47.16874, 45.5025, 43.83626],
+  [47.173324, 45.6105, 44.047676],
+  [47.100396, 45.6885, 44.276604],
+  [46.909731, 45.8305, 44.751269],
+  [46.736021, 45.903, 45.069979],
+  [46.651576, 45.929, 45.206424],
+  [46.921664, 45.8755, 44.829336],
+  [47.083355, 45.8135, 44.543645],
+  [47.179564, 45.7325, 44.285436],
+  [47.179276, 45.657, 44.134724],
+  [47.335247, 45.5335, 43.731753],
+  [47.540964, 45.365, 43.189036],
+  [47.62015, 45.241, 42.86185],
+  [47.547687, 45.101, 42.654313],
+  [47.415118, 44.988, 42.560882],
+  [47.307801, 44.9235, 42.539199],
+  [47.212425, 44.8795, 42.546575],
+  [47.028004, 44.803, 42.577996],
+  [46.908845, 44.7615, 42.614155],
+  [46.955342, 44.7775, 42.599658],
+  [46.979608, 44.784, 42.588392],
+  [46.954688, 44.777, 42.599312],
+  [47.165429, 44.835, 42.504571],
+  [47.338595, 44.875, 42.411405],
+  [47.526013, 44.932, 42.337987],
+  [47.891666, 45.046, 42.200334],
+  [48.34645, 45.2495, 42.15255],
+  [48.683733, 45.4325, 42.181267],
+  [49.120001, 45.6495, 42.178999],
+  [49.598304, 45.872, 42.145696],
+  [49.880013, 46.1365, 42.392987],
+  [49.875648, 46.406, 42.936352],
+  [49.767086, 46.6195, 43.471914],
+  [49.678545, 46.8395, 44.000455],
+  [49.646045, 47.054, 44.461955],
+  [49.557612, 47.1945, 44.831388],
+  [49.458011, 47.282, 45.105989],
+  [49.287654, 47.3555, 45.423346],
+  [49.158324, 47.427, 45.695676],
+  [49.089076, 47.4865, 45.883924],
+];
+
+// MACD (12, 26, 9) 的 [MACD 线, 信号线]，从第 26 个收盘价开始，信号线在第 34 个收盘价开始有效
+const MACD_12_26_9 = [
+  [0.306689, NaN],
+  [0.139388, NaN],
+  [0.018688, NaN],
+  [-0.072898, NaN],
+  [-0.115904, NaN],
+  [-0.240014, NaN],
+  [-0.395143, NaN],
+  [-0.474687, NaN],
+  [-0.503678, -0.148618],
+  [-0.477575, -0.214409],
+  [-0.396639, -0.250855],
+  [-0.293608, -0.259406],
+  [-0.231077, -0.25374],
+  [-0.138769, -0.230746],
+  [-0.019397, -0.188476],
+  [0.104663, -0.129848],
+  [0.182321, -0.067415],
+  [0.301713, 0.006411],
+  [0.422128, 0.089554],
+  [0.485336, 0.168711],
+  [0.585965, 0.252161],
+  [0.69562, 0.340853],
+  [0.752864, 0.423255],
+  [0.84657, 0.507918],
+  [0.947034, 0.595742],
+  [0.990223, 0.674638],
+  [0.960127, 0.731736],
+  [0.873754, 0.760139],
+  [0.834416, 0.774995],
+  [0.828388, 0.785673],
+  [0.751205, 0.77878],
+  [0.632715, 0.749567],
+  [0.488796, 0.697413],
+  [0.407961, 0.639522],
+  [0.366305, 0.584879],
+];
+
+// 参考值保留的小数位对应的误差
+const TOLERANCE = 1e-6;
+
+/**
+ * 由收盘价构造小时 K 线
+ */
+function toCandles(closes: number[]): Candle[] {
+  return closes.map((close, i) => {
+    const open = i > 0 ? closes[i - 1] : close;
+    return {
+      openTime: i * HOUR_MS,
+      open,
+      high: Math.max(open, close) * 1.004,
+      low: Math.min(open, close) * 0.996,
+      close,
+      volume: 1000 + ((i * 37) % 500),
+      closeTime: (i + 1) * HOUR_MS - 1,
+      quoteVolume: (1000 + ((i * 37) % 500)) * close,
+      trades: 100 + i,
+      takerBuyVolume: 500 + ((i * 17) % 300),
+      takerBuyQuoteVolume: (500 + ((i * 17) % 300)) * close,
+    };
+  });
+}
+
+/**
+ * 检查序列的有效部分与参考值一致，有效部分之前全部为 NaN
+ */
+function assertSeries(
+  actual: number[],
+  expected: number[],
+  tolerance = TOLERANCE
+): void {
+  const offset = actual.length - expected.length;
+  actual.slice(0, offset).forEach((value, i) => {
+    assertEquals(value, NaN, `第 ${i + 1} 个值应为 NaN`);
+  });
+  expected.forEach((value, i) => {
+    if (isNaN(value)) {
+      assertEquals(
+        actual[offset + i],
+        NaN,
+        `第 ${offset + i + 1} 个值应为 NaN`
+      );
+    } else {
+      assertAlmostEquals(
+        actual[offset + i],
+        value,
+        tolerance,
+        `第 ${offset + i + 1} 个值 ${
+          actual[offset + i]
+        } 与参考值 ${value} 不一致`
+      );
+    }
+  });
+}
+
+const candles = toCandles(CLOSES);
+
+Deno.test('RSI 与参考值一致', () => {
+  // 参考值保留两位小数
+  assertSeries(computeSeries(new RSI(14), candles), RSI_14, 0.005);
+});
+
+Deno.test('SMA 与参考值一致', () => {
+  assertSeries(computeSeries(new SMA(10), candles), SMA_10);
+});
+
+Deno.test('EMA 与参考值一致', () => {
+  assertSeries(computeSeries(new EMA(10), candles), EMA_10);
+});
+
+Deno.test('布林带与参考值一致', () => {
+  const series = computeSeries(new BollingerBands(20, 2), candles);
+  assertSeries(
+    series.map((b) => b.upper),
+    BOLLINGER_20_2.map(([upper]) => upper)
+  );
+  assertSeries(
+    series.map((b) => b.middle),
+    BOLLINGER_20_2.map(([, middle]) => middle)
+  );
+  assertSeries(
+    series.map((b) => b.lower),
+    BOLLINGER_20_2.map(([, , lower]) => lower)
+  );
+});
+
+Deno.test('MACD 与参考值一致', () => {
+  const series = computeSeries(new MACD(12, 26, 9), candles);
+  assertSeries(
+    series.map((m) => m.macd),
+    MACD_12_26_9.map(([macd]) => macd)
+  );
+  assertSeries(
+    series.map((m) => m.signal),
+    MACD_12_26_9.map(([, signal]) => signal)
+  );
+  assertSeries(
+    series.map((m) => m.histogram),
+    MACD_12_26_9.map(([macd, signal]) => macd - signal),
+    2 * TOLERANCE
+  );
+});
+
+Deno.test('增量引擎与完整序列的结果逐根一致', () => {
+  // 覆盖一目均衡表等长周期指标的预热期，并经过多次布林带精确重算
+  const closes = Array.from(
+    { length: 240 },
+    (_, i) => 100 * Math.exp(0.2 * Math.sin(i / 9) + 0.001 * i)
+  );
+  const series = toCandles(closes);
+  const rsi = computeSeries(new RSI(14), series);
+  const macd = computeSeries(new MACD(12, 26, 9), series);
+  const bollinger = computeSeries(new BollingerBands(20, 2), series);
+  const ma7 = computeSeries(new SMA(7), series);
+  const ma25 = computeSeries(new SMA(25), series);
+  const ma99 = computeSeries(new SMA(99), series);
+  const engine = new IndicatorEngine();
+
+  series.forEach((candle, i) => {
+    const values = engine.update(candle);
+    const label = `第 ${i + 1} 根 K 线`;
+
+    assertEquals(values.rsi, rsi[i], `${label} RSI 不一致`);
+    assertEquals(values.macd, macd[i], `${label} MACD 不一致`);
+    assertEquals(values.bollingerBands, bollinger[i], `${label} 布林带不一致`);
+    assertEquals(
+      values.movingAverages,
+      { ma7: ma7[i], ma25: ma25[i], ma99: ma99[i] },
+      `${label} 均线不一致`
+    );
+    assertEquals(
+      values,
+      calculateIndicatorValues(series.slice(0, i + 1)),
+      `${label} 与重新计算的指标值不一致`
+    );
+  });
+});
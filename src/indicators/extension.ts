@@ -0,0 +1,230 @@
+/**
+ * 延伸度模块
+ *
+ * 衡量一轮上涨的延伸程度：对数价格的抛物线加速、收盘价偏离均线的 ATR 倍数、
+ * 近期放量相对基准成交量的倍数、最大成交量 K 线的上影线以及连续上涨的 K 线数量。
+ * 各项按满分阈值折算后加权得到 0-100 的延伸度，延伸度越高越可能处于冲顶末端
+ */
+
+import {
+  Candle,
+  ExhaustionGrade,
+  Extension,
+  ExtensionOptions,
+} from '../models/types.ts';
+import { ATR, SMA, computeSeries } from './engine.ts';
+
+/**
+ * 默认延伸度计算参数
+ */
+export const DEFAULT_EXTENSION_OPTIONS: ExtensionOptions = {
+  meanPeriod: 20,
+  atrPeriod: 14,
+  curvatureWindow: 20,
+  volumeWindow: 20,
+  climaxWindow: 5,
+  fullAcceleration: 10,
+  fullAtrDistance: 3,
+  fullVolumeRatio: 3,
+  fullWickRatio: 0.5,
+  streakBars: 6,
+  moderateScore: 60,
+  strongScore: 75,
+  extremeScore: 90,
+};
+
+// 各项在延伸度中的权重，合计为 1
+const COMPONENT_WEIGHTS = {
+  acceleration: 0.25,
+  atrDistance: 0.25,
+  volume: 0.2,
+  wick: 0.15,
+  streak: 0.15,
+};
+
+// 衰竭程度的中文名称
+const GRADE_LABELS: Record<ExhaustionGrade, string> = {
+  moderate: '轻度',
+  strong: '明显',
+  extreme: '极度',
+};
+
+/**
+ * 计算价格走势的延伸度
+ *
+ * @param candles K 线数据，最后一根为最新 K 线
+ * @param options 计算参数
+ * @returns 延伸度及各项指标，数据不足的项按 0 计；收盘价低于均线时不判定衰竭程度
+ */
+export function measureExtension(
+  candles: Candle[],
+  options: ExtensionOptions = DEFAULT_EXTENSION_OPTIONS
+): Extension {
+  const accelerationPercent = logCurvature(candles, options.curvatureWindow);
+  const atrDistance = meanDistance(candles, options);
+  const { volumeRatio, wickRatio } = volumeClimax(candles, options);
+  const streak = upStreak(candles);
+
+  const component = (value: number, full: number) =>
+    Math.max(0, Math.min(1, value / full));
+  const score =
+    100 *
+    (COMPONENT_WEIGHTS.acceleration *
+      component(accelerationPercent, options.fullAcceleration) +
+      COMPONENT_WEIGHTS.atrDistance *
+        component(atrDistance, options.fullAtrDistance) +
+      COMPONENT_WEIGHTS.volume *
+        component(volumeRatio, options.fullVolumeRatio) +
+      COMPONENT_WEIGHTS.wick * component(wickRatio, options.fullWickRatio) +
+      COMPONENT_WEIGHTS.streak * component(streak, options.streakBars));
+  const rounded = Math.round(score * 10) / 10;
+
+  return {
+    score: rounded,
+    grade: atrDistance > 0 ? exhaustionGrade(rounded, options) : undefined,
+    accelerationPercent,
+    atrDistance,
+    volumeRatio,
+    wickRatio,
+    streak,
+  };
+}
+
+/**
+ * 从检测参数中提取延伸度计算参数
+ *
+ * @param params blowOffTop 检测器的参数，未配置该检测器时使用默认参数
+ * @returns 计算参数
+ */
+export function toExtensionOptions(
+  params?: Record<string, number>
+): ExtensionOptions {
+  if (!params) return DEFAULT_EXTENSION_OPTIONS;
+  return {
+    meanPeriod: params.meanPeriod,
+    atrPeriod: params.atrPeriod,
+    curvatureWindow: params.curvatureWindow,
+    volumeWindow: params.volumeWindow,
+    climaxWindow: params.climaxWindow,
+    fullAcceleration: params.fullAcceleration,
+    fullAtrDistance: params.fullAtrDistance,
+    fullVolumeRatio: params.fullVolumeRatio,
+    fullWickRatio: params.fullWickRatio,
+    streakBars: params.streakBars,
+    moderateScore: params.moderateScore,
+    strongScore: params.strongScore,
+    extremeScore: params.extremeScore,
+  };
+}
+
+/**
+ * 格式化延伸度摘要
+ *
+ * @param extension 延伸度
+ * @returns 单行摘要，如 72 (明显衰竭; 加速 8.1%, 偏离均线 3.2 ATR, 放量 2.4 倍, 上影线 35%, 连涨 5 根)
+ */
+export function formatExtension(extension: Extension): string {
+  const grade = extension.grade ? `${GRADE_LABELS[extension.grade]}衰竭; ` : '';
+  return `${extension.score.toFixed(
+    0
+  )} (${grade}加速 ${extension.accelerationPercent.toFixed(
+    1
+  )}%, 偏离均线 ${extension.atrDistance.toFixed(
+    1
+  )} ATR, 放量 ${extension.volumeRatio.toFixed(1)} 倍, 上影线 ${(
+    extension.wickRatio * 100
+  ).toFixed(0)}%, 连涨 ${extension.streak} 根)`;
+}
+
+/**
+ * 根据延伸度确定衰竭程度
+ */
+function exhaustionGrade(
+  score: number,
+  options: ExtensionOptions
+): ExhaustionGrade | undefined {
+  if (score >= options.extremeScore) return 'extreme';
+  if (score >= options.strongScore) return 'strong';
+  if (score >= options.moderateScore) return 'moderate';
+  return undefined;
+}
+
+/**
+ * 对数收盘价二次拟合的曲率
+ *
+ * 最近 window 根 K 线的对数收盘价以最小二乘拟合 a·x² + b·x + c (x 从 0 到 1)，
+ * 返回 a 的百分比。x 关于窗口中点对称，x² 减去均值后与常数项和一次项正交，可以单独求 a
+ */
+function logCurvature(candles: Candle[], window: number): number {
+  const closes = candles.slice(-window).map((c) => Math.log(c.close));
+  const n = closes.length;
+  if (n < 3) return 0;
+
+  const center = (n - 1) / 2;
+  const squares = closes.map((_, i) => (i - center) ** 2);
+  const meanSquare = squares.reduce((sum, s) => sum + s, 0) / n;
+  const basis = squares.map((s) => s - meanSquare);
+  const coefficient =
+    basis.reduce((sum, p, i) => sum + p * closes[i], 0) /
+    basis.reduce((sum, p) => sum + p * p, 0);
+
+  // 换算为 x 从 0 到 1 时的系数
+  return coefficient * (n - 1) ** 2 * 100;
+}
+
+/**
+ * 收盘价偏离均线的 ATR 倍数
+ */
+function meanDistance(candles: Candle[], options: ExtensionOptions): number {
+  const mean = computeSeries(new SMA(options.meanPeriod), candles).at(-1);
+  const atr = computeSeries(new ATR(options.atrPeriod), candles).at(-1);
+  if (mean === undefined || atr === undefined || !(atr > 0) || isNaN(mean)) {
+    return 0;
+  }
+  return (candles[candles.length - 1].close - mean) / atr;
+}
+
+/**
+ * 最近 climaxWindow 根 K 线中成交量最大的 K 线相对此前 volumeWindow 根 K 线平均成交量的倍数，
+ * 以及该 K 线上影线占振幅的比例
+ */
+function volumeClimax(
+  candles: Candle[],
+  options: ExtensionOptions
+): { volumeRatio: number; wickRatio: number } {
+  const recent = candles.slice(-options.climaxWindow);
+  const baseline = candles.slice(
+    -(options.climaxWindow + options.volumeWindow),
+    -options.climaxWindow
+  );
+  if (recent.length === 0) return { volumeRatio: 0, wickRatio: 0 };
+
+  const climax = recent.reduce((max, c) => (c.volume > max.volume ? c : max));
+  const averageVolume =
+    baseline.reduce((sum, c) => sum + c.volume, 0) / baseline.length;
+  const range = climax.high - climax.low;
+
+  return {
+    volumeRatio: averageVolume > 0 ? climax.volume / averageVolume : 0,
+    wickRatio:
+      range > 0
+        ? (climax.high - Math.max(climax.open, climax.close)) / range
+        : 0,
+  };
+}
+
+/**
+ * 连续收涨的 K 线数量
+ *
+ * 最新 K 线收跌时统计截至前一根 K 线的连涨数量，刚刚结束的连涨同样反映冲顶的延伸程度
+ */
+function upStreak(candles: Candle[]): number {
+  let end = candles.length - 1;
+  if (end >= 1 && candles[end].close <= candles[end - 1].close) end--;
+
+  let streak = 0;
+  for (let i = end; i >= 1 && candles[i].close > candles[i - 1].close; i--) {
+    streak++;
+  }
+  return streak;
+}
@@ -0,0 +1,286 @@
+/**
+ * 支撑 / 阻力位识别模块
+ *
+ * 从摆动高低点、成交量分布 (volume-by-price) 的密集区和前一交易日的高低点中识别水平价位，
+ * 并计算从本轮上涨起点的摆动低点到最高价的斐波那契回撤位。相近的价位合并为一个价位，
+ * 依据越多的价位越有效
+ */
+
+import { Candle, LevelOptions, PriceLevel } from '../models/types.ts';
+import { intervalToMs } from '../utils/helpers.ts';
+import { findSwingPoints } from './divergence.ts';
+
+/**
+ * 默认支撑 / 阻力位识别参数
+ */
+export const DEFAULT_LEVEL_OPTIONS: LevelOptions = {
+  swingLookback: 3,
+  volumeBins: 24,
+  volumeNodeRatio: 1.5,
+  clusterPercent: 0.5,
+  minScore: 2,
+  maxLevels: 3,
+};
+
+// 斐波那契回撤比例
+const FIBONACCI_RATIOS = [0.236, 0.382, 0.5, 0.618, 0.786];
+
+/**
+ * 合并前的单个价位及其依据
+ */
+interface LevelCandidate {
+  price: number;
+  source: string;
+}
+
+/**
+ * 识别支撑 / 阻力位
+ *
+ * @param candles K 线数据，以最后一根 K 线的收盘价区分支撑和阻力
+ * @param trackedHigh 跟踪期间的最高价，用于计算斐波那契回撤位，不指定则使用 K 线窗口内的最高价
+ * @param options 识别参数
+ * @returns 按价格从高到低排列的价位
+ */
+export function findPriceLevels(
+  candles: Candle[],
+  trackedHigh?: number,
+  options: LevelOptions = DEFAULT_LEVEL_OPTIONS
+): PriceLevel[] {
+  if (candles.length === 0) return [];
+
+  const candidates: LevelCandidate[] = [
+    ...swingCandidates(candles, options.swingLookback),
+    ...volumeNodeCandidates(
+      candles,
+      options.volumeBins,
+      options.volumeNodeRatio
+    ),
+    ...previousDayCandidates(candles),
+    ...fibonacciRetracements(candles, trackedHigh).map(({ ratio, price }) => ({
+      price,
+      source: `Fib ${(ratio * 100).toFixed(1)}%`,
+    })),
+  ];
+
+  const close = candles[candles.length - 1].close;
+  return clusterCandidates(candidates, options.clusterPercent)
+    .map((cluster): PriceLevel => {
+      const price =
+        cluster.reduce((sum, c) => sum + c.price, 0) / cluster.length;
+
+      // 同一依据出现多次时合并为一项并标注次数
+      const counts = new Map<string, number>();
+      for (const { source } of cluster) {
+        counts.set(source, (counts.get(source) ?? 0) + 1);
+      }
+
+      return {
+        price,
+        kind: price <= close ? 'support' : 'resistance',
+        score: cluster.length,
+        sources: Array.from(counts).map(([source, count]) =>
+          count > 1 ? `${source} ×${count}` : source
+        ),
+      };
+    })
+    .sort((a, b) => b.price - a.price);
+}
+
+/**
+ * 筛选价格下方的有效支撑位
+ *
+ * @param levels 识别到的价位
+ * @param price 当前价格
+ * @param options 识别参数，决定有效价位的最低依据数量和返回数量
+ * @returns 由近及远排列的支撑位
+ */
+export function supportLevelsBelow(
+  levels: PriceLevel[],
+  price: number,
+  options: LevelOptions = DEFAULT_LEVEL_OPTIONS
+): PriceLevel[] {
+  return levels
+    .filter((level) => level.price <= price && level.score >= options.minScore)
+    .sort((a, b) => b.price - a.price)
+    .slice(0, options.maxLevels);
+}
+
+/**
+ * 计算斐波那契回撤位
+ *
+ * 以 K 线窗口内最高点之前的最低价作为本轮上涨起点的摆动低点
+ *
+ * @param candles K 线数据
+ * @param trackedHigh 跟踪期间的最高价，高于窗口内最高价时使用
+ * @returns 各回撤比例对应的价格，从浅到深排列
+ */
+export function fibonacciRetracements(
+  candles: Candle[],
+  trackedHigh?: number
+): Array<{ ratio: number; price: number }> {
+  if (candles.length === 0) return [];
+
+  let highIndex = 0;
+  candles.forEach((candle, i) => {
+    if (candle.high > candles[highIndex].high) highIndex = i;
+  });
+
+  const high = Math.max(candles[highIndex].high, trackedHigh ?? 0);
+  const low = Math.min(...candles.slice(0, highIndex + 1).map((c) => c.low));
+  if (!(high > low)) return [];
+
+  return FIBONACCI_RATIOS.map((ratio) => ({
+    ratio,
+    price: high - (high - low) * ratio,
+  }));
+}
+
+/**
+ * 从检测参数中提取支撑 / 阻力位识别参数
+ *
+ * @param params supportBreak 检测器的参数，未配置该检测器时使用默认参数
+ * @returns 识别参数
+ */
+export function toLevelOptions(params?: Record<string, number>): LevelOptions {
+  if (!params) return DEFAULT_LEVEL_OPTIONS;
+  return {
+    swingLookback: params.swingLookback,
+    volumeBins: params.volumeBins,
+    volumeNodeRatio: params.volumeNodeRatio,
+    clusterPercent: params.clusterPercent,
+    minScore: params.minScore,
+    maxLevels: params.maxLevels,
+  };
+}
+
+/**
+ * 格式化价位列表
+ *
+ * @param levels 价位
+ * @returns 每个价位附带依据的描述，如 1.234 (摆动低点 ×2、Fib 61.8%)
+ */
+export function formatPriceLevels(levels: PriceLevel[]): string {
+  return levels
+    .map(
+      (level) =>
+        `${Number(level.price.toPrecision(6))} (${level.sources.join('、')})`
+    )
+    .join(', ');
+}
+
+/**
+ * 摆动高点和摆动低点，突破后的摆动高点同样可以作为支撑
+ */
+function swingCandidates(
+  candles: Candle[],
+  lookback: number
+): LevelCandidate[] {
+  return [
+    ...findSwingPoints(candles, 'high', lookback).map(({ price }) => ({
+      price,
+      source: '摆动高点',
+    })),
+    ...findSwingPoints(candles, 'low', lookback).map(({ price }) => ({
+      price,
+      source: '摆动低点',
+    })),
+  ];
+}
+
+/**
+ * 成交量分布中的成交密集区
+ *
+ * 按典型价格把每根 K 线的成交量计入对应的价格区间，成交量达到平均值的 ratio 倍
+ * 且不低于相邻区间的区间视为成交密集区，取区间中点作为价位
+ */
+function volumeNodeCandidates(
+  candles: Candle[],
+  bins: number,
+  ratio: number
+): LevelCandidate[] {
+  const low = Math.min(...candles.map((c) => c.low));
+  const high = Math.max(...candles.map((c) => c.high));
+  if (!(high > low)) return [];
+
+  const binSize = (high - low) / bins;
+  const volumes = new Array<number>(bins).fill(0);
+  for (const candle of candles) {
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    const bin = Math.min(bins - 1, Math.floor((typicalPrice - low) / binSize));
+    volumes[bin] += candle.volume;
+  }
+
+  const average = volumes.reduce((sum, v) => sum + v, 0) / bins;
+  const candidates: LevelCandidate[] = [];
+  volumes.forEach((volume, i) => {
+    if (
+      volume > 0 &&
+      volume >= average * ratio &&
+      volume >= (volumes[i - 1] ?? 0) &&
+      volume >= (volumes[i + 1] ?? 0)
+    ) {
+      candidates.push({
+        price: low + (i + 0.5) * binSize,
+        source: '成交密集区',
+      });
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * 最新 K 线所在日期 (UTC) 前一交易日的最高价和最低价
+ */
+function previousDayCandidates(candles: Candle[]): LevelCandidate[] {
+  const dayMs = intervalToMs('1d');
+  const lastDay = Math.floor(candles[candles.length - 1].openTime / dayMs);
+  const previousDay = candles
+    .map((c) => Math.floor(c.openTime / dayMs))
+    .filter((day) => day < lastDay)
+    .reduce((latest, day) => Math.max(latest, day), -Infinity);
+  const dayCandles = candles.filter(
+    (c) => Math.floor(c.openTime / dayMs) === previousDay
+  );
+  if (dayCandles.length === 0) return [];
+
+  return [
+    {
+      price: Math.max(...dayCandles.map((c) => c.high)),
+      source: '前日高点',
+    },
+    {
+      price: Math.min(...dayCandles.map((c) => c.low)),
+      source: '前日低点',
+    },
+  ];
+}
+
+/**
+ * 按价格合并相近的价位，与当前价位均值相差不超过 percent% 的归为一组
+ */
+function clusterCandidates(
+  candidates: LevelCandidate[],
+  percent: number
+): LevelCandidate[][] {
+  const clusters: LevelCandidate[][] = [];
+  let current: LevelCandidate[] = [];
+  let mean = 0;
+
+  for (const candidate of [...candidates].sort((a, b) => a.price - b.price)) {
+    if (
+      current.length > 0 &&
+      ((candidate.price - mean) / mean) * 100 <= percent
+    ) {
+      current.push(candidate);
+      mean += (candidate.price - mean) / current.length;
+    } else {
+      if (current.length > 0) clusters.push(current);
+      current = [candidate];
+      mean = candidate.price;
+    }
+  }
+  if (current.length > 0) clusters.push(current);
+
+  return clusters;
+}
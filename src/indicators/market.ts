@@ -0,0 +1,253 @@
+/**
+ * 大盘环境模块
+ *
+ * 每轮分析前计算一次大盘环境：BTC 和 ETH 的趋势、涨幅榜中跌破当日 VWAP 的币种比例、
+ * 涨幅榜的平均资金费率以及跟踪币种中已确认下跌的比例，据此得出对反转概率的调整。
+ * 山寨币见顶对 BTC 下跌和涨幅榜整体回落非常敏感，单独分析每个币种无法反映这一点
+ */
+
+import { fetchCandles, fetchCandlesEndingAt } from '../api/binance.ts';
+import { MarketDataSource, defaultDataSource } from '../api/source.ts';
+import { fetchFundingRateHistory } from '../api/derivatives.ts';
+import { isSystemWideError } from '../api/errors.ts';
+import {
+  Candle,
+  GainerInfo,
+  LifecycleState,
+  MarketContext,
+  MarketRules,
+  TrackedSymbol,
+  TrendState,
+} from '../models/types.ts';
+import { logWarning } from '../utils/helpers.ts';
+import { EMA, SessionVWAP, computeSeries } from './engine.ts';
+import { getSignalRules } from './rules.ts';
+
+// 获取的小时 K 线数量，与分析时一致，避免本地缓存中只保留较少的 K 线
+const HOURLY_CANDLES = 100;
+
+// 趋势状态的中文名称
+const TREND_LABELS: Record<TrendState, string> = {
+  up: '上涨',
+  down: '下跌',
+  neutral: '震荡',
+};
+
+// 当前生效的大盘环境
+let activeContext: MarketContext | undefined;
+
+/**
+ * 获取当前生效的大盘环境
+ *
+ * @returns 大盘环境，尚未计算时返回 undefined
+ */
+export function getMarketContext(): MarketContext | undefined {
+  return activeContext;
+}
+
+/**
+ * 设置当前生效的大盘环境
+ *
+ * @param context 大盘环境，传入 undefined 时不再调整反转概率
+ */
+export function setMarketContext(context?: MarketContext): void {
+  activeContext = context;
+}
+
+/**
+ * 计算大盘环境
+ *
+ * 单个币种的数据获取失败时跳过该币种，BTC / ETH 数据获取失败时视为震荡
+ *
+ * @param gainers 当前涨幅榜
+ * @param tracked 跟踪中的币种
+ * @param source 行情数据源
+ * @param endTime 分析时间点，指定时使用该时间之前的数据 (用于回测)
+ * @param rules 大盘环境调整规则
+ * @returns 大盘环境
+ */
+export async function buildMarketContext(
+  gainers: GainerInfo[],
+  tracked: TrackedSymbol[],
+  source: MarketDataSource = defaultDataSource,
+  endTime?: number,
+  rules: MarketRules = getSignalRules().market
+): Promise<MarketContext> {
+  const fetchHourly = (symbol: string, limit = HOURLY_CANDLES) =>
+    endTime === undefined
+      ? fetchCandles(symbol, '1h', limit, true, source)
+      : fetchCandlesEndingAt(symbol, '1h', limit, endTime, source);
+
+  const [btcTrend, ethTrend] = await Promise.all(
+    ['BTCUSDT', 'ETHUSDT'].map(async (symbol) => {
+      try {
+        // 慢速 EMA 周期超过默认数量时多取一些，否则趋势始终为震荡
+        return trendState(
+          await fetchHourly(symbol, Math.max(HOURLY_CANDLES, rules.slowPeriod)),
+          rules.fastPeriod,
+          rules.slowPeriod
+        );
+      } catch (error) {
+        if (isSystemWideError(error)) throw error;
+        logWarning(`获取 ${symbol} K 线失败，视为震荡: ${error}`);
+        return 'neutral' as const;
+      }
+    })
+  );
+
+  // 涨幅榜币种相对当日 VWAP 的位置及最新资金费率
+  let belowVwap = 0;
+  let vwapCount = 0;
+  const fundingRates: number[] = [];
+  for (const gainer of gainers) {
+    try {
+      const candles = await fetchHourly(gainer.symbol);
+      const vwap = computeSeries(new SessionVWAP(), candles).at(-1);
+      if (vwap !== undefined && !isNaN(vwap)) {
+        vwapCount++;
+        if (candles[candles.length - 1].close < vwap) belowVwap++;
+      }
+
+      const [funding] = await fetchFundingRateHistory(
+        gainer.symbol,
+        1,
+        endTime,
+        source
+      );
+      if (funding) fundingRates.push(funding.fundingRate);
+    } catch (error) {
+      if (isSystemWideError(error)) throw error;
+      logWarning(`获取 ${gainer.symbol} 大盘环境数据失败: ${error}`);
+    }
+  }
+
+  const confirmed = tracked.filter(
+    (t) => t.state === LifecycleState.CONFIRMED_DOWN
+  ).length;
+
+  return applyMarketRules(
+    {
+      timestamp: endTime ?? Date.now(),
+      btcTrend,
+      ethTrend,
+      belowVwapPercent: vwapCount > 0 ? (belowVwap / vwapCount) * 100 : 0,
+      averageFundingRate:
+        fundingRates.length > 0
+          ? fundingRates.reduce((sum, r) => sum + r, 0) / fundingRates.length
+          : undefined,
+      downtrendPercent:
+        tracked.length > 0 ? (confirmed / tracked.length) * 100 : 0,
+    },
+    rules
+  );
+}
+
+/**
+ * 根据大盘指标计算对反转概率的调整并判断涨幅榜是否整体回落
+ *
+ * @param metrics 大盘指标
+ * @param rules 大盘环境调整规则
+ * @returns 大盘环境
+ */
+export function applyMarketRules(
+  metrics: Omit<MarketContext, 'rollingOver' | 'modifier' | 'reasons'>,
+  rules: MarketRules = getSignalRules().market
+): MarketContext {
+  const reasons: string[] = [];
+  let modifier = 0;
+
+  if (metrics.btcTrend === 'down') {
+    modifier += rules.btcDownBonus;
+    reasons.push('BTC 下跌趋势');
+  } else if (metrics.btcTrend === 'up') {
+    modifier -= rules.btcUpPenalty;
+    reasons.push('BTC 上涨趋势');
+  }
+
+  if (metrics.ethTrend === 'down') {
+    modifier += rules.ethDownBonus;
+    reasons.push('ETH 下跌趋势');
+  }
+
+  const weakBreadth = metrics.belowVwapPercent >= rules.belowVwapPercent;
+  if (weakBreadth) {
+    modifier += rules.breadthBonus;
+    reasons.push(
+      `涨幅榜 ${metrics.belowVwapPercent.toFixed(0)}% 的币种低于当日 VWAP`
+    );
+  }
+
+  if (
+    metrics.averageFundingRate !== undefined &&
+    metrics.averageFundingRate >= rules.fundingThreshold
+  ) {
+    modifier += rules.fundingBonus;
+    reasons.push(
+      `涨幅榜平均资金费率 ${(metrics.averageFundingRate * 100).toFixed(4)}%`
+    );
+  }
+
+  const rollingOver =
+    weakBreadth && metrics.downtrendPercent >= rules.rollingOverPercent;
+  if (rollingOver) {
+    modifier += rules.rollingOverBonus;
+    reasons.push(`跟踪币种 ${metrics.downtrendPercent.toFixed(0)}% 已确认下跌`);
+  }
+
+  return {
+    ...metrics,
+    rollingOver,
+    modifier: Math.max(
+      -rules.maxModifier,
+      Math.min(rules.maxModifier, modifier)
+    ),
+    reasons,
+  };
+}
+
+/**
+ * 格式化大盘环境摘要
+ *
+ * @param context 大盘环境
+ * @returns 单行摘要
+ */
+export function formatMarketContext(context: MarketContext): string {
+  const funding =
+    context.averageFundingRate !== undefined
+      ? `${(context.averageFundingRate * 100).toFixed(4)}%`
+      : '-';
+  return (
+    `BTC ${TREND_LABELS[context.btcTrend]}, ETH ${
+      TREND_LABELS[context.ethTrend]
+    }, 低于 VWAP ${context.belowVwapPercent.toFixed(0)}%, ` +
+    `平均资金费率 ${funding}, 已确认下跌 ${context.downtrendPercent.toFixed(
+      0
+    )}%, 概率调整 ${context.modifier >= 0 ? '+' : ''}${context.modifier}`
+  );
+}
+
+/**
+ * 根据收盘价与快慢 EMA 的排列判断趋势
+ *
+ * 收盘价 > 快线 > 慢线为上涨，收盘价 < 快线 < 慢线为下跌，其余为震荡
+ *
+ * @param candles K 线数据
+ * @param fastPeriod 快速 EMA 周期
+ * @param slowPeriod 慢速 EMA 周期
+ * @returns 趋势状态
+ */
+export function trendState(
+  candles: Candle[],
+  fastPeriod: number,
+  slowPeriod: number
+): TrendState {
+  if (candles.length < slowPeriod) return 'neutral';
+
+  const close = candles[candles.length - 1].close;
+  const fast = computeSeries(new EMA(fastPeriod), candles).at(-1)!;
+  const slow = computeSeries(new EMA(slowPeriod), candles).at(-1)!;
+
+  if (close > fast && fast > slow) return 'up';
+  if (close < fast && fast < slow) return 'down';
+  return 'neutral';
+}
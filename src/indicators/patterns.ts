@@ -0,0 +1,319 @@
+/**
+ * K 线形态识别模块
+ *
+ * 识别出现在上涨末端的看跌反转形态，并根据形态所处位置 (距跟踪高点和布林带上轨的距离) 调整信号强度
+ */
+
+import {
+  Candle,
+  CandlestickPattern,
+  CandlestickPatternOptions,
+  SignalType,
+} from '../models/types.ts';
+import { BollingerBands, computeSeries } from './engine.ts';
+
+/**
+ * 默认形态识别参数
+ */
+export const DEFAULT_PATTERN_OPTIONS: CandlestickPatternOptions = {
+  smallBodyRatio: 0.3,
+  longBodyRatio: 0.6,
+  longWickRatio: 2,
+  shortWickRatio: 0.1,
+  priceTolerance: 0.001,
+  trendLookback: 5,
+};
+
+// 各形态的基础强度 (形态本身的可靠性)
+const PATTERN_BASE_STRENGTH: Record<string, number> = {
+  [SignalType.BEARISH_ENGULFING]: 70,
+  [SignalType.EVENING_STAR]: 75,
+  [SignalType.SHOOTING_STAR]: 60,
+  [SignalType.HANGING_MAN]: 50,
+  [SignalType.DARK_CLOUD_COVER]: 65,
+  [SignalType.THREE_BLACK_CROWS]: 75,
+  [SignalType.TWEEZER_TOP]: 55,
+  [SignalType.BEARISH_HARAMI]: 45,
+};
+
+// 形态高点距跟踪高点超过该百分比时不再因位置加分
+const NEAR_HIGH_RANGE_PERCENT = 10;
+
+/**
+ * 识别在最后一根 K 线完成的看跌形态
+ *
+ * @param candles K 线数据
+ * @param trackedHigh 跟踪期间的最高价，不指定则使用 K 线窗口内的最高价
+ * @param options 形态识别参数
+ * @returns 识别到的形态，按强度降序排列
+ */
+export function detectBearishPatterns(
+  candles: Candle[],
+  trackedHigh?: number,
+  options: CandlestickPatternOptions = DEFAULT_PATTERN_OPTIONS
+): CandlestickPattern[] {
+  const lastIndex = candles.length - 1;
+  if (lastIndex < 3) return [];
+
+  const detectors: Array<[SignalType, number, PatternDetector]> = [
+    [SignalType.BEARISH_ENGULFING, 2, isBearishEngulfing],
+    [SignalType.EVENING_STAR, 3, isEveningStar],
+    [SignalType.SHOOTING_STAR, 1, isShootingStar],
+    [SignalType.HANGING_MAN, 1, isHangingMan],
+    [SignalType.DARK_CLOUD_COVER, 2, isDarkCloudCover],
+    [SignalType.THREE_BLACK_CROWS, 3, isThreeBlackCrows],
+    [SignalType.TWEEZER_TOP, 2, isTweezerTop],
+    [SignalType.BEARISH_HARAMI, 2, isBearishHarami],
+  ];
+
+  const bollinger = computeSeries(new BollingerBands(20, 2), candles)[
+    lastIndex
+  ];
+  const high = trackedHigh ?? Math.max(...candles.map((c) => c.high));
+  const patterns: CandlestickPattern[] = [];
+
+  for (const [type, length, detector] of detectors) {
+    const startIndex = lastIndex - length + 1;
+    // 形态之前需要有一段上涨
+    if (!isPriorUptrend(candles, startIndex, options.trendLookback)) continue;
+    if (!detector(candles.slice(startIndex), options)) continue;
+
+    const patternHigh = Math.max(
+      ...candles.slice(startIndex).map((c) => c.high)
+    );
+    const distanceFromHigh = ((high - patternHigh) / high) * 100;
+
+    // 越接近跟踪高点、越接近或突破布林带上轨，位置得分越高 (0-1)
+    const highScore = clamp(1 - distanceFromHigh / NEAR_HIGH_RANGE_PERCENT);
+    const bandScore = clamp(
+      (patternHigh - bollinger.middle) / (bollinger.upper - bollinger.middle)
+    );
+
+    const strength =
+      PATTERN_BASE_STRENGTH[type] *
+      (0.5 + 0.25 * highScore + 0.25 * (isNaN(bandScore) ? 0 : bandScore));
+
+    patterns.push({
+      type,
+      candles: length,
+      strength,
+      description: `${type}，形态高点 ${patternHigh} 距跟踪高点 ${Math.max(
+        0,
+        distanceFromHigh
+      ).toFixed(2)}%${
+        patternHigh >= bollinger.upper ? '，触及布林带上轨' : ''
+      }`,
+    });
+  }
+
+  return patterns.sort((a, b) => b.strength - a.strength);
+}
+
+/**
+ * 形态判断函数
+ *
+ * @param candles 组成形态的 K 线，按时间升序
+ * @param options 形态识别参数
+ * @returns 是否符合形态
+ */
+type PatternDetector = (
+  candles: Candle[],
+  options: CandlestickPatternOptions
+) => boolean;
+
+/**
+ * 看跌吞没：阴线实体完全覆盖前一根阳线实体
+ */
+function isBearishEngulfing(
+  [first, second]: Candle[],
+  options: CandlestickPatternOptions
+): boolean {
+  return (
+    isBullish(first) &&
+    isBearish(second) &&
+    second.open >= first.close * (1 - options.priceTolerance) &&
+    second.close < first.open &&
+    body(second) > body(first)
+  );
+}
+
+/**
+ * 黄昏星：长阳线后出现高位小实体，随后阴线收于第一根阳线实体中点以下
+ */
+function isEveningStar(
+  [first, star, third]: Candle[],
+  options: CandlestickPatternOptions
+): boolean {
+  return (
+    isBullish(first) &&
+    isLongBody(first, options) &&
+    isSmallBody(star, options) &&
+    Math.min(star.open, star.close) >=
+      first.close * (1 - options.priceTolerance) &&
+    isBearish(third) &&
+    third.close < (first.open + first.close) / 2
+  );
+}
+
+/**
+ * 射击之星：小实体位于底部，上影线很长，几乎没有下影线
+ */
+function isShootingStar(
+  [candle]: Candle[],
+  options: CandlestickPatternOptions
+): boolean {
+  return (
+    isSmallBody(candle, options) &&
+    upperWick(candle) >= body(candle) * options.longWickRatio &&
+    lowerWick(candle) <= range(candle) * options.shortWickRatio &&
+    range(candle) > 0
+  );
+}
+
+/**
+ * 上吊线：小实体位于顶部，下影线很长，几乎没有上影线
+ */
+function isHangingMan(
+  [candle]: Candle[],
+  options: CandlestickPatternOptions
+): boolean {
+  return (
+    isSmallBody(candle, options) &&
+    lowerWick(candle) >= body(candle) * options.longWickRatio &&
+    upperWick(candle) <= range(candle) * options.shortWickRatio &&
+    range(candle) > 0
+  );
+}
+
+/**
+ * 乌云盖顶：长阳线后阴线高开，收于阳线实体中点以下但未跌破开盘价
+ */
+function isDarkCloudCover(
+  [first, second]: Candle[],
+  options: CandlestickPatternOptions
+): boolean {
+  const midpoint = (first.open + first.close) / 2;
+  return (
+    isBullish(first) &&
+    isLongBody(first, options) &&
+    isBearish(second) &&
+    second.open >= first.close * (1 - options.priceTolerance) &&
+    second.close < midpoint &&
+    second.close > first.open
+  );
+}
+
+/**
+ * 三只乌鸦：连续三根长阴线，每根在前一根实体内开盘并收出更低的收盘价
+ */
+function isThreeBlackCrows(
+  candles: Candle[],
+  options: CandlestickPatternOptions
+): boolean {
+  return candles.every((candle, i) => {
+    if (!isBearish(candle) || !isLongBody(candle, options)) return false;
+    if (i === 0) return true;
+
+    const previous = candles[i - 1];
+    return (
+      candle.open <= previous.open &&
+      candle.open >= previous.close * (1 - options.priceTolerance) &&
+      candle.close < previous.close
+    );
+  });
+}
+
+/**
+ * 平头顶部：阳线后紧接阴线，两根 K 线的最高价几乎相同
+ */
+function isTweezerTop(
+  [first, second]: Candle[],
+  options: CandlestickPatternOptions
+): boolean {
+  return (
+    isBullish(first) &&
+    isBearish(second) &&
+    Math.abs(first.high - second.high) / first.high <= options.priceTolerance
+  );
+}
+
+/**
+ * 看跌孕线：长阳线后出现实体完全位于其实体内的小阴线
+ */
+function isBearishHarami(
+  [first, second]: Candle[],
+  options: CandlestickPatternOptions
+): boolean {
+  return (
+    isBullish(first) &&
+    isLongBody(first, options) &&
+    isBearish(second) &&
+    second.open <= first.close &&
+    second.close >= first.open &&
+    body(second) <= body(first) * 0.5
+  );
+}
+
+/**
+ * 判断形态之前是否处于上涨
+ *
+ * @param candles K 线数据
+ * @param startIndex 形态第一根 K 线的位置
+ * @param lookback 回看的 K 线数量
+ * @returns 形态前一根 K 线的收盘价是否高于 lookback 根之前
+ */
+function isPriorUptrend(
+  candles: Candle[],
+  startIndex: number,
+  lookback: number
+): boolean {
+  const before = startIndex - 1;
+  if (before - lookback < 0) return false;
+  return candles[before].close > candles[before - lookback].close;
+}
+
+// K 线实体、振幅和影线的基础计算
+
+function body(candle: Candle): number {
+  return Math.abs(candle.close - candle.open);
+}
+
+function range(candle: Candle): number {
+  return candle.high - candle.low;
+}
+
+function upperWick(candle: Candle): number {
+  return candle.high - Math.max(candle.open, candle.close);
+}
+
+function lowerWick(candle: Candle): number {
+  return Math.min(candle.open, candle.close) - candle.low;
+}
+
+function isBullish(candle: Candle): boolean {
+  return candle.close > candle.open;
+}
+
+function isBearish(candle: Candle): boolean {
+  return candle.close < candle.open;
+}
+
+function isSmallBody(
+  candle: Candle,
+  options: CandlestickPatternOptions
+): boolean {
+  return body(candle) <= range(candle) * options.smallBodyRatio;
+}
+
+function isLongBody(
+  candle: Candle,
+  options: CandlestickPatternOptions
+): boolean {
+  return (
+    range(candle) > 0 && body(candle) >= range(candle) * options.longBodyRatio
+  );
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,191 @@
+/**
+ * 信号检测器注册表
+ *
+ * 统一管理内置检测器和从插件目录加载的自定义检测器。分析模块按注册顺序调用全部检测器，
+ * 检测器 ID 即规则文件 detectors 中的名称，插件检测器同样可以在规则文件中启用、调整参数和权重
+ */
+
+import { DetectorRule, SignalDetector } from '../models/types.ts';
+import { BUILTIN_DETECTORS } from './detectors/index.ts';
+
+// 内置检测器所属的插件名称
+export const BUILTIN_PLUGIN = 'builtin';
+
+// 插件模块的文件扩展名
+const PLUGIN_EXTENSIONS = ['.ts', '.js', '.mjs'];
+
+// 检测器可以声明依赖的数据
+const REQUIREMENTS = ['derivatives', 'relativeStrength', 'orderBook'];
+
+/**
+ * 已注册的检测器及其所属插件
+ */
+export interface RegisteredDetector {
+  detector: SignalDetector;
+  plugin: string; // 插件名称 (插件文件名)，内置检测器为 builtin
+}
+
+// 按注册顺序排列的检测器
+const registry: RegisteredDetector[] = [];
+
+/**
+ * 注册信号检测器
+ *
+ * @param detector 信号检测器
+ * @param plugin 所属插件名称
+ * @throws 检测器定义无效或 ID 已被注册时抛出错误
+ */
+export function registerDetector(
+  detector: SignalDetector,
+  plugin = BUILTIN_PLUGIN
+): void {
+  const errors = validateDetector(detector);
+  if (errors.length > 0) {
+    throw new Error(errors.join('；'));
+  }
+
+  const existing = registry.find((r) => r.detector.id === detector.id);
+  if (existing) {
+    throw new Error(
+      `检测器 ${detector.id} 已由 ${existing.plugin} 注册，检测器 ID 不能重复`
+    );
+  }
+
+  registry.push({ detector, plugin });
+}
+
+/**
+ * 获取已注册的检测器
+ *
+ * @returns 按注册顺序排列的检测器及其所属插件
+ */
+export function getDetectors(): RegisteredDetector[] {
+  return [...registry];
+}
+
+/**
+ * 获取已注册检测器的默认规则
+ *
+ * @returns 按检测器 ID 索引的默认规则
+ */
+export function getDefaultDetectorRules(): Record<string, DetectorRule> {
+  return Object.fromEntries(
+    registry.map(({ detector }) => [detector.id, detector.defaultRule])
+  );
+}
+
+/**
+ * 从目录加载检测器插件
+ *
+ * 目录中的每个 .ts / .js / .mjs 文件为一个插件，按文件名顺序加载。插件模块以默认导出
+ * 提供一个或多个检测器，或以 detectors 导出检测器数组，插件名称为不含扩展名的文件名
+ *
+ * @param dir 插件目录
+ * @returns 加载的插件名称及其检测器 ID
+ * @throws 目录无法读取、插件无法导入或检测器定义无效时抛出错误
+ */
+export async function loadDetectorPlugins(
+  dir: string
+): Promise<Array<{ plugin: string; detectors: string[] }>> {
+  const files: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (
+        entry.isFile &&
+        PLUGIN_EXTENSIONS.some((ext) => entry.name.endsWith(ext))
+      ) {
+        files.push(entry.name);
+      }
+    }
+  } catch (error) {
+    throw new Error(`无法读取插件目录 ${dir}: ${error}`);
+  }
+
+  // 相对路径以当前工作目录为基准
+  const dirUrl = new URL(
+    dir.endsWith('/') ? dir : `${dir}/`,
+    `file://${Deno.cwd()}/`
+  );
+
+  const loaded: Array<{ plugin: string; detectors: string[] }> = [];
+  for (const file of files.sort()) {
+    const plugin = file.slice(0, file.lastIndexOf('.'));
+    try {
+      const module = await import(new URL(file, dirUrl).href);
+      const exported = module.default ?? module.detectors;
+      const detectors: SignalDetector[] = Array.isArray(exported)
+        ? exported
+        : exported !== undefined
+        ? [exported]
+        : [];
+      if (detectors.length === 0) {
+        throw new Error('未导出任何检测器 (default 或 detectors)');
+      }
+
+      for (const detector of detectors) {
+        registerDetector(detector, plugin);
+      }
+      loaded.push({ plugin, detectors: detectors.map((d) => d.id) });
+    } catch (error) {
+      throw new Error(
+        `插件 ${file} 无效: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * 校验检测器定义
+ */
+function validateDetector(detector: SignalDetector): string[] {
+  if (typeof detector !== 'object' || detector === null) {
+    return ['检测器必须为对象'];
+  }
+
+  const errors: string[] = [];
+  const id = typeof detector.id === 'string' ? detector.id : '';
+  if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(id)) {
+    errors.push(`检测器 ID ${detector.id} 无效，只能包含字母、数字和下划线`);
+  }
+  if (typeof detector.detect !== 'function') {
+    errors.push(`检测器 ${id} 缺少 detect 函数`);
+  }
+
+  const rule = detector.defaultRule;
+  if (
+    typeof rule?.enabled !== 'boolean' ||
+    typeof rule.weight !== 'number' ||
+    typeof rule.params !== 'object' ||
+    rule.params === null ||
+    Object.values(rule.params).some((p) => typeof p !== 'number')
+  ) {
+    errors.push(
+      `检测器 ${id} 的 defaultRule 必须包含 enabled、weight 和数值参数 params`
+    );
+  }
+
+  if (
+    detector.requires !== undefined &&
+    !(
+      Array.isArray(detector.requires) &&
+      detector.requires.every((r) => REQUIREMENTS.includes(r))
+    )
+  ) {
+    errors.push(`检测器 ${id} 的 requires 只能包含 ${REQUIREMENTS.join(', ')}`);
+  }
+
+  if (
+    detector.maxSignals !== undefined &&
+    !(Number.isInteger(detector.maxSignals) && detector.maxSignals >= 1)
+  ) {
+    errors.push(`检测器 ${id} 的 maxSignals 必须为正整数`);
+  }
+
+  return errors;
+}
+
+for (const detector of BUILTIN_DETECTORS) {
+  registerDetector(detector);
+}
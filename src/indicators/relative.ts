@@ -0,0 +1,135 @@
+/**
+ * 相对强弱模块
+ *
+ * 用已有的 K 线构建币种相对 BTCUSDT 的比值 K 线和同类币种篮子指数，供分析模块在比值序列上
+ * 运行同一套技术指标。币种以 USDT 计价仍然强势、但相对 BTC 或同类币种已经走弱时，往往是资金开始撤出的早期迹象
+ */
+
+import { Candle } from '../models/types.ts';
+
+// BTC 基准的交易对
+export const BTC_BENCHMARK = 'BTCUSDT';
+
+// 同类币种篮子基准的名称
+export const PEER_BASKET = '同类篮子';
+
+// 构建同类篮子至少需要的币种数量
+const MIN_PEERS = 3;
+
+/**
+ * 构建比值 K 线
+ *
+ * 只保留两者开盘时间相同的 K 线；开高低收取两者之比，成交量等字段沿用币种自身的数据
+ *
+ * @param candles 币种的 K 线
+ * @param benchmark 基准的 K 线
+ * @returns 比值 K 线
+ */
+export function buildRatioCandles(
+  candles: Candle[],
+  benchmark: Candle[]
+): Candle[] {
+  const byTime = new Map(benchmark.map((c) => [c.openTime, c]));
+  const ratios: Candle[] = [];
+
+  for (const candle of candles) {
+    const base = byTime.get(candle.openTime);
+    if (!base || !(base.open > 0 && base.close > 0 && base.low > 0)) continue;
+
+    const open = candle.open / base.open;
+    const close = candle.close / base.close;
+    ratios.push({
+      ...candle,
+      open,
+      close,
+      // 两者的最高价和最低价未必出现在同一时刻，用同向之比近似，并保证包含开盘价和收盘价
+      high: Math.max(open, close, candle.high / base.high),
+      low: Math.min(open, close, candle.low / base.low),
+    });
+  }
+
+  return ratios;
+}
+
+/**
+ * 构建等权重篮子指数
+ *
+ * 每个成员以第一根 K 线的开盘价归一化后取平均，只保留所有成员都有数据的时间点；
+ * K 线少于最长成员的币种 (如新上线的币种) 不计入
+ *
+ * @param members 各成员的 K 线
+ * @returns 篮子指数 K 线，成交量为成员成交额之和
+ */
+export function buildPeerIndex(members: Candle[][]): Candle[] {
+  const longest = Math.max(0, ...members.map((m) => m.length));
+  const complete = members.filter((m) => m.length > 0 && m.length === longest);
+  if (complete.length === 0) return [];
+
+  const maps = complete.map((m) => new Map(m.map((c) => [c.openTime, c])));
+  const times = complete[0]
+    .map((c) => c.openTime)
+    .filter((time) => maps.every((m) => m.has(time)));
+  if (times.length === 0) return [];
+
+  const bases = maps.map((m) => m.get(times[0])!.open);
+  return times.map((time) => {
+    const candles = maps.map((m) => m.get(time)!);
+    const average = (price: (c: Candle) => number) =>
+      candles.reduce((sum, c, i) => sum + price(c) / bases[i], 0) /
+      candles.length;
+    const total = (value: (c: Candle) => number) =>
+      candles.reduce((sum, c) => sum + value(c), 0);
+
+    return {
+      openTime: time,
+      closeTime: candles[0].closeTime,
+      open: average((c) => c.open),
+      high: average((c) => c.high),
+      low: average((c) => c.low),
+      close: average((c) => c.close),
+      volume: total((c) => c.quoteVolume),
+      quoteVolume: total((c) => c.quoteVolume),
+      trades: total((c) => c.trades),
+      takerBuyVolume: total((c) => c.takerBuyQuoteVolume),
+      takerBuyQuoteVolume: total((c) => c.takerBuyQuoteVolume),
+    };
+  });
+}
+
+/**
+ * 构建币种各时间周期的相对强弱基准
+ *
+ * BTC 基准使用 BTCUSDT 的 K 线 (BTCUSDT 自身除外)，同类篮子由同一批分析的其他币种组成
+ *
+ * @param symbol 币种
+ * @param candlesBySymbol 同一批分析的各币种各时间周期的 K 线
+ * @param btcCandles BTCUSDT 各时间周期的 K 线，可选
+ * @returns 各时间周期的基准 K 线，按基准名称索引
+ */
+export function buildBenchmarks(
+  symbol: string,
+  candlesBySymbol: Map<string, Record<string, Candle[]>>,
+  btcCandles?: Record<string, Candle[]>
+): Record<string, Record<string, Candle[]>> {
+  const benchmarks: Record<string, Record<string, Candle[]>> = {};
+
+  for (const timeframe of Object.keys(candlesBySymbol.get(symbol) ?? {})) {
+    const byName: Record<string, Candle[]> = {};
+
+    if (symbol !== BTC_BENCHMARK && btcCandles?.[timeframe]) {
+      byName[BTC_BENCHMARK] = btcCandles[timeframe];
+    }
+
+    const peers = Array.from(candlesBySymbol)
+      .filter(([peer]) => peer !== symbol && peer !== BTC_BENCHMARK)
+      .map(([, candles]) => candles[timeframe])
+      .filter((candles) => candles !== undefined);
+    if (peers.length >= MIN_PEERS) {
+      byName[PEER_BASKET] = buildPeerIndex(peers);
+    }
+
+    benchmarks[timeframe] = byName;
+  }
+
+  return benchmarks;
+}
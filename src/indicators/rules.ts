@@ -0,0 +1,406 @@
+/**
+ * 信号规则配置
+ *
+ * 定义启用哪些信号检测器、各检测器的参数和强度权重，以及反转概率的聚合方式。
+ * 内置默认规则与 rules/default.json 一致，规则文件中未指定的项使用默认值；
+ * 检测器的默认规则由各检测器自身定义，插件检测器同样可以在规则文件中配置
+ */
+
+import {
+  DetectorRule,
+  MarketRules,
+  ProbabilityRules,
+  SignalRules,
+} from '../models/types.ts';
+import { intervalToMs } from '../utils/helpers.ts';
+import { BUILTIN_DETECTORS } from './detectors/index.ts';
+import { getDefaultDetectorRules } from './registry.ts';
+
+/**
+ * 内置默认规则
+ */
+export const DEFAULT_SIGNAL_RULES: SignalRules = {
+  detectors: Object.fromEntries(
+    BUILTIN_DETECTORS.map((detector) => [detector.id, detector.defaultRule])
+  ),
+  probability: {
+    method: 'coverage',
+    strengthMultiplier: 2,
+    bonusPerSignal: 15,
+    maxSignalBonus: 30,
+    confluenceBonus: 10,
+    maxConfluenceBonus: 25,
+    alertThreshold: 60,
+  },
+  market: {
+    enabled: true,
+    fastPeriod: 20,
+    slowPeriod: 50,
+    btcDownBonus: 10,
+    ethDownBonus: 5,
+    btcUpPenalty: 5,
+    belowVwapPercent: 60,
+    breadthBonus: 10,
+    fundingThreshold: 0.0005,
+    fundingBonus: 5,
+    rollingOverPercent: 40,
+    rollingOverBonus: 10,
+    maxModifier: 25,
+  },
+  timeframeWeights: {
+    '15m': 0.15,
+    '1h': 0.35,
+    '4h': 0.3,
+    '1d': 0.2,
+  },
+};
+
+// 当前生效的规则
+let activeRules = DEFAULT_SIGNAL_RULES;
+
+/**
+ * 获取当前生效的信号规则
+ *
+ * @returns 信号规则
+ */
+export function getSignalRules(): SignalRules {
+  return activeRules;
+}
+
+/**
+ * 设置当前生效的信号规则
+ *
+ * @param rules 信号规则
+ */
+export function setSignalRules(rules: SignalRules): void {
+  activeRules = rules;
+}
+
+/**
+ * 从 JSON 文件加载信号规则
+ *
+ * @param path 规则文件路径，不指定则使用默认规则 (包含已加载插件的检测器)
+ * @returns 校验并合并默认值后的信号规则
+ */
+export async function loadSignalRules(path?: string): Promise<SignalRules> {
+  if (!path) return parseSignalRules({});
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(`无法读取规则文件 ${path}: ${error}`);
+  }
+
+  try {
+    return parseSignalRules(data);
+  } catch (error) {
+    throw new Error(
+      `规则文件 ${path} 无效: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * 校验规则数据并与默认规则合并
+ *
+ * 检测器和参数只能覆盖已注册检测器默认规则中已有的项，timeframeWeights 指定时整体替换默认权重
+ *
+ * @param data 规则数据
+ * @returns 信号规则
+ */
+export function parseSignalRules(data: unknown): SignalRules {
+  const errors: string[] = [];
+  const root = expectObject(data, '规则', errors) ?? {};
+  checkKeys(
+    root,
+    ['detectors', 'probability', 'market', 'timeframeWeights'],
+    '规则',
+    errors
+  );
+
+  const detectorDefaults = getDefaultDetectorRules();
+  const detectors: Record<string, DetectorRule> = {};
+  const detectorOverrides =
+    root.detectors === undefined
+      ? {}
+      : expectObject(root.detectors, 'detectors', errors) ?? {};
+  checkKeys(
+    detectorOverrides,
+    Object.keys(detectorDefaults),
+    'detectors',
+    errors
+  );
+
+  for (const [name, defaults] of Object.entries(detectorDefaults)) {
+    detectors[name] = parseDetectorRule(
+      detectorOverrides[name],
+      defaults,
+      `detectors.${name}`,
+      errors
+    );
+
+    const { fastPeriod, slowPeriod } = detectors[name].params;
+    if (fastPeriod !== undefined && fastPeriod >= slowPeriod) {
+      errors.push(`detectors.${name} 的 fastPeriod 必须小于 slowPeriod`);
+    }
+
+    const { moderateScore, strongScore, extremeScore } = detectors[name].params;
+    if (
+      moderateScore !== undefined &&
+      !(moderateScore <= strongScore && strongScore <= extremeScore)
+    ) {
+      errors.push(
+        `detectors.${name} 的 moderateScore、strongScore 和 extremeScore 必须依次不减`
+      );
+    }
+
+    const { nearBandPercent, farBandPercent, imbalanceThreshold } =
+      detectors[name].params;
+    if (nearBandPercent !== undefined && !(nearBandPercent < farBandPercent)) {
+      errors.push(
+        `detectors.${name} 的 nearBandPercent 必须小于 farBandPercent`
+      );
+    }
+    if (imbalanceThreshold !== undefined && imbalanceThreshold > 1) {
+      errors.push(`detectors.${name} 的 imbalanceThreshold 不能超过 1`);
+    }
+  }
+
+  const probability = parseProbabilityRules(root.probability, errors);
+  const market = parseMarketRules(root.market, errors);
+
+  let timeframeWeights = DEFAULT_SIGNAL_RULES.timeframeWeights;
+  if (root.timeframeWeights !== undefined) {
+    const weights =
+      expectObject(root.timeframeWeights, 'timeframeWeights', errors) ?? {};
+    timeframeWeights = {};
+    for (const [timeframe, weight] of Object.entries(weights)) {
+      try {
+        intervalToMs(timeframe);
+      } catch {
+        errors.push(`timeframeWeights 中的周期 ${timeframe} 无效`);
+        continue;
+      }
+      if (checkNumber(weight, `timeframeWeights.${timeframe}`, errors, 0)) {
+        timeframeWeights[timeframe] = weight;
+      }
+    }
+    if (!Object.values(timeframeWeights).some((w) => w > 0)) {
+      errors.push('timeframeWeights 至少需要一个大于 0 的权重');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('；'));
+  }
+
+  return { detectors, probability, market, timeframeWeights };
+}
+
+/**
+ * 校验单个检测器的规则并与默认值合并
+ */
+function parseDetectorRule(
+  value: unknown,
+  defaults: DetectorRule,
+  context: string,
+  errors: string[]
+): DetectorRule {
+  if (value === undefined) return defaults;
+  const rule = expectObject(value, context, errors);
+  if (!rule) return defaults;
+  checkKeys(rule, ['enabled', 'weight', 'params'], context, errors);
+
+  const result: DetectorRule = {
+    enabled: defaults.enabled,
+    weight: defaults.weight,
+    params: { ...defaults.params },
+  };
+
+  if (rule.enabled !== undefined) {
+    if (typeof rule.enabled === 'boolean') {
+      result.enabled = rule.enabled;
+    } else {
+      errors.push(`${context}.enabled 必须为 true 或 false`);
+    }
+  }
+
+  if (
+    rule.weight !== undefined &&
+    checkNumber(rule.weight, `${context}.weight`, errors, 0)
+  ) {
+    result.weight = rule.weight;
+  }
+
+  if (rule.params !== undefined) {
+    const params = expectObject(rule.params, `${context}.params`, errors) ?? {};
+    checkKeys(
+      params,
+      Object.keys(defaults.params),
+      `${context}.params`,
+      errors
+    );
+
+    for (const [name, param] of Object.entries(params)) {
+      if (!(name in defaults.params)) continue;
+      const paramContext = `${context}.params.${name}`;
+      if (!checkNumber(param, paramContext, errors, 0)) continue;
+
+      // 周期、窗口和数量类参数必须为正整数
+      if (
+        /(period|window|lookback|displacement|bins|levels|bars)$/i.test(name)
+      ) {
+        if (!Number.isInteger(param) || param < 1) {
+          errors.push(`${paramContext} 必须为正整数`);
+          continue;
+        }
+      }
+      result.params[name] = param;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 校验反转概率聚合方式并与默认值合并
+ */
+function parseProbabilityRules(
+  value: unknown,
+  errors: string[]
+): ProbabilityRules {
+  const defaults = DEFAULT_SIGNAL_RULES.probability;
+  if (value === undefined) return defaults;
+  const rules = expectObject(value, 'probability', errors);
+  if (!rules) return defaults;
+  checkKeys(rules, Object.keys(defaults), 'probability', errors);
+
+  const result: ProbabilityRules = { ...defaults };
+
+  if (rules.method !== undefined) {
+    if (rules.method === 'coverage' || rules.method === 'strongest') {
+      result.method = rules.method;
+    } else {
+      errors.push('probability.method 必须为 coverage 或 strongest');
+    }
+  }
+
+  for (const key of [
+    'strengthMultiplier',
+    'bonusPerSignal',
+    'maxSignalBonus',
+    'confluenceBonus',
+    'maxConfluenceBonus',
+    'alertThreshold',
+  ] as const) {
+    if (
+      rules[key] !== undefined &&
+      checkNumber(rules[key], `probability.${key}`, errors, 0)
+    ) {
+      result[key] = rules[key];
+    }
+  }
+
+  if (result.alertThreshold > 100) {
+    errors.push('probability.alertThreshold 不能超过 100');
+  }
+
+  return result;
+}
+
+/**
+ * 校验大盘环境调整规则并与默认值合并
+ */
+function parseMarketRules(value: unknown, errors: string[]): MarketRules {
+  const defaults = DEFAULT_SIGNAL_RULES.market;
+  if (value === undefined) return defaults;
+  const rules = expectObject(value, 'market', errors);
+  if (!rules) return defaults;
+  checkKeys(rules, Object.keys(defaults), 'market', errors);
+
+  const result: MarketRules = { ...defaults };
+
+  if (rules.enabled !== undefined) {
+    if (typeof rules.enabled === 'boolean') {
+      result.enabled = rules.enabled;
+    } else {
+      errors.push('market.enabled 必须为 true 或 false');
+    }
+  }
+
+  for (const key of [
+    'fastPeriod',
+    'slowPeriod',
+    'btcDownBonus',
+    'ethDownBonus',
+    'btcUpPenalty',
+    'belowVwapPercent',
+    'breadthBonus',
+    'fundingThreshold',
+    'fundingBonus',
+    'rollingOverPercent',
+    'rollingOverBonus',
+    'maxModifier',
+  ] as const) {
+    const value = rules[key];
+    if (value === undefined || !checkNumber(value, `market.${key}`, errors, 0))
+      continue;
+    if (key.endsWith('Period') && (!Number.isInteger(value) || value < 1)) {
+      errors.push(`market.${key} 必须为正整数`);
+      continue;
+    }
+    result[key] = value;
+  }
+
+  if (result.fastPeriod >= result.slowPeriod) {
+    errors.push('market 的 fastPeriod 必须小于 slowPeriod');
+  }
+  for (const key of ['belowVwapPercent', 'rollingOverPercent'] as const) {
+    if (result[key] > 100) {
+      errors.push(`market.${key} 不能超过 100`);
+    }
+  }
+
+  return result;
+}
+
+function expectObject(
+  value: unknown,
+  context: string,
+  errors: string[]
+): Record<string, unknown> | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${context} 必须为对象`);
+    return undefined;
+  }
+  return value as Record<string, unknown>;
+}
+
+function checkKeys(
+  record: Record<string, unknown>,
+  allowed: string[],
+  context: string,
+  errors: string[]
+): void {
+  for (const key of Object.keys(record)) {
+    if (!allowed.includes(key)) {
+      errors.push(
+        `${context} 中存在未知的项 ${key}，可选: ${allowed.join(', ')}`
+      );
+    }
+  }
+}
+
+function checkNumber(
+  value: unknown,
+  context: string,
+  errors: string[],
+  min: number
+): value is number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+    errors.push(`${context} 必须为不小于 ${min} 的数值`);
+    return false;
+  }
+  return true;
+}
@@ -14,6 +14,49 @@ export interface GainerInfo {
   quoteVolume: number; // 成交额
 }
 
+/**
+ * 交易对元数据
+ */
+export interface SymbolMetadata {
+  symbol: string; // 交易对名称
+  status: string; // 交易状态，如 TRADING、SETTLING
+  contractType: string; // 合约类型，如 PERPETUAL、CURRENT_QUARTER
+  baseAsset: string; // 标的资产
+  quoteAsset: string; // 报价资产
+  onboardDate: number; // 上线时间戳
+  deliveryDate?: number; // 交割或下架时间戳，仍在交易的永续合约为远期日期
+  tickSize: number; // 价格最小变动单位
+  stepSize: number; // 数量最小变动单位
+}
+
+/**
+ * 涨幅榜统计窗口
+ */
+export type GainersWindow = '1h' | '4h' | '24h';
+
+/**
+ * 交易对范围过滤规则
+ */
+export interface UniverseFilter {
+  quoteAsset?: string; // 报价资产，不设置则不限制
+  perpetualOnly: boolean; // 是否只保留永续合约
+  minListingDays: number; // 最小上线天数
+  minQuoteVolume: number; // 最小 24 小时成交额
+  exclude: string[]; // 排除的交易对
+}
+
+/**
+ * 网络配置
+ */
+export interface NetworkConfig {
+  restBase: string; // 合约 REST API 基础 URL
+  streamBase: string; // 合约 WebSocket 基础 URL
+  proxy?: string; // HTTP(S) 代理地址
+  headers: Record<string, string>; // 附加到 REST 请求的自定义请求头
+  timeoutMs: number; // 单次请求超时时间
+  telegramApiBase: string; // Telegram Bot API 基础 URL
+}
+
 /**
  * 反转信号类型枚举
  */
@@ -27,6 +70,31 @@ export enum SignalType {
   BEARISH_ENGULFING = '看跌吞没形态',
   EVENING_STAR = '黄昏星形态',
   FUND_OUTFLOW = '资金流出',
+  FUNDING_RATE_EXTREME = '资金费率过高',
+  OPEN_INTEREST_SPIKE = '持仓量激增',
+  CROWDED_LONGS = '多头拥挤',
+  TOP_TRADER_DISTRIBUTION = '大户减仓',
+  TAKER_SELL_DOMINANCE = '主动卖盘占优',
+  MFI_OBV_DIVERGENCE = 'MFI 超买量能背离',
+  KELTNER_REENTRY = '跌回肯特纳通道',
+  STOCH_RSI_BEARISH_CROSS = 'StochRSI 高位死叉',
+  TREND_EXHAUSTION = '趋势强度衰减',
+  VWAP_BREAK = '跌破 VWAP',
+  ICHIMOKU_BEARISH_CROSS = '转换线下穿基准线',
+  SHOOTING_STAR = '射击之星',
+  HANGING_MAN = '上吊线',
+  DARK_CLOUD_COVER = '乌云盖顶',
+  THREE_BLACK_CROWS = '三只乌鸦',
+  TWEEZER_TOP = '平头顶部',
+  BEARISH_HARAMI = '看跌孕线',
+  BEARISH_DIVERGENCE = '顶背离',
+  HIDDEN_BEARISH_DIVERGENCE = '隐藏顶背离',
+  TIMEFRAME_CONFLUENCE = '多周期共振',
+  RELATIVE_MOMENTUM_ROLLOVER = '相对强弱走弱',
+  BLOW_OFF_EXHAUSTION = '冲顶衰竭',
+  DEPTH_IMBALANCE = '卖盘深度占优',
+  ASK_WALL = '上方卖墙',
+  BID_THINNING = '买盘变薄',
 }
 
 /**
@@ -36,6 +104,164 @@ export interface Signal {
   name: string; // 信号名称
   description: string; // 信号描述
   strength: number; // 信号强度 (0-100)
+  detector?: string; // 产生该信号的检测器 ID
+  plugin?: string; // 检测器所属的插件，内置检测器为 builtin
+}
+
+/**
+ * K 线形态识别参数
+ */
+export interface CandlestickPatternOptions {
+  smallBodyRatio: number; // 实体不超过振幅的该比例视为小实体
+  longBodyRatio: number; // 实体不小于振幅的该比例视为长实体
+  longWickRatio: number; // 长影线至少为实体的倍数
+  shortWickRatio: number; // 短影线不超过振幅的该比例
+  priceTolerance: number; // 两个价格相差不超过该比例视为相同
+  trendLookback: number; // 判断形态前是否处于上涨时回看的 K 线数量
+}
+
+/**
+ * 摆动点
+ */
+export interface SwingPoint {
+  index: number; // 在 K 线数组中的位置
+  timestamp: number; // K 线开盘时间
+  price: number; // 摆动高点为最高价，摆动低点为最低价
+}
+
+/**
+ * 背离检测参数
+ */
+export interface DivergenceOptions {
+  lookback: number; // 摆动点两侧需要比较的 K 线数量
+  maxPivotDistance: number; // 两个摆动点之间的最大 K 线数量
+  maxPivotAge: number; // 第二个摆动点距最新 K 线的最大 K 线数量
+}
+
+/**
+ * 价格与指标之间的背离
+ */
+export interface Divergence {
+  kind: 'regular' | 'hidden'; // 常规背离或隐藏背离
+  indicator: string; // 指标名称
+  first: SwingPoint; // 较早的摆动点
+  second: SwingPoint; // 较晚的摆动点
+  firstValue: number; // 较早摆动点处的指标值
+  secondValue: number; // 较晚摆动点处的指标值
+}
+
+/**
+ * 支撑 / 阻力位识别参数
+ */
+export interface LevelOptions {
+  swingLookback: number; // 摆动点两侧需要比较的 K 线数量
+  volumeBins: number; // 成交量分布的价格区间数量
+  volumeNodeRatio: number; // 区间成交量至少为平均值的该倍数时视为成交密集区
+  clusterPercent: number; // 相差不超过该百分比的价位合并为同一价位
+  minScore: number; // 有效价位至少需要的依据数量
+  maxLevels: number; // 列出的下方支撑位数量
+}
+
+/**
+ * 水平支撑 / 阻力位
+ */
+export interface PriceLevel {
+  price: number; // 价位
+  kind: 'support' | 'resistance'; // 位于当前价格下方为支撑，上方为阻力
+  score: number; // 依据数量，摆动点每次触及、成交密集区、前日高低点和斐波那契回撤位各计 1
+  sources: string[]; // 依据说明，如 摆动低点、成交密集区、Fib 61.8%
+}
+
+/**
+ * 延伸度计算参数
+ */
+export interface ExtensionOptions {
+  meanPeriod: number; // 计算偏离程度的均线周期
+  atrPeriod: number; // ATR 周期
+  curvatureWindow: number; // 拟合对数价格曲率的 K 线数量
+  volumeWindow: number; // 成交量基准的 K 线数量
+  climaxWindow: number; // 在最近多少根 K 线中寻找放量 K 线
+  fullAcceleration: number; // 对数价格加速达到该百分比时该项满分
+  fullAtrDistance: number; // 偏离均线达到该 ATR 倍数时该项满分
+  fullVolumeRatio: number; // 放量达到基准成交量的该倍数时该项满分
+  fullWickRatio: number; // 最大成交量 K 线的上影线占振幅达到该比例时该项满分
+  streakBars: number; // 连续上涨 K 线数量达到该值时该项满分
+  moderateScore: number; // 延伸度达到该值时为轻度衰竭
+  strongScore: number; // 延伸度达到该值时为明显衰竭
+  extremeScore: number; // 延伸度达到该值时为极度衰竭
+}
+
+/**
+ * 衰竭程度
+ */
+export type ExhaustionGrade = 'moderate' | 'strong' | 'extreme';
+
+/**
+ * 价格走势的延伸度
+ */
+export interface Extension {
+  score: number; // 延伸度 (0-100)，各项按权重加总
+  grade?: ExhaustionGrade; // 衰竭程度，延伸度不足或收盘价低于均线时为 undefined
+  accelerationPercent: number; // 对数价格二次拟合的曲率项 (百分比)，正值表示加速上涨
+  atrDistance: number; // 收盘价偏离均线的 ATR 倍数
+  volumeRatio: number; // 近期最大成交量相对基准成交量的倍数
+  wickRatio: number; // 最大成交量 K 线上影线占振幅的比例
+  streak: number; // 截至最新 (或前一根) K 线的连续上涨 K 线数量
+}
+
+/**
+ * 订单簿深度分析参数
+ */
+export interface DepthOptions {
+  nearBandPercent: number; // 近端价格区间，距中间价的百分比
+  farBandPercent: number; // 远端价格区间，距中间价的百分比，挂单墙和流动性变化在该区间内统计
+  imbalanceThreshold: number; // 近端买卖失衡达到该值 (0-1) 时视为卖盘占优
+  wallMultiple: number; // 单档挂单额达到同侧区间内挂单额中位数的该倍数时视为挂单墙
+  thinningPercent: number; // 远端买盘挂单额较上一轮减少该百分比时视为买盘变薄
+}
+
+/**
+ * 价格区间内的买卖挂单额
+ */
+export interface DepthBand {
+  percent: number; // 距中间价的百分比
+  bidNotional: number; // 区间内买单挂单额 (计价资产)
+  askNotional: number; // 区间内卖单挂单额 (计价资产)
+  imbalance: number; // 买卖失衡 (-1 到 1)，(买 - 卖) / (买 + 卖)，负值表示卖盘占优
+}
+
+/**
+ * 挂单墙：挂单额远大于附近价位的单个价位
+ */
+export interface LiquidityWall {
+  side: 'bid' | 'ask'; // 买单墙或卖单墙
+  price: number; // 价格
+  notional: number; // 挂单额 (计价资产)
+  distancePercent: number; // 距中间价的百分比
+  multiple: number; // 相对同侧区间内挂单额中位数的倍数
+}
+
+/**
+ * 订单簿深度分析结果
+ */
+export interface DepthAnalysis {
+  timestamp: number; // 订单簿时间戳
+  midPrice: number; // 买一和卖一的中间价
+  spreadPercent: number; // 买卖价差占中间价的百分比
+  bands: DepthBand[]; // 近端和远端区间的买卖挂单额
+  walls: LiquidityWall[]; // 远端区间内的挂单墙，按倍数从大到小排列
+  bidChangePercent?: number; // 远端买单挂单额较上一轮的变化百分比，无上一轮数据时为 undefined
+  askChangePercent?: number; // 远端卖单挂单额较上一轮的变化百分比，无上一轮数据时为 undefined
+}
+
+/**
+ * 识别到的 K 线形态
+ */
+export interface CandlestickPattern {
+  type: SignalType; // 形态类型
+  candles: number; // 形态包含的 K 线数量
+  strength: number; // 信号强度 (0-100)，结合形态可靠性和所处位置
+  description: string; // 形态描述
 }
 
 /**
@@ -50,6 +276,199 @@ export interface AnalysisResult {
   timestamp?: number; // 时间戳 (可选)
   highestPrice?: number; // 历史最高价格 (用于回测和监控系统)
   dropPercent?: number; // 从高点下跌百分比 (用于回测和监控系统)
+  timeframes?: TimeframeAnalysis[]; // 各时间周期的分析明细，按周期从短到长排列
+  calibratedProbability?: number; // 只使用 K 线的分析结果校准后的反转概率 (0-100)，加载了校准模型时提供
+  supportLevels?: PriceLevel[]; // 当前价格下方的有效支撑位，由近及远排列
+  marketModifier?: number; // 大盘环境对反转概率的调整 (百分点)
+  relativeStrength?: RelativeStrength[]; // 相对 BTC 和同类币种的强弱，提供基准 K 线时计算
+  extension?: Extension; // 价格走势的延伸度
+  depth?: DepthAnalysis; // 订单簿深度分析，提供订单簿时计算
+}
+
+/**
+ * 相对某个基准的强弱
+ */
+export interface RelativeStrength {
+  benchmark: string; // 基准名称，如 BTCUSDT、同类篮子
+  changePercent: number; // 比值在 K 线窗口内的变动百分比
+  barsSinceHigh: number; // 比值的窗口内最高点距最新 K 线的 K 线数量
+  probability: number; // 在比值序列上计算的反转概率 (0-100)
+  signals: Signal[]; // 在比值序列上检测到的信号
+}
+
+/**
+ * 单个时间周期的分析明细
+ */
+export interface TimeframeAnalysis {
+  timeframe: string; // 时间周期
+  weight: number; // 在综合概率中的权重
+  probability: number; // 该周期的反转概率 (0-100)
+  signals: Signal[]; // 该周期检测到的信号
+}
+
+/**
+ * 单个信号检测器的规则
+ */
+export interface DetectorRule {
+  enabled: boolean; // 是否启用
+  weight: number; // 信号强度的倍数，加权后的强度不超过 100
+  params: Record<string, number>; // 检测参数 (周期、阈值、基础强度等)
+}
+
+/**
+ * 信号检测器的输入
+ */
+export interface DetectorContext {
+  symbol: string; // 币种符号
+  timeframe: string; // K 线时间周期
+  candles: Candle[]; // K 线数据，最后一根为最新 K 线
+  indicators: IndicatorValues; // 最新 K 线对应的常用指标值
+  tracked?: TrackedState; // 跟踪状态 (最高价、下跌状态等)，未跟踪时为 undefined
+  derivatives?: DerivativesData; // 资金费率和持仓量数据，仅主周期提供
+  relativeStrength?: RelativeStrength[]; // 相对强弱，提供基准 K 线时计算
+  orderBook?: OrderBook; // 订单簿快照，仅实时分析的主周期提供
+}
+
+/**
+ * 信号检测器
+ *
+ * 内置检测器和插件检测器使用同一接口，由注册表统一调用
+ */
+export interface SignalDetector {
+  id: string; // 稳定的检测器 ID，同时作为规则文件 detectors 中的名称
+  description: string; // 检测器说明
+  requires?: Array<'derivatives' | 'relativeStrength' | 'orderBook'>; // 依赖的数据，缺少时跳过该检测器且不计入可能信号数
+  maxSignals?: number; // 最多产生的信号数量，默认为 1
+  defaultRule: DetectorRule; // 默认规则，规则文件中未指定的项使用该值
+  detect(context: DetectorContext, params: Record<string, number>): Signal[]; // 检测信号，params 为合并规则后的检测参数
+}
+
+/**
+ * 反转概率的聚合方式
+ *
+ * coverage: 触发信号数 / 可能信号数 × 平均强度 × strengthMultiplier
+ * strongest: 最强信号的强度
+ * 两种方式都会加上信号数量奖励
+ */
+export interface ProbabilityRules {
+  method: 'coverage' | 'strongest'; // 基础概率的计算方式
+  strengthMultiplier: number; // coverage 方式下基础概率的放大倍数
+  bonusPerSignal: number; // 第二个信号起每个信号增加的概率
+  maxSignalBonus: number; // 信号数量奖励上限
+  confluenceBonus: number; // 每组多周期共振增加的概率
+  maxConfluenceBonus: number; // 多周期共振奖励上限
+  alertThreshold: number; // 触发上涨乏力警报的最低概率
+}
+
+/**
+ * 大盘环境对反转概率的调整规则
+ *
+ * 各项调整以百分点计，叠加后的总调整不超过 maxModifier
+ */
+export interface MarketRules {
+  enabled: boolean; // 是否根据大盘环境调整反转概率
+  fastPeriod: number; // 判断 BTC / ETH 趋势的快速 EMA 周期
+  slowPeriod: number; // 判断 BTC / ETH 趋势的慢速 EMA 周期
+  btcDownBonus: number; // BTC 处于下跌趋势时增加的概率
+  ethDownBonus: number; // ETH 处于下跌趋势时增加的概率
+  btcUpPenalty: number; // BTC 处于上涨趋势时减少的概率
+  belowVwapPercent: number; // 涨幅榜中低于当日 VWAP 的币种比例达到该值时视为市场走弱
+  breadthBonus: number; // 市场走弱时增加的概率
+  fundingThreshold: number; // 涨幅榜平均资金费率达到该值时视为多头过热
+  fundingBonus: number; // 多头过热时增加的概率
+  rollingOverPercent: number; // 市场走弱且跟踪币种中已确认下跌的比例达到该值时视为涨幅榜整体回落
+  rollingOverBonus: number; // 涨幅榜整体回落时增加的概率
+  maxModifier: number; // 总调整的绝对值上限
+}
+
+/**
+ * 信号规则配置
+ */
+export interface SignalRules {
+  detectors: Record<string, DetectorRule>; // 各信号检测器的规则
+  probability: ProbabilityRules; // 反转概率的聚合方式
+  market: MarketRules; // 大盘环境对反转概率的调整
+  timeframeWeights: Record<string, number>; // 多周期分析的周期及权重
+}
+
+/**
+ * 趋势状态
+ */
+export type TrendState = 'up' | 'down' | 'neutral';
+
+/**
+ * 大盘环境，每轮分析前计算一次
+ */
+export interface MarketContext {
+  timestamp: number; // 计算时间
+  btcTrend: TrendState; // BTC 小时线趋势
+  ethTrend: TrendState; // ETH 小时线趋势
+  belowVwapPercent: number; // 涨幅榜中价格低于当日 VWAP 的币种比例 (0-100)
+  averageFundingRate?: number; // 涨幅榜币种最新资金费率的平均值，获取失败时为空
+  downtrendPercent: number; // 跟踪币种中已确认下跌的比例 (0-100)
+  rollingOver: boolean; // 涨幅榜是否整体回落
+  modifier: number; // 对反转概率的调整 (百分点)
+  reasons: string[]; // 调整依据
+}
+
+/**
+ * 概率校准样本
+ */
+export interface CalibrationSample {
+  symbol: string; // 交易对
+  timestamp: number; // 分析时间
+  probability: number; // 原始反转概率 (0-100)
+  features: Record<string, number>; // 触发的信号及其强度 (0-1)
+  label: boolean; // 观察期内是否出现目标跌幅
+}
+
+/**
+ * 可靠性曲线的单个区间
+ */
+export interface ReliabilityBin {
+  lower: number; // 预测概率下限 (0-1)
+  upper: number; // 预测概率上限 (0-1)
+  count: number; // 样本数
+  meanPredicted: number; // 平均预测概率 (0-1)
+  observedRate: number; // 实际出现目标跌幅的比例 (0-1)
+}
+
+/**
+ * 可靠性统计
+ */
+export interface ReliabilityStats {
+  sampleCount: number; // 样本数
+  positiveRate: number; // 实际出现目标跌幅的比例 (0-1)
+  brierScore: number; // Brier 分数，越低越好
+  logLoss: number; // 对数损失，越低越好
+  expectedCalibrationError: number; // 期望校准误差 (按样本数加权的 |预测 - 实际| 平均值)
+  bins: ReliabilityBin[]; // 可靠性曲线
+}
+
+/**
+ * 概率校准模型
+ */
+export interface CalibrationModel {
+  method: 'logistic' | 'isotonic'; // 校准方法
+  trainedAt: string; // 训练时间
+  interval: string; // 训练样本的主周期
+  rulesFingerprint?: string; // 训练时信号规则和检测器的指纹，旧版本的模型没有该字段
+  dropPercent: number; // 目标跌幅百分比
+  horizonHours: number; // 观察期小时数
+  sampleCount: number; // 训练样本数
+  logistic?: {
+    features: string[]; // 特征名称，第一个为原始概率，其余为信号名称
+    weights: number[]; // 各特征的系数
+    bias: number; // 截距
+  };
+  isotonic?: {
+    scores: number[]; // 原始概率分段点 (0-100)，升序
+    probabilities: number[]; // 各分段点的校准概率 (0-1)
+  };
+  reliability: {
+    raw: ReliabilityStats; // 原始概率在验证集上的可靠性
+    calibrated: ReliabilityStats; // 校准概率在验证集上的可靠性
+  };
 }
 
 /**
@@ -66,37 +485,177 @@ export interface Notification {
  * K 线数据
  */
 export interface Candle {
+  openTime: number; // 开盘时间戳
   open: number; // 开盘价
   high: number; // 最高价
   low: number; // 最低价
   close: number; // 收盘价
   volume: number; // 成交量
   closeTime: number; // 收盘时间戳
+  quoteVolume: number; // 成交额
+  trades: number; // 成交笔数
+  takerBuyVolume: number; // 主动买入成交量
+  takerBuyQuoteVolume: number; // 主动买入成交额
+}
+
+/**
+ * K 线缺口
+ */
+export interface CandleGap {
+  from: number; // 第一根缺失 K 线的开盘时间
+  to: number; // 缺口之后第一根存在的 K 线的开盘时间，位于范围末尾时为范围结束后的第一根 K 线的开盘时间
+  missing: number; // 缺失的 K 线数量
+  kind: 'leading' | 'internal' | 'trailing'; // 位于范围开头 (通常是交易对尚未上线)、中间或末尾 (通常是已下架)
+}
+
+/**
+ * 按时间范围获取的 K 线数据
+ */
+export interface CandleRange {
+  candles: Candle[]; // 按收盘时间升序排列的 K 线
+  gaps: CandleGap[]; // 检测到的缺口
+}
+
+/**
+ * 资金费率记录
+ */
+export interface FundingRate {
+  fundingRate: number; // 资金费率
+  fundingTime: number; // 结算时间戳
+}
+
+/**
+ * 持仓量记录
+ */
+export interface OpenInterestPoint {
+  timestamp: number; // 统计时间戳
+  openInterest: number; // 持仓量 (张数)
+  openInterestValue: number; // 持仓价值
+}
+
+/**
+ * 多空比记录
+ */
+export interface LongShortRatioPoint {
+  timestamp: number; // 统计时间戳
+  longShortRatio: number; // 多空比
+  longRatio: number; // 多头占比 (0-1)
+  shortRatio: number; // 空头占比 (0-1)
+}
+
+/**
+ * 主动买卖量记录
+ */
+export interface TakerVolumePoint {
+  timestamp: number; // 统计时间戳
+  buySellRatio: number; // 主动买入量 / 主动卖出量
+  buyVolume: number; // 主动买入量
+  sellVolume: number; // 主动卖出量
+}
+
+/**
+ * 衍生品持仓数据
+ */
+export interface DerivativesData {
+  fundingRate: number; // 当前 (或分析时间点) 的资金费率
+  fundingHistory: FundingRate[]; // 历史资金费率，按时间升序
+  openInterest: number; // 当前 (或分析时间点) 的持仓量
+  openInterestHistory: OpenInterestPoint[]; // 持仓量历史，按时间升序
+  topAccountRatio: LongShortRatioPoint[]; // 大户账户多空比，按时间升序
+  topPositionRatio: LongShortRatioPoint[]; // 大户持仓多空比，按时间升序
+  takerVolume: TakerVolumePoint[]; // 主动买卖量，按时间升序
+}
+
+/**
+ * 订单簿价位
+ */
+export interface OrderBookLevel {
+  price: number; // 价格
+  quantity: number; // 挂单数量
+}
+
+/**
+ * 订单簿快照
+ */
+export interface OrderBook {
+  symbol: string; // 交易对名称
+  lastUpdateId: number; // 快照对应的最后更新 ID
+  timestamp: number; // 快照时间戳
+  bids: OrderBookLevel[]; // 买单，按价格从高到低排列
+  asks: OrderBookLevel[]; // 卖单，按价格从低到高排列
 }
 
 /**
- * 技术指标计算结果
+ * MACD 指标值
+ */
+export interface MACDValue {
+  macd: number; // MACD 线
+  signal: number; // 信号线
+  histogram: number; // 柱状图
+}
+
+/**
+ * 布林带指标值
+ */
+export interface BollingerValue {
+  upper: number; // 上轨
+  middle: number; // 中轨
+  lower: number; // 下轨
+}
+
+/**
+ * 肯特纳通道指标值 (与布林带结构相同)
+ */
+export type KeltnerValue = BollingerValue;
+
+/**
+ * 趋向指标值
+ */
+export interface DMIValue {
+  adx: number; // 平均趋向指数
+  plusDI: number; // 上升方向线 (+DI)
+  minusDI: number; // 下降方向线 (-DI)
+}
+
+/**
+ * 随机相对强弱指标值 (0-100)
+ */
+export interface StochRSIValue {
+  k: number; // K 线
+  d: number; // D 线
+}
+
+/**
+ * 一目均衡表指标值
+ */
+export interface IchimokuValue {
+  conversion: number; // 转换线
+  base: number; // 基准线
+  spanA: number; // 当前 K 线上的先行带 A
+  spanB: number; // 当前 K 线上的先行带 B
+}
+
+/**
+ * 技术指标计算结果 (数据不足时对应指标为 NaN)
  */
 export interface IndicatorValues {
   rsi: number; // RSI 值
-  macd: {
-    // MACD 值
-    macd: number; // MACD 线
-    signal: number; // 信号线
-    histogram: number; // 柱状图
-  };
-  bollingerBands: {
-    // 布林带
-    upper: number; // 上轨
-    middle: number; // 中轨
-    lower: number; // 下轨
-  };
+  macd: MACDValue; // MACD 值
+  bollingerBands: BollingerValue; // 布林带
   movingAverages: {
     // 移动平均线
     ma7: number; // 7 周期均线
     ma25: number; // 25 周期均线
     ma99: number; // 99 周期均线
   };
+  atr: number; // 平均真实波幅
+  dmi: DMIValue; // 趋向指标
+  stochRsi: StochRSIValue; // 随机相对强弱指标
+  obv: number; // 能量潮
+  mfi: number; // 资金流量指标
+  vwap: number; // 当日成交量加权均价
+  keltner: KeltnerValue; // 肯特纳通道
+  ichimoku: IchimokuValue; // 一目均衡表
 }
 
 /**
@@ -112,6 +671,29 @@ export interface NotificationMessage {
   highestPrice?: number; // 历史最高价格
 }
 
+/**
+ * 跟踪币种的生命周期状态
+ */
+export enum LifecycleState {
+  WATCHING = 'WATCHING', // 观察中：刚加入跟踪列表或重新进入涨幅榜
+  NEW_HIGH = 'NEW_HIGH', // 创新高：价格创出跟踪期间的新高
+  WEAKENING = 'WEAKENING', // 上涨乏力：价格低于高点且反转概率超过警报阈值
+  CONFIRMED_DOWN = 'CONFIRMED_DOWN', // 确认下跌：价格从高点下跌超过确认跌幅
+  INVALIDATED = 'INVALIDATED', // 下跌失效：上涨乏力或确认下跌后价格重新创出新高
+  EXPIRED = 'EXPIRED', // 已过期：长期未出现在涨幅榜，不再分析
+}
+
+/**
+ * 生命周期状态转换记录
+ */
+export interface LifecycleTransition {
+  from?: LifecycleState; // 转换前的状态，加入跟踪列表时为 undefined
+  to: LifecycleState; // 转换后的状态
+  timestamp: number; // 转换时间
+  price: number; // 转换时的价格
+  reason: string; // 转换原因
+}
+
 /**
  * 跟踪币种的状态接口
  */
@@ -121,7 +703,13 @@ export interface TrackedSymbol {
   highestPrice: number; // 历史最高价格
   lastUpdateTime: number; // 最后更新时间
   signals: Signal[]; // 信号列表
-  downtrend: boolean; // 是否处于下跌趋势
-  downtrendConfirmed: boolean; // 是否确认下跌
-  downtrendNotified: boolean; // 是否已发送下跌通知
+  state: LifecycleState; // 生命周期状态
+  transitions: LifecycleTransition[]; // 最近的状态转换记录，按时间升序
+  extensionScore?: number; // 最近一次分析的延伸度 (0-100)
+  depth?: DepthAnalysis; // 最近一次的订单簿深度分析，用于计算流动性变化
 }
+
+/**
+ * 提供给信号检测器的跟踪状态
+ */
+export type TrackedState = Partial<Omit<TrackedSymbol, 'symbol' | 'signals'>>;
@@ -4,9 +4,21 @@
  * 处理各种通知功能
  */
 
-import { Signal } from '../models/types.ts';
+import {
+  DepthAnalysis,
+  Extension,
+  MarketContext,
+  PriceLevel,
+  Signal,
+  TimeframeAnalysis,
+} from '../models/types.ts';
 import { logInfo, logError } from '../utils/helpers.ts';
 import { sendTelegramNotification } from '../utils/notification.ts';
+import { formatPriceLevels } from '../indicators/levels.ts';
+import { formatMarketContext } from '../indicators/market.ts';
+import { formatExtension } from '../indicators/extension.ts';
+import { formatDepth } from '../indicators/depth.ts';
+import { BUILTIN_PLUGIN } from '../indicators/registry.ts';
 
 /**
  * 通知消息接口
@@ -19,6 +31,10 @@ export interface NotificationMessage {
   message?: string; // 可选的自定义消息
   highestPrice?: number; // 历史最高价格
   dropPercent?: number; // 从高点下跌百分比
+  timeframes?: TimeframeAnalysis[]; // 各时间周期的分析明细
+  supportLevels?: PriceLevel[]; // 当前价格下方的支撑位，由近及远排列
+  extension?: Extension; // 价格走势的延伸度
+  depth?: DepthAnalysis; // 订单簿深度分析
 }
 
 /**
@@ -44,13 +60,23 @@ export async function notify(data: NotificationMessage): Promise<void> {
  * @param data 通知数据
  */
 function consoleNotify(data: NotificationMessage): void {
-  const { symbol, probability, signals, price, message } = data;
+  const {
+    symbol,
+    probability,
+    signals,
+    price,
+    message,
+    timeframes,
+    supportLevels,
+    extension,
+    depth,
+  } = data;
 
   // 构建信号列表字符串
   let signalsList = '';
   if (signals && signals.length > 0) {
     signalsList = signals
-      .map((s) => (typeof s === 'string' ? s : s.name))
+      .map((s) => (typeof s === 'string' ? s : signalLabel(s)))
       .join(', ');
   }
 
@@ -68,6 +94,26 @@ function consoleNotify(data: NotificationMessage): void {
       logInfo(`   信号: ${signalsList}`);
     }
   }
+
+  if (timeframes && timeframes.length > 0) {
+    logInfo(
+      `   周期: ${timeframes
+        .map((tf) => `${tf.timeframe} ${tf.probability.toFixed(2)}%`)
+        .join(', ')}`
+    );
+  }
+
+  if (supportLevels && supportLevels.length > 0) {
+    logInfo(`   下方支撑: ${formatPriceLevels(supportLevels)}`);
+  }
+
+  if (extension) {
+    logInfo(`   延伸度: ${formatExtension(extension)}`);
+  }
+
+  if (depth) {
+    logInfo(`   订单簿: ${formatDepth(depth)}`);
+  }
 }
 
 /**
@@ -87,6 +133,10 @@ async function telegramNotify(data: NotificationMessage): Promise<void> {
       message,
       highestPrice,
       dropPercent,
+      timeframes,
+      supportLevels,
+      extension,
+      depth,
     } = data;
 
     // 构建信号列表字符串
@@ -94,7 +144,9 @@ async function telegramNotify(data: NotificationMessage): Promise<void> {
     if (signals && signals.length > 0) {
       signalsList = signals
         .map((s) =>
-          typeof s === 'string' ? s : `${s.name}: ${s.description || ''}`
+          typeof s === 'string'
+            ? s
+            : `${signalLabel(s)}: ${s.description || ''}`
         )
         .join('\n- ');
 
@@ -137,9 +189,27 @@ async function telegramNotify(data: NotificationMessage): Promise<void> {
         telegramMessage += `距离高点: ${dropPercent.toFixed(2)}%\n`;
       }
 
+      if (extension) {
+        telegramMessage += `延伸度: ${formatExtension(extension)}\n`;
+      }
+
+      if (depth) {
+        telegramMessage += `订单簿: ${formatDepth(depth)}\n`;
+      }
+
       if (signalsList) {
         telegramMessage += `\n信号:\n${signalsList}\n`;
       }
+
+      if (timeframes && timeframes.length > 0) {
+        telegramMessage += `\n各周期:\n${formatTimeframes(timeframes)}\n`;
+      }
+    }
+
+    if (supportLevels && supportLevels.length > 0) {
+      telegramMessage += `\n下方支撑:\n${supportLevels
+        .map((level) => `- ${formatPriceLevels([level])}`)
+        .join('\n')}\n`;
     }
 
     telegramMessage += `\n<i>时间: ${new Date().toLocaleString()}</i>`;
@@ -151,4 +221,60 @@ async function telegramNotify(data: NotificationMessage): Promise<void> {
   }
 }
 
+/**
+ * 发送涨幅榜整体回落警报
+ *
+ * 与单个币种的警报不同，该警报针对整个市场，只在涨幅榜开始整体回落时发送一次
+ *
+ * @param context 大盘环境
+ */
+export async function notifyMarketRollingOver(
+  context: MarketContext
+): Promise<void> {
+  logInfo(`📢 涨幅榜整体回落: ${formatMarketContext(context)}`);
+  logInfo(`   依据: ${context.reasons.join('，')}`);
+
+  try {
+    let telegramMessage = `🌊 <b>涨幅榜整体回落警报</b> 🌊\n\n`;
+    telegramMessage += `${context.reasons.map((r) => `- ${r}`).join('\n')}\n`;
+    telegramMessage += `\n反转概率调整: <b>${context.modifier >= 0 ? '+' : ''}${
+      context.modifier
+    }</b>\n`;
+    telegramMessage += `\n<i>时间: ${new Date().toLocaleString()}</i>`;
+
+    await sendTelegramNotification(telegramMessage);
+  } catch (error) {
+    logError(`发送 Telegram 通知失败: ${error}`);
+  }
+}
+
+/**
+ * 格式化各周期的分析明细
+ *
+ * @param timeframes 各时间周期的分析明细
+ * @returns 每个周期一行的概率和信号
+ */
+function formatTimeframes(timeframes: TimeframeAnalysis[]): string {
+  return timeframes
+    .map((tf) => {
+      const names = tf.signals.map(signalLabel).join('、') || '无信号';
+      return `- ${tf.timeframe} (权重 ${tf.weight}): ${tf.probability.toFixed(
+        2
+      )}%，${names}`;
+    })
+    .join('\n');
+}
+
+/**
+ * 信号名称，插件检测器产生的信号附带插件名称
+ *
+ * @param signal 信号
+ * @returns 信号名称
+ */
+function signalLabel(signal: Signal): string {
+  return signal.plugin && signal.plugin !== BUILTIN_PLUGIN
+    ? `${signal.name} [${signal.plugin}]`
+    : signal.name;
+}
+
 // 这里可以添加更多的通知方法，如 Webhook、邮件等
@@ -0,0 +1,378 @@
+/**
+ * 跟踪币种生命周期
+ *
+ * 监控、流式监控和回测共用的状态机：价格更新驱动创新高和下跌失效，分析结果驱动上涨乏力和确认下跌，
+ * 长期未更新的币种过期。每次状态转换都带有时间、价格和原因，随跟踪状态一起保存
+ */
+
+import {
+  LifecycleState,
+  LifecycleTransition,
+  TrackedSymbol,
+} from '../models/types.ts';
+import { getSignalRules } from '../indicators/rules.ts';
+import { logInfo } from '../utils/helpers.ts';
+
+// 从高点下跌达到该百分比时确认下跌
+export const CONFIRM_DROP_PERCENT = 5;
+
+// 超过该时间未更新的币种过期
+const INACTIVE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 过期的币种再保留该时间后从跟踪列表移除，期间重新进入涨幅榜时恢复跟踪
+const EXPIRED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 每个币种保留的状态转换记录数量
+const MAX_TRANSITIONS = 50;
+
+// 允许的状态转换
+const ALLOWED_TRANSITIONS: Record<LifecycleState, LifecycleState[]> = {
+  [LifecycleState.WATCHING]: [
+    LifecycleState.NEW_HIGH,
+    LifecycleState.WEAKENING,
+    LifecycleState.CONFIRMED_DOWN,
+    LifecycleState.EXPIRED,
+  ],
+  [LifecycleState.NEW_HIGH]: [
+    LifecycleState.WEAKENING,
+    LifecycleState.CONFIRMED_DOWN,
+    LifecycleState.EXPIRED,
+  ],
+  [LifecycleState.WEAKENING]: [
+    LifecycleState.CONFIRMED_DOWN,
+    LifecycleState.INVALIDATED,
+    LifecycleState.EXPIRED,
+  ],
+  [LifecycleState.CONFIRMED_DOWN]: [
+    LifecycleState.INVALIDATED,
+    LifecycleState.EXPIRED,
+  ],
+  [LifecycleState.INVALIDATED]: [
+    LifecycleState.NEW_HIGH,
+    LifecycleState.WEAKENING,
+    LifecycleState.CONFIRMED_DOWN,
+    LifecycleState.EXPIRED,
+  ],
+  [LifecycleState.EXPIRED]: [LifecycleState.WATCHING],
+};
+
+// 状态的中文名称
+const STATE_LABELS: Record<LifecycleState, string> = {
+  [LifecycleState.WATCHING]: '观察中',
+  [LifecycleState.NEW_HIGH]: '创新高',
+  [LifecycleState.WEAKENING]: '上涨乏力',
+  [LifecycleState.CONFIRMED_DOWN]: '确认下跌',
+  [LifecycleState.INVALIDATED]: '下跌失效',
+  [LifecycleState.EXPIRED]: '已过期',
+};
+
+/**
+ * 创建新加入跟踪列表的币种
+ *
+ * @param symbol 币种符号
+ * @param price 当前价格，作为初始高点
+ * @param time 加入时间
+ * @returns 处于观察中状态的跟踪币种
+ */
+export function createTrackedSymbol(
+  symbol: string,
+  price: number,
+  time: number
+): TrackedSymbol {
+  return {
+    symbol,
+    lastPrice: price,
+    highestPrice: price,
+    lastUpdateTime: time,
+    signals: [],
+    state: LifecycleState.WATCHING,
+    transitions: [
+      {
+        to: LifecycleState.WATCHING,
+        timestamp: time,
+        price,
+        reason: '加入跟踪列表',
+      },
+    ],
+  };
+}
+
+/**
+ * 判断状态转换是否允许
+ *
+ * @param from 当前状态
+ * @param to 目标状态
+ * @returns 是否允许
+ */
+export function canTransition(
+  from: LifecycleState,
+  to: LifecycleState
+): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 判断币种是否仍在跟踪 (未过期)
+ *
+ * @param tracked 跟踪币种
+ * @returns 是否仍在跟踪
+ */
+export function isActive(tracked: TrackedSymbol): boolean {
+  return tracked.state !== LifecycleState.EXPIRED;
+}
+
+/**
+ * 记录最新价格
+ *
+ * 过期的币种恢复为观察中并以当前价格作为新的高点；创出新高时，
+ * 上涨乏力或确认下跌的币种转为下跌失效，其余币种转为创新高。
+ * 已跌出涨幅榜的币种只更新价格和高点，不刷新更新时间，也不恢复已过期的币种
+ *
+ * @param tracked 跟踪币种
+ * @param price 最新价格
+ * @param time 价格时间
+ * @param onLeaderboard 价格是否来自涨幅榜
+ * @returns 本次发生的状态转换
+ */
+export function recordPrice(
+  tracked: TrackedSymbol,
+  price: number,
+  time: number,
+  onLeaderboard = true
+): LifecycleTransition[] {
+  const transitions: LifecycleTransition[] = [];
+
+  if (tracked.state === LifecycleState.EXPIRED) {
+    if (!onLeaderboard) return transitions;
+
+    tracked.highestPrice = price;
+    transitions.push(
+      transition(
+        tracked,
+        LifecycleState.WATCHING,
+        '重新进入涨幅榜',
+        price,
+        time
+      )
+    );
+  } else if (price > tracked.highestPrice) {
+    const previousHigh = tracked.highestPrice;
+    tracked.highestPrice = price;
+
+    if (
+      tracked.state === LifecycleState.WEAKENING ||
+      tracked.state === LifecycleState.CONFIRMED_DOWN
+    ) {
+      transitions.push(
+        transition(
+          tracked,
+          LifecycleState.INVALIDATED,
+          `价格 ${price} 突破前高 ${previousHigh}，${
+            STATE_LABELS[tracked.state]
+          }判断失效`,
+          price,
+          time
+        )
+      );
+    } else if (tracked.state !== LifecycleState.NEW_HIGH) {
+      transitions.push(
+        transition(
+          tracked,
+          LifecycleState.NEW_HIGH,
+          `价格 ${price} 突破前高 ${previousHigh}`,
+          price,
+          time
+        )
+      );
+    }
+  }
+
+  tracked.lastPrice = price;
+  if (onLeaderboard) tracked.lastUpdateTime = time;
+  return transitions;
+}
+
+/**
+ * 根据分析结果推进状态
+ *
+ * 价格低于高点且反转概率超过警报阈值时转为上涨乏力；从高点下跌达到确认跌幅时转为确认下跌
+ *
+ * @param tracked 跟踪币种
+ * @param probability 反转概率，没有分析结果时为 undefined，只检查跌幅
+ * @param time 分析时间
+ * @param alertThreshold 上涨乏力的概率阈值
+ * @returns 本次发生的状态转换
+ */
+export function evaluateAnalysis(
+  tracked: TrackedSymbol,
+  probability: number | undefined,
+  time: number,
+  alertThreshold = getSignalRules().probability.alertThreshold
+): LifecycleTransition[] {
+  const transitions: LifecycleTransition[] = [];
+
+  if (
+    probability !== undefined &&
+    probability > alertThreshold &&
+    tracked.lastPrice < tracked.highestPrice &&
+    canTransition(tracked.state, LifecycleState.WEAKENING)
+  ) {
+    transitions.push(
+      transition(
+        tracked,
+        LifecycleState.WEAKENING,
+        `价格低于高点 ${tracked.highestPrice}，反转概率 ${probability.toFixed(
+          2
+        )}% 超过 ${alertThreshold}%`,
+        tracked.lastPrice,
+        time
+      )
+    );
+  }
+
+  const dropPercent = dropFromHigh(tracked);
+  if (
+    dropPercent >= CONFIRM_DROP_PERCENT &&
+    canTransition(tracked.state, LifecycleState.CONFIRMED_DOWN)
+  ) {
+    transitions.push(
+      transition(
+        tracked,
+        LifecycleState.CONFIRMED_DOWN,
+        `从高点 ${tracked.highestPrice} 下跌 ${dropPercent.toFixed(2)}%`,
+        tracked.lastPrice,
+        time
+      )
+    );
+  }
+
+  return transitions;
+}
+
+/**
+ * 处理长期未更新的币种
+ *
+ * 超过 7 天未更新的币种转为已过期；过期超过 7 天的币种从跟踪列表移除
+ *
+ * @param trackedSymbols 跟踪列表
+ * @param now 当前时间
+ * @returns 本次过期的币种
+ */
+export function expireInactive(
+  trackedSymbols: Map<string, TrackedSymbol>,
+  now: number
+): string[] {
+  const expired: string[] = [];
+
+  for (const [symbol, tracked] of trackedSymbols.entries()) {
+    if (tracked.state === LifecycleState.EXPIRED) {
+      const expiredAt = tracked.transitions[tracked.transitions.length - 1];
+      if (now - (expiredAt?.timestamp ?? 0) > EXPIRED_RETENTION_MS) {
+        trackedSymbols.delete(symbol);
+      }
+    } else if (now - tracked.lastUpdateTime > INACTIVE_EXPIRY_MS) {
+      transition(
+        tracked,
+        LifecycleState.EXPIRED,
+        '超过 7 天未出现在涨幅榜',
+        tracked.lastPrice,
+        now
+      );
+      expired.push(symbol);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * 从保存的跟踪数据恢复生命周期状态
+ *
+ * 旧版跟踪数据只有 downtrend 和 downtrendConfirmed 标记，按标记推断状态
+ *
+ * @param item 保存的跟踪数据
+ * @returns 生命周期状态和转换记录
+ */
+export function restoreLifecycle(item: {
+  state?: LifecycleState;
+  transitions?: LifecycleTransition[];
+  downtrend?: boolean;
+  downtrendConfirmed?: boolean;
+}): Pick<TrackedSymbol, 'state' | 'transitions'> {
+  if (item.state && item.state in ALLOWED_TRANSITIONS) {
+    return { state: item.state, transitions: item.transitions ?? [] };
+  }
+
+  return {
+    state: item.downtrendConfirmed
+      ? LifecycleState.CONFIRMED_DOWN
+      : item.downtrend
+      ? LifecycleState.WEAKENING
+      : LifecycleState.WATCHING,
+    transitions: [],
+  };
+}
+
+/**
+ * 格式化状态转换
+ *
+ * @param symbol 币种符号
+ * @param transition 状态转换
+ * @returns 单行描述，如 ABCUSDT: 创新高 → 上涨乏力 (价格低于高点 1.5，反转概率 72.00% 超过 60%)
+ */
+export function formatTransition(
+  symbol: string,
+  transition: LifecycleTransition
+): string {
+  const from = transition.from ? `${STATE_LABELS[transition.from]} → ` : '';
+  return `${symbol}: ${from}${STATE_LABELS[transition.to]} (${
+    transition.reason
+  })`;
+}
+
+/**
+ * 计算价格距高点的跌幅百分比
+ *
+ * @param tracked 跟踪币种
+ * @returns 跌幅百分比
+ */
+export function dropFromHigh(tracked: TrackedSymbol): number {
+  return (
+    ((tracked.highestPrice - tracked.lastPrice) / tracked.highestPrice) * 100
+  );
+}
+
+/**
+ * 执行状态转换并记录
+ *
+ * @throws 不允许的状态转换
+ */
+function transition(
+  tracked: TrackedSymbol,
+  to: LifecycleState,
+  reason: string,
+  price: number,
+  time: number
+): LifecycleTransition {
+  if (!canTransition(tracked.state, to)) {
+    throw new Error(
+      `${tracked.symbol} 不能从 ${STATE_LABELS[tracked.state]} 转换为 ${
+        STATE_LABELS[to]
+      }`
+    );
+  }
+
+  const record: LifecycleTransition = {
+    from: tracked.state,
+    to,
+    timestamp: time,
+    price,
+    reason,
+  };
+  tracked.state = to;
+  tracked.transitions.push(record);
+  tracked.transitions.splice(0, tracked.transitions.length - MAX_TRANSITIONS);
+  logInfo(formatTransition(tracked.symbol, record));
+
+  return record;
+}
@@ -41,18 +41,43 @@ export function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * 将 K 线时间间隔转换为毫秒数
+ *
+ * @param interval K 线时间间隔，如 15m、1h、1d
+ * @returns 毫秒数 (月线按 30 天计算)
+ */
+export function intervalToMs(interval: string): number {
+  const match = interval.match(/^(\d+)([mhdwM])$/);
+  if (!match) {
+    throw new Error(`无效的 K 线时间间隔: ${interval}`);
+  }
+
+  const units: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+    M: 30 * 24 * 60 * 60 * 1000,
+  };
+
+  return parseInt(match[1]) * units[match[2]];
+}
+
 /**
  * 带重试的异步函数执行
  *
  * @param fn 要执行的异步函数
  * @param retries 重试次数
  * @param delayMs 重试间隔
+ * @param shouldRetry 判断错误是否可重试，不可重试的错误会直接抛出
  * @returns 函数执行结果
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   retries = 3,
-  delayMs = 1000
+  delayMs = 1000,
+  shouldRetry: (error: unknown) => boolean = () => true
 ): Promise<T> {
   let lastError: unknown;
 
@@ -60,6 +85,10 @@ export async function withRetry<T>(
     try {
       return await fn();
     } catch (error) {
+      if (!shouldRetry(error)) {
+        throw error;
+      }
+
       lastError = error;
       console.warn(`执行失败，${i + 1}/${retries} 次重试:`, error);
 
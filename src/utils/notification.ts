@@ -6,6 +6,7 @@
 
 import { NotificationMessage } from '../models/types.ts';
 import { logInfo, logError } from './helpers.ts';
+import { createRequestInit, getNetworkConfig } from '../api/network.ts';
 
 // Telegram Bot 配置
 interface TelegramConfig {
@@ -39,18 +40,22 @@ export async function sendTelegramNotification(
   }
 
   try {
-    const url = `https://api.telegram.org/bot${telegramConfig.botToken}/sendMessage`;
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        chat_id: telegramConfig.chatId,
-        text: message,
-        parse_mode: 'HTML',
-      }),
-    });
+    const network = getNetworkConfig();
+    const url = `${network.telegramApiBase}/bot${telegramConfig.botToken}/sendMessage`;
+    const response = await fetch(
+      url,
+      createRequestInit(network, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          chat_id: telegramConfig.chatId,
+          text: message,
+          parse_mode: 'HTML',
+        }),
+      })
+    );
 
     if (!response.ok) {
       const error = await response.text();
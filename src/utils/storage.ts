@@ -4,7 +4,12 @@
  * 负责将数据持久化到本地文件系统
  */
 
-import { GainerInfo, AnalysisResult, Candle } from '../models/types.ts';
+import {
+  GainerInfo,
+  AnalysisResult,
+  Candle,
+  CalibrationModel,
+} from '../models/types.ts';
 import { ensureDir, exists } from '@std/fs';
 import { format } from '@std/datetime';
 import { logInfo, logWarning, logError } from './helpers.ts';
@@ -14,6 +19,7 @@ export const DATA_DIR = './data';
 const ANALYSIS_DIR = `${DATA_DIR}/analysis`;
 const HISTORY_DIR = `${DATA_DIR}/history`;
 const CANDLES_DIR = `${DATA_DIR}/candles`;
+const CALIBRATION_FILE = `${DATA_DIR}/calibration/model.json`;
 
 /**
  * 初始化数据目录结构
@@ -129,43 +135,60 @@ export async function saveGainersList(
   logInfo(`涨幅榜数据已保存到: ${filename}`);
 }
 
+/**
+ * 获取 K 线缓存文件路径
+ *
+ * @param store 缓存命名空间 (数据源名称)，避免不同数据源的 K 线混在一起
+ * @param symbol 交易对
+ * @param timeframe 时间周期
+ * @returns 文件路径
+ */
+function getCandleFile(
+  store: string,
+  symbol: string,
+  timeframe: string
+): string {
+  const storeDir = store.replace(/[^\w.-]+/g, '_');
+  return `${CANDLES_DIR}/${storeDir}/${symbol}/${timeframe}.json`;
+}
+
 /**
  * 保存 K 线数据
  *
+ * 与已缓存的 K 线按收盘时间合并去重后写回，新数据覆盖旧数据
+ *
  * @param symbol 交易对
  * @param timeframe 时间周期
  * @param candles K 线数据
+ * @param store 缓存命名空间 (数据源名称)
+ * @returns 合并后按时间升序排列的全部缓存 K 线
  */
 export async function saveCandles(
   symbol: string,
   timeframe: string,
-  candles: Candle[]
-): Promise<void> {
-  if (candles.length === 0) return;
-
-  await ensureDataDirs();
+  candles: Candle[],
+  store = 'binance'
+): Promise<Candle[]> {
+  const existing = await loadCandles(symbol, timeframe, store);
+  if (candles.length === 0) return existing;
 
-  // 为每个交易对创建单独的目录
-  const symbolDir = `${CANDLES_DIR}/${symbol}`;
-  await ensureDir(symbolDir);
+  const merged = mergeCandles(existing, candles);
 
-  const dateStr = getDateString();
-  const filename = `${symbolDir}/${timeframe}_${dateStr}.json`;
+  const filename = getCandleFile(store, symbol, timeframe);
+  await ensureDir(filename.slice(0, filename.lastIndexOf('/')));
 
-  // 写入文件 (K线数据不追加，直接覆盖)
+  // K 线数量较多，使用紧凑格式写入
   await Deno.writeTextFile(
     filename,
-    JSON.stringify(
-      {
-        symbol,
-        timeframe,
-        timestamp: new Date().toISOString(),
-        candles,
-      },
-      null,
-      2
-    )
+    JSON.stringify({
+      symbol,
+      timeframe,
+      timestamp: new Date().toISOString(),
+      candles: merged,
+    })
   );
+
+  return merged;
 }
 
 /**
@@ -223,20 +246,36 @@ export async function loadGainersList(
 }
 
 /**
- * 读取历史 K 线数据
+ * 按收盘时间合并 K 线，后出现的数据覆盖先出现的数据
+ *
+ * @param lists K 线数组
+ * @returns 去重后按时间升序排列的 K 线
+ */
+export function mergeCandles(...lists: Candle[][]): Candle[] {
+  const candlesByCloseTime = new Map<number, Candle>();
+  for (const candle of lists.flat()) {
+    candlesByCloseTime.set(candle.closeTime, candle);
+  }
+
+  return Array.from(candlesByCloseTime.values()).sort(
+    (a, b) => a.closeTime - b.closeTime
+  );
+}
+
+/**
+ * 读取缓存的 K 线数据
  *
  * @param symbol 交易对
  * @param timeframe 时间周期
- * @param date 日期，默认为当天
- * @returns K 线数据数组
+ * @param store 缓存命名空间 (数据源名称)
+ * @returns 按时间升序排列的 K 线数据，没有缓存时返回空数组
  */
 export async function loadCandles(
   symbol: string,
   timeframe: string,
-  date: Date = new Date()
+  store = 'binance'
 ): Promise<Candle[]> {
-  const dateStr = format(date, 'yyyy-MM-dd');
-  const filename = `${CANDLES_DIR}/${symbol}/${timeframe}_${dateStr}.json`;
+  const filename = getCandleFile(store, symbol, timeframe);
 
   if (!(await exists(filename))) {
     return [];
@@ -365,3 +404,37 @@ export async function loadHistoryAnalysis(): Promise<any[]> {
     return [];
   }
 }
+
+/**
+ * 保存概率校准模型
+ *
+ * @param model 校准模型
+ * @returns 模型文件路径
+ */
+export async function saveCalibrationModel(
+  model: CalibrationModel
+): Promise<string> {
+  await ensureDir(CALIBRATION_FILE.slice(0, CALIBRATION_FILE.lastIndexOf('/')));
+  await Deno.writeTextFile(CALIBRATION_FILE, JSON.stringify(model, null, 2));
+  return CALIBRATION_FILE;
+}
+
+/**
+ * 加载概率校准模型
+ *
+ * @returns 校准模型，模型文件不存在或无法解析时返回 undefined
+ */
+export async function loadCalibrationModel(): Promise<
+  CalibrationModel | undefined
+> {
+  if (!(await exists(CALIBRATION_FILE))) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await Deno.readTextFile(CALIBRATION_FILE));
+  } catch (error) {
+    logError(`读取校准模型失败: ${error}`);
+    return undefined;
+  }
+}